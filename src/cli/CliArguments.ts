@@ -0,0 +1,92 @@
+import { BuildCommandType } from '../models/BuildHistory';
+
+// --- 命令行参数 ---
+
+export const CLI_USAGE = `用法: cbp-build run [选项]
+
+按 .cbp-build/queue.json 中的构建队列执行构建 (不需要 VS Code)
+
+选项:
+  --command <build|rebuild|clean>  执行的操作，默认为 build
+  --profile <名称>                 使用指定的队列配置，默认为当前配置
+  --workspace <目录>               工作区目录，默认为当前目录
+  --settings <文件>                读取 cbpBuildManager.* 设置的文件，默认为 <工作区>/.vscode/settings.json
+  --stop-on-failure                项目失败后停止后续项目 (覆盖 stopOnFailure 设置)
+  --no-stop-on-failure             项目失败后继续构建其它项目
+  -h, --help                       显示帮助
+
+退出码: 0 全部成功，1 有项目失败或被跳过，2 参数或配置错误，130 已取消`;
+
+// 参数或配置错误 (退出码 2)
+export class CliUsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CliUsageError';
+    }
+}
+
+export interface CliOptions {
+    command: BuildCommandType;
+    profile?: string;
+    workspace?: string;
+    settingsFile?: string;
+    // 未指定时使用 stopOnFailure 设置
+    stopOnFailure?: boolean;
+}
+
+const COMMANDS: BuildCommandType[] = ['build', 'rebuild', 'clean'];
+
+// 解析 process.argv.slice(2)；请求帮助时返回 null
+export function parseCliArguments(args: string[]): CliOptions | null {
+    if (args.length === 0 || args.some(arg => arg === '-h' || arg === '--help')) {return null;}
+
+    const [subcommand, ...rest] = args;
+    if (subcommand !== 'run') {
+        throw new CliUsageError(`未知命令: ${subcommand}`);
+    }
+
+    const options: CliOptions = { command: 'build' };
+    for (let i = 0; i < rest.length; i++) {
+        const arg = rest[i];
+        // 支持 --name value 与 --name=value 两种写法
+        const [name, inlineValue] = arg.startsWith('--') && arg.includes('=')
+            ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+            : [arg, undefined];
+        const value = () => {
+            const v = inlineValue ?? rest[++i];
+            if (v === undefined || v === '') {
+                throw new CliUsageError(`参数 ${name} 需要一个值`);
+            }
+            return v;
+        };
+
+        switch (name) {
+            case '--command': {
+                const command = value() as BuildCommandType;
+                if (!COMMANDS.includes(command)) {
+                    throw new CliUsageError(`--command 只能是 ${COMMANDS.join('、')}`);
+                }
+                options.command = command;
+                break;
+            }
+            case '--profile':
+                options.profile = value();
+                break;
+            case '--workspace':
+                options.workspace = value();
+                break;
+            case '--settings':
+                options.settingsFile = value();
+                break;
+            case '--stop-on-failure':
+                options.stopOnFailure = true;
+                break;
+            case '--no-stop-on-failure':
+                options.stopOnFailure = false;
+                break;
+            default:
+                throw new CliUsageError(`未知参数: ${arg}`);
+        }
+    }
+    return options;
+}
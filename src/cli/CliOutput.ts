@@ -0,0 +1,48 @@
+import { stripAnsi } from '../utils/CommonUtils';
+
+// --- 命令行输出 ---
+// 终端 (TTY) 中保留颜色并原地刷新 ninja 进度行；输出重定向到文件或 CI 日志时去除颜色并逐行输出
+
+export interface OutputStream {
+    write(text: string): unknown;
+    isTTY?: boolean;
+}
+
+export class CliOutput {
+    // 当前是否停留在原地刷新的进度行上
+    private inProgress = false;
+    // 每次写出的原始内容 (含 ANSI)，用于收集运行日志
+    onWrite?: (text: string) => void;
+
+    constructor(private readonly stream: OutputStream, private readonly color = !!stream.isTTY && !process.env.NO_COLOR) {}
+
+    // 输出一行 (可含多行和 ANSI 颜色)
+    line(text: string) {
+        this.endProgress();
+        this.stream.write(this.format(text) + '\n');
+        this.onWrite?.(text + '\n');
+    }
+
+    // ninja 进度行：终端中原地刷新，否则按普通行输出
+    progress(text: string) {
+        if (!this.stream.isTTY) {
+            this.line(text);
+            return;
+        }
+        this.stream.write(`\r\x1b[K${this.format(text)}`);
+        this.inProgress = true;
+        this.onWrite?.(`\r${text}`);
+    }
+
+    // 结束进度行状态
+    endProgress() {
+        if (!this.inProgress) {return;}
+        this.inProgress = false;
+        this.stream.write('\n');
+        this.onWrite?.('\n');
+    }
+
+    private format(text: string): string {
+        return this.color ? text : stripAnsi(text);
+    }
+}
@@ -0,0 +1,259 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BuildCommandType, BuildRunRecord, ProjectBuildStatus } from '../models/BuildHistory';
+import { CbpProject } from '../models/CbpProject';
+import { parseJsonc, parseNinjaProgress, processBuildCommandPath } from '../utils';
+import { CliUsageError } from './CliArguments';
+import { CliOutput } from './CliOutput';
+import { BuildCancelledError, CancellationSignal, CommandFailedError, CommandTimeoutError, spawnCommand } from '../services/CommandRunner';
+import { QueueState, getCheckedProjects, getQueueStateFilePath, readQueueState } from '../services/QueueState';
+import { readBuildSettings } from '../services/BuildSteps';
+import { BuildPipeline, BuildPipelineResult, Cbp2clangVersionError } from '../services/BuildPipeline';
+import { ConfigReader } from '../services/CommandTemplate';
+import { SettingsReader, loadProjectsConfig, readSettingsConfig } from '../services/ProjectConfig';
+import { BuildHistoryStore, BuildLogCollector, describeRunCounts, formatRunSummary } from '../services/BuildHistory';
+import { ConvertStampStore } from '../services/IncrementalBuild';
+import { ProjectLog, ProjectLogStore, DEFAULT_PROJECT_LOG_RETENTION } from '../services/ProjectLogs';
+import { buildDependencyGraph, removeCycleDependencies, topologicalSort } from '../services/DependencyGraph';
+import { loadCbpProject } from '../services/CbpProjectParser';
+
+// --- 无界面构建 (cbp-build run) ---
+// 读取扩展保存的构建队列，使用与扩展相同的构建流程 (BuildPipeline) 处理勾选的项目；
+// 结果写入 .cbp-build 下的构建历史和项目日志，扩展中可直接查看
+
+export interface HeadlessRunOptions {
+    workspaceRoot: string;
+    command: BuildCommandType;
+    // 队列配置名，默认为 queue.json 中的当前配置
+    profile?: string;
+    // 设置文件，默认为 <工作区>/.vscode/settings.json
+    settingsFile?: string;
+    // 覆盖 stopOnFailure 设置
+    stopOnFailure?: boolean;
+    token?: CancellationSignal;
+    output: CliOutput;
+}
+
+const SETTINGS_PREFIX = 'cbpBuildManager.';
+
+// 读取 settings.json 中的全部设置 (键为完整名称，供 ${config:...} 使用)；文件不存在时为空
+function readSettingsValues(filePath: string): Record<string, unknown> {
+    if (!fs.existsSync(filePath)) {return {};}
+    try {
+        const settings = parseJsonc(fs.readFileSync(filePath, 'utf-8'));
+        return settings && typeof settings === 'object' && !Array.isArray(settings) ? settings as Record<string, unknown> : {};
+    } catch (error) {
+        throw new CliUsageError(`无法解析设置文件 ${filePath}: ${(error as Error).message}`);
+    }
+}
+
+function createSettingsReader(settings: Record<string, unknown>): SettingsReader {
+    return <T>(key: string, defaultValue: T): T => {
+        const value = settings[SETTINGS_PREFIX + key];
+        return value === undefined ? defaultValue : value as T;
+    };
+}
+
+// 读取 settings.json 中的 cbpBuildManager.* 设置；文件不存在时全部使用默认值
+export function loadSettingsFile(filePath: string): SettingsReader {
+    return createSettingsReader(readSettingsValues(filePath));
+}
+
+function loadQueueState(workspaceRoot: string): QueueState {
+    const filePath = getQueueStateFilePath(workspaceRoot);
+    let state: QueueState | null;
+    try {
+        state = readQueueState(filePath);
+    } catch (error) {
+        throw new CliUsageError(`无法解析构建队列 ${filePath}: ${(error as Error).message}`);
+    }
+    if (!state) {
+        throw new CliUsageError(`未找到构建队列 ${filePath}，请先在 VS Code 中配置构建队列`);
+    }
+    return state;
+}
+
+function projectLabel(fsPath: string): string {
+    return path.basename(fsPath, '.cbp');
+}
+
+const SUMMARY_COLORS: Record<ProjectBuildStatus, string> = {
+    success: '\x1b[32m',
+    failed: '\x1b[31m',
+    skipped: '\x1b[33m',
+    cancelled: '\x1b[33m'
+};
+
+export async function runHeadless(options: HeadlessRunOptions): Promise<BuildRunRecord> {
+    const { workspaceRoot, command, output } = options;
+    const stateDir = path.dirname(getQueueStateFilePath(workspaceRoot));
+
+    const state = loadQueueState(workspaceRoot);
+    const profileName = options.profile ?? state.activeProfile;
+    const profile = state.profiles.get(profileName);
+    if (!profile) {
+        throw new CliUsageError(`队列配置 "${profileName}" 不存在，可用配置: ${Array.from(state.profiles.keys()).join(', ')}`);
+    }
+
+    const projects = getCheckedProjects(profile);
+    if (projects.length === 0) {
+        throw new CliUsageError(`队列配置 "${profileName}" 中没有勾选的项目`);
+    }
+
+    const settingsValues = readSettingsValues(options.settingsFile ?? path.join(workspaceRoot, '.vscode', 'settings.json'));
+    const get = createSettingsReader(settingsValues);
+    const config: ConfigReader = key => settingsValues[key];
+    const settings = readBuildSettings(get);
+    if (options.stopOnFailure !== undefined) {
+        settings.stopOnFailure = options.stopOnFailure;
+    }
+    const configSources = [readSettingsConfig(get), loadProjectsConfig(stateDir)];
+    const logRetention = get('projectLogRetention', DEFAULT_PROJECT_LOG_RETENTION);
+    const convertStamps = new ConvertStampStore(stateDir);
+    const projectLogs = new ProjectLogStore(stateDir);
+
+    // 运行日志 (保存到构建历史)
+    const log = new BuildLogCollector();
+    output.onWrite = text => log.append(text);
+
+    const titles: Record<BuildCommandType, string> = { build: '构建', rebuild: '重新编译', clean: '清理' };
+    output.line(`\x1b[36m=== 开始${titles[command]}流程 (队列配置: ${profileName}) ===\x1b[0m`);
+    output.line(`选中项目数: ${projects.length}`);
+
+    // 各项目本次运行的日志
+    const openLogs = new Map<string, ProjectLog | null>();
+
+    const pipeline = new BuildPipeline({
+        command,
+        settings,
+        projects: projects.map(fsPath => ({ fsPath, selectedTarget: profile.targets[fsPath] })),
+        profile: profileName,
+        getWorkspaceRoot: () => workspaceRoot,
+        getConfigSources: () => configSources,
+        getConfigReader: () => config,
+        getConvertStamps: () => convertStamps,
+        // 依赖关系：循环依赖中的项目按队列顺序构建
+        getDependencies: () => {
+            const models = projects.map(p => loadCbpProject(p)).filter((p): p is CbpProject => p !== null);
+            const graph = buildDependencyGraph(models);
+            const { cycles } = topologicalSort(projects, graph.dependencies);
+            cycles.forEach(cycle => {
+                const names = cycle.map(projectLabel);
+                output.line(`\x1b[31m错误: 检测到循环依赖: ${[...names, names[0]].join(' -> ')}，这些项目将按队列顺序构建\x1b[0m`);
+            });
+            return removeCycleDependencies(graph.dependencies, cycles);
+        },
+        runner: request => runCliCommand(request.command, request.cwd, output, {
+            tag: request.outputPrefix,
+            env: request.env,
+            token: options.token,
+            timeoutMs: request.timeoutMs,
+            // 命令行中无法询问，只输出提醒并继续等待 (由步骤时限结束)
+            stallMs: request.stallMs,
+            onStall: request.onStall,
+            onLine: request.onLine,
+            onLog: openLogs.get(request.project)?.append
+        }),
+        token: options.token
+    });
+
+    pipeline.onEvent(event => {
+        pipeline.format(event).forEach(line => output.line(line));
+        if (event.type === 'projectStart') {
+            openLogs.set(event.project, projectLogs.begin(event.project, logRetention));
+        } else if (event.type === 'projectFinish') {
+            openLogs.get(event.project)?.close();
+            openLogs.delete(event.project);
+        }
+    });
+
+    let result: BuildPipelineResult;
+    try {
+        result = await pipeline.run();
+    } catch (error) {
+        if (error instanceof Cbp2clangVersionError) {
+            throw new CliUsageError(error.message);
+        }
+        throw error;
+    }
+    const { record, upToDateProjects, cancelled } = result;
+
+    if (upToDateProjects.length > 0) {
+        output.line(`\n\x1b[32m已是最新 (跳过构建): ${upToDateProjects.map(projectLabel).join(', ')}\x1b[0m`);
+    }
+    output.line(cancelled
+        ? `\n\x1b[33m=== ${titles[command]}流程已取消 ===\x1b[0m`
+        : `\n\x1b[36m=== ${titles[command]}流程结束 ===\x1b[0m`);
+
+    const [header, ...rows] = formatRunSummary(record);
+    output.line(`\n\x1b[36m${describeRunCounts(record)}\x1b[0m`);
+    output.line(header);
+    rows.forEach((line, i) => output.line(`${SUMMARY_COLORS[record.projects[i].status]}${line}\x1b[0m`));
+
+    output.onWrite = undefined;
+    return new BuildHistoryStore(stateDir).addRun(record, log.getText());
+}
+
+interface CliCommandOptions {
+    // 输出行前缀 (并行构建时区分项目)，设置后进度行不再原地刷新
+    tag: string;
+    env?: NodeJS.ProcessEnv;
+    token?: CancellationSignal;
+    // 每一行输出 (非进度行已做路径转换)
+    onLine?: (line: string) => void;
+    // 写入项目日志
+    onLog?: (line: string) => void;
+    timeoutMs?: number;
+    stallMs?: number;
+    onStall?: (silentMs: number) => Promise<boolean>;
+}
+
+// 执行命令并按构建终端的格式输出：ninja 进度行原地刷新，错误信息中的相对路径转换为完整路径
+async function runCliCommand(cmd: string, cwd: string, output: CliOutput, options: CliCommandOptions): Promise<void> {
+    const { tag } = options;
+    try {
+        await spawnCommand(cmd, cwd, {
+            env: options.env,
+            token: options.token,
+            timeoutMs: options.timeoutMs,
+            stallMs: options.stallMs,
+            onStall: options.onStall,
+            onStart: displayCmd => {
+                output.line(`${tag}\x1b[33m$ ${displayCmd}\x1b[0m`);
+                options.onLog?.(`$ ${displayCmd}`);
+            },
+            onLine: line => {
+                const progress = parseNinjaProgress(line);
+                if (progress.isProgress) {
+                    const text = `${tag}\x1b[32m${progress.prefix}\x1b[0m ${progress.shortMsg}`;
+                    if (tag) {
+                        output.line(text);
+                    } else {
+                        output.progress(text);
+                    }
+                    options.onLine?.(line);
+                    options.onLog?.(line);
+                } else {
+                    const processedLine = processBuildCommandPath(line, cwd);
+                    output.line(`${tag}${processedLine}`);
+                    options.onLine?.(processedLine);
+                    options.onLog?.(processedLine);
+                }
+            }
+        });
+        output.endProgress();
+    } catch (error) {
+        output.endProgress();
+        if (error instanceof BuildCancelledError) {
+            options.onLog?.('>>> 已取消');
+        } else if (error instanceof CommandFailedError) {
+            options.onLog?.(`>>> ${error.message}`);
+        } else if (error instanceof CommandTimeoutError) {
+            options.onLog?.(`>>> ${error.message}`);
+        } else {
+            output.line(`\x1b[31mSpawn Error: ${(error as Error).message}\x1b[0m`);
+            options.onLog?.(`Spawn Error: ${(error as Error).message}`);
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,71 @@
+import * as path from 'path';
+import { CLI_USAGE, CliUsageError, parseCliArguments } from './CliArguments';
+import { CliOutput } from './CliOutput';
+import { runHeadless } from './HeadlessRunner';
+import { CancellationController } from '../services/CommandRunner';
+import { BuildRunRecord } from '../models/BuildHistory';
+
+// --- 命令行入口 (cbp-build) ---
+
+// 退出码：0 全部成功，1 有项目失败或被跳过，2 参数或配置错误，130 已取消
+export const EXIT_FAILED = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_CANCELLED = 130;
+
+export function getExitCode(record: BuildRunRecord): number {
+    if (record.status === 'cancelled') {return EXIT_CANCELLED;}
+    return record.status === 'success' ? 0 : EXIT_FAILED;
+}
+
+export async function main(args: string[]): Promise<number> {
+    let options;
+    try {
+        options = parseCliArguments(args);
+    } catch (error) {
+        console.error(`${(error as Error).message}\n\n${CLI_USAGE}`);
+        return EXIT_USAGE;
+    }
+    if (!options) {
+        console.log(CLI_USAGE);
+        return 0;
+    }
+
+    // 第一次 Ctrl+C 停止构建 (结束正在运行的进程树)，第二次立即退出
+    const cancellation = new CancellationController();
+    const onInterrupt = () => {
+        if (cancellation.isCancellationRequested) {
+            process.exit(EXIT_CANCELLED);
+        }
+        console.error('\n>>> 正在停止构建...');
+        cancellation.cancel();
+    };
+    process.on('SIGINT', onInterrupt);
+
+    try {
+        const record = await runHeadless({
+            workspaceRoot: path.resolve(options.workspace ?? process.cwd()),
+            command: options.command,
+            profile: options.profile,
+            settingsFile: options.settingsFile && path.resolve(options.settingsFile),
+            stopOnFailure: options.stopOnFailure,
+            token: cancellation,
+            output: new CliOutput(process.stdout)
+        });
+        return getExitCode(record);
+    } catch (error) {
+        if (error instanceof CliUsageError) {
+            console.error(`错误: ${error.message}`);
+            return EXIT_USAGE;
+        }
+        console.error(error);
+        return EXIT_FAILED;
+    } finally {
+        process.off('SIGINT', onInterrupt);
+    }
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
@@ -3,7 +3,6 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as cp from 'child_process';
 
 // Re-export from new modules for backward compatibility
 export { CbpProjectItem, DirectoryItem } from './models/items';
@@ -13,66 +12,34 @@ export { BuildTerminal, createOrShowTerminal, runCommand, runCommandInDirectory
 export { decodeBuffer, formatOutput, compareVersions, OutputLineBuffer } from './utils';
 export { mergeCompileCommands, checkMergeCommandSupport, mergeCompileCommandsFiles } from './services/index';
 
-// --- 常量定义 ---
-// cbp2clangd 最小要求版本
-const MIN_REQUIRED_CBP2CLANG_VERSION = '1.4.0';
-
 // Import from modules
 import { CbpDataManager } from './services/DataManager.js';
-import { createOrShowTerminal, runCommand, runCommandInDirectory } from './terminal/TerminalManager.js';
+import { BUILD_TERMINAL_NAME, createOrShowTerminal, runCommandInDirectory, BuildCancelledError, onDidRequestInterrupt, onDidWriteOutput, setPreserveTerminalFocus } from './terminal/TerminalManager.js';
 import { compareVersions } from './utils/index.js';
 import { mergeCompileCommandsFiles } from './services/index.js';
 import { CompileCommandsProvider } from './providers/CompileCommandsProvider.js';
-
-// --- 检查 cbp2clangd 版本 ---
-async function checkCbp2clangVersion(cbp2clangPath: string): Promise<string> {
-    const { decodeBuffer } = await import('./utils/index.js');
-    return new Promise((resolve, reject) => {
-        let version = '';
-        let error = '';
-
-        const options: cp.SpawnOptions = {
-            windowsHide: true,
-            shell: process.platform === 'win32' ? 'cmd.exe' : undefined
-        };
-
-        const child = cp.spawn(
-            process.platform === 'win32' ? 'cmd.exe' : cbp2clangPath,
-            process.platform === 'win32' ? ['/c', `${cbp2clangPath} -v`] : ['-v'],
-            options
-        );
-
-        if (child.stdout) {
-            child.stdout.on('data', (data: Buffer) => {
-                version += decodeBuffer(data);
-            });
-        }
-
-        if (child.stderr) {
-            child.stderr.on('data', (data: Buffer) => {
-                error += decodeBuffer(data);
-            });
-        }
-
-        child.on('close', (code: number) => {
-            if (code === 0) {
-                // 解析版本信息，格式：cbp2clangd v1.1.5
-                const versionMatch = version.match(/v([0-9]+\.[0-9]+\.[0-9]+)/);
-                if (versionMatch) {
-                    resolve(versionMatch[1]);
-                } else {
-                    resolve(version.trim());
-                }
-            } else {
-                reject(new Error(`Failed to check cbp2clangd version: ${error || `Exit code ${code}`}`));
-            }
-        });
-
-        child.on('error', (err: Error) => {
-            reject(new Error(`Failed to execute cbp2clangd: ${err.message}`));
-        });
-    });
-}
+import { BuildHistoryProvider } from './providers/BuildHistoryProvider.js';
+import { CbpTaskProvider, CBP_TASK_TYPE, BUILD_COMMAND_IDS } from './providers/CbpTaskProvider.js';
+import { BuildTerminalLinkProvider } from './providers/BuildTerminalLinkProvider.js';
+import { BuildDiagnosticsManager } from './services/BuildDiagnostics.js';
+import { BuildHistoryStore, BuildLogCollector, describeRunCounts, formatRunSummary } from './services/BuildHistory.js';
+import { ConvertStampStore } from './services/IncrementalBuild.js';
+import { BuildStatusBar } from './services/BuildStatusBar.js';
+import { WatchModeController } from './services/WatchMode.js';
+import { loadProjectsConfig, readSettingsConfig, ProjectsConfig } from './services/ProjectConfig.js';
+import { MIN_REQUIRED_CBP2CLANG_VERSION, checkCbp2clangVersion, readBuildSettings } from './services/BuildSteps.js';
+import { BUILD_STEP_LABELS, BuildPipeline, BuildPipelineResult, Cbp2clangVersionError } from './services/BuildPipeline.js';
+import { ProjectLog, ProjectLogStore, DEFAULT_PROJECT_LOG_RETENTION } from './services/ProjectLogs.js';
+import { FirmwareSizeReport, FirmwareSizeStore, formatFirmwareSizeTable, measureProjectFirmware } from './services/FirmwareSize.js';
+import { DeepCleanReason, executeDeepClean, planDeepClean } from './services/DeepClean.js';
+import { loadCbpProject, getTargetNames } from './services/CbpProjectParser.js';
+import { findCompileCommandsForFile, getEntryCommand } from './services/CompileCommandsLookup.js';
+import { buildDependencyGraph, findOrderViolations, removeCycleDependencies, topologicalSort } from './services/DependencyGraph.js';
+import { CbpProject } from './models/CbpProject.js';
+import { CbpProjectItem } from './models/items.js';
+import { BuildRunItem } from './models/BuildHistoryItem.js';
+import { BuildCommandType, BuildRunRecord, ProjectBuildStatus } from './models/BuildHistory.js';
+import { BuildTerminal } from './terminal/TerminalManager.js';
 
 // 检测未保存文件并提示保存
 async function checkAndPromptSave(): Promise<boolean> {
@@ -153,6 +120,174 @@ function checkAndUpdateNinjaPath(config: vscode.WorkspaceConfiguration) {
     terminal.write('Ninja 路径检查完成\n');
 }
 
+// --- 构建运行状态 (同一时间只允许一个构建流程，支持停止) ---
+let g_buildCancellation: vscode.CancellationTokenSource | null = null;
+// 状态栏构建指示 (activate 时创建)
+let g_statusBar: BuildStatusBar | null = null;
+
+function isBuildRunning(): boolean {
+    return g_buildCancellation !== null;
+}
+
+// 独占执行一个构建流程，期间可通过 stopBuild 命令或终端 Ctrl+C 取消；终端输出同时收集到 log 中
+// 返回本次运行的记录，未实际执行 (已有构建、用户取消、前置检查失败) 时为 undefined
+async function runExclusiveBuild(task: (token: vscode.CancellationToken, log: BuildLogCollector) => Promise<BuildRunRecord | undefined>): Promise<BuildRunRecord | undefined> {
+    if (g_buildCancellation) {
+        vscode.window.showWarningMessage('已有构建流程正在执行，请先停止或等待完成。');
+        return;
+    }
+
+    const cancellation = new vscode.CancellationTokenSource();
+    g_buildCancellation = cancellation;
+    vscode.commands.executeCommand('setContext', 'cbpBuildManager.isBuilding', true);
+
+    const log = new BuildLogCollector();
+    const logListener = onDidWriteOutput(data => log.append(data));
+
+    try {
+        return await task(cancellation.token, log);
+    } finally {
+        logListener.dispose();
+        g_statusBar?.endRun();
+        cancellation.dispose();
+        g_buildCancellation = null;
+        vscode.commands.executeCommand('setContext', 'cbpBuildManager.isBuilding', false);
+    }
+}
+
+// 请求停止当前构建流程
+function stopBuild() {
+    if (!g_buildCancellation || g_buildCancellation.token.isCancellationRequested) {return;}
+    createOrShowTerminal().write(`\n\x1b[33m>>> 正在停止构建...\x1b[0m\n`);
+    g_buildCancellation.cancel();
+}
+
+// 命令要处理的项目：传入路径列表时 (如重新运行历史记录) 使用这些项目，否则为队列中被勾选的项目
+function getCommandProjects(manager: CbpDataManager, projectPaths: unknown): CbpProjectItem[] {
+    const queue = manager.getQueueItems();
+    if (!Array.isArray(projectPaths)) {
+        return queue.filter(p => p.checkboxState === vscode.TreeItemCheckboxState.Checked);
+    }
+
+    // 队列中已有的项目沿用其构建目标设置
+    return projectPaths
+        .filter((p): p is string => typeof p === 'string' && fs.existsSync(p))
+        .map(fsPath => queue.find(p => p.fsPath === fsPath)
+            ?? new CbpProjectItem(path.basename(fsPath, '.cbp'), fsPath, true, vscode.TreeItemCollapsibleState.None, true));
+}
+
+// --- 依赖分析 ---
+
+function projectLabel(fsPath: string): string {
+    return path.basename(fsPath, '.cbp');
+}
+
+function analyzeDependencies(projects: CbpProjectItem[]) {
+    const models = projects
+        .map(p => loadCbpProject(p.fsPath))
+        .filter((p): p is CbpProject => p !== null);
+    const graph = buildDependencyGraph(models);
+    const order = projects.map(p => p.fsPath);
+    const { cycles } = topologicalSort(order, graph.dependencies);
+    const violations = findOrderViolations(order, graph.dependencies);
+    return { graph, cycles, violations };
+}
+
+// 构建前检查依赖：报告顺序冲突和循环依赖，返回调度使用的依赖表（忽略循环内部的依赖）
+function checkBuildDependencies(projects: CbpProjectItem[], terminal: BuildTerminal, debugMode: boolean): Map<string, string[]> {
+    const { graph, cycles, violations } = analyzeDependencies(projects);
+
+    if (debugMode) {
+        graph.edges.forEach(edge => {
+            const reason = edge.reason === 'depends' ? 'Depends' : '链接库';
+            terminal.write(`\x1b[36m[调试] 依赖: ${projectLabel(edge.from)} -> ${projectLabel(edge.to)} (${reason}: ${edge.detail})\x1b[0m\n`);
+        });
+    }
+
+    cycles.forEach(cycle => {
+        const names = cycle.map(projectLabel);
+        terminal.write(`\x1b[31m错误: 检测到循环依赖: ${[...names, names[0]].join(' -> ')}，这些项目将按队列顺序构建\x1b[0m\n`);
+    });
+    if (cycles.length > 0) {
+        vscode.window.showWarningMessage(`检测到 ${cycles.length} 组循环依赖，详情请查看终端输出。`);
+    }
+
+    if (violations.length > 0) {
+        violations.forEach(v => {
+            terminal.write(`\x1b[33m警告: ${projectLabel(v.project)} 依赖 ${projectLabel(v.dependency)}，但在队列中排在它前面\x1b[0m\n`);
+        });
+        terminal.write(`\x1b[33m本次构建将按依赖关系调整执行顺序\x1b[0m\n`);
+        vscode.window.showWarningMessage('构建队列顺序与项目依赖关系不一致。', '按依赖排序队列').then(choice => {
+            if (choice) {
+                vscode.commands.executeCommand('cbp-build-manager.sortQueueByDependencies');
+            }
+        });
+    }
+
+    return removeCycleDependencies(graph.dependencies, cycles);
+}
+
+// --- 项目构建配置 (构建前后命令、环境变量) ---
+
+// 配置来源：工作区设置在前，项目所属工作区文件夹的 .cbp-build/projects.json 在后
+function getProjectConfigSources(manager: CbpDataManager, config: vscode.WorkspaceConfiguration): (cbpPath: string) => ProjectsConfig[] {
+    const settingsConfig = readSettingsConfig((key, defaultValue) => config.get(key, defaultValue));
+    return cbpPath => [settingsConfig, loadProjectsConfig(manager.getStateDir(cbpPath))];
+}
+
+// 多根工作区：按项目所属工作区文件夹的 .cbp-build 目录分别创建存储
+// (不指定路径时为主文件夹的存储)
+function createFolderStores<T>(manager: CbpDataManager, create: (stateDir: string | null) => T): (fsPath?: string) => T {
+    const stores = new Map<string | null, T>();
+    return fsPath => {
+        const stateDir = manager.getStateDir(fsPath);
+        if (!stores.has(stateDir)) {
+            stores.set(stateDir, create(stateDir));
+        }
+        return stores.get(stateDir)!;
+    };
+}
+
+// --- 深度清理 ---
+
+const DEEP_CLEAN_REASON_LABELS: Record<DeepCleanReason, string> = {
+    build: '构建文件',
+    objects: '目标文件目录',
+    compileCommands: '编译数据库',
+    artifact: '产物'
+};
+
+// --- 运行汇总 ---
+
+const SUMMARY_COLORS: Record<ProjectBuildStatus, string> = {
+    success: '\x1b[32m',
+    failed: '\x1b[31m',
+    skipped: '\x1b[33m',
+    cancelled: '\x1b[33m'
+};
+
+function writeRunSummary(terminal: BuildTerminal, record: BuildRunRecord) {
+    if (record.projects.length === 0) {return;}
+
+    const [header, ...rows] = formatRunSummary(record);
+    terminal.write(`\n\x1b[36m${describeRunCounts(record)}\x1b[0m\n`);
+    terminal.write(`${header}\n`);
+    rows.forEach((line, i) => terminal.write(`${SUMMARY_COLORS[record.projects[i].status]}${line}\x1b[0m\n`));
+}
+
+// --- 固件大小 ---
+
+// 终端汇总中按项目顺序输出固件大小表格
+function writeFirmwareSizeSummary(terminal: BuildTerminal, projects: CbpProjectItem[], reports: Map<string, FirmwareSizeReport>) {
+    const rows = projects
+        .map(p => reports.get(p.fsPath))
+        .filter((r): r is FirmwareSizeReport => r !== undefined);
+    if (rows.length === 0) {return;}
+
+    terminal.write(`\n\x1b[36m固件大小 (字节，括号内为与上次构建相比的变化):\x1b[0m\n`);
+    formatFirmwareSizeTable(rows).forEach(line => terminal.write(`${line}\n`));
+}
+
 // --- 全局终端管理 (for cleanup) ---
 import { getGlobalTerminal, getGlobalPty } from './terminal/TerminalManager';
 
@@ -162,13 +297,17 @@ export function activate(context: vscode.ExtensionContext) {
     const manager = new CbpDataManager();
     manager.setContext(context);
 
+    // 构建诊断 (Problems 面板)
+    const diagnostics = new BuildDiagnosticsManager();
+    context.subscriptions.push(diagnostics);
+
     // 导入 Provider
     const { BuildQueueProvider, ProjectLibraryProvider } = require('./providers');
 
     // 监听终端关闭，清理全局变量引用
     context.subscriptions.push(vscode.window.onDidCloseTerminal((terminal) => {
         const g_terminal = getGlobalTerminal();
-        if (terminal.name === 'CBP Build Manager' && g_terminal && terminal === g_terminal) {
+        if (terminal.name === BUILD_TERMINAL_NAME && g_terminal && terminal === g_terminal) {
             const { resetGlobalTerminal } = require('./terminal/TerminalManager');
             resetGlobalTerminal();
         }
@@ -190,7 +329,7 @@ export function activate(context: vscode.ExtensionContext) {
     const libraryProvider = new ProjectLibraryProvider(manager);
 
     // 注册上方视图 (支持拖拽)
-    const queueTreeView = vscode.window.createTreeView('cbpBuildQueue', {
+    const queueTreeView = vscode.window.createTreeView<CbpProjectItem>('cbpBuildQueue', {
         treeDataProvider: buildQueueProvider,
         dragAndDropController: buildQueueProvider,
         canSelectMany: true
@@ -202,6 +341,13 @@ export function activate(context: vscode.ExtensionContext) {
         canSelectMany: true
     });
 
+    // 在构建队列标题中显示当前队列配置
+    const updateQueueTitle = () => {
+        queueTreeView.description = manager.getActiveProfile();
+    };
+    updateQueueTitle();
+    context.subscriptions.push(manager.onDidChangeTreeData(updateQueueTitle));
+
     // 监听 Checkbox 变化
     queueTreeView.onDidChangeCheckboxState(e => {
         e.items.forEach(([item, state]) => {
@@ -224,10 +370,135 @@ export function activate(context: vscode.ExtensionContext) {
         });
     });
 
+    // 构建历史视图：运行记录保存在第一个项目所属文件夹的 .cbp-build 中，视图合并显示各文件夹的记录
+    const historyStores = createFolderStores(manager, stateDir => new BuildHistoryStore(stateDir));
+    const getRunHistory = (record: BuildRunRecord) => historyStores(record.projects[0]?.fsPath);
+    const getAllHistories = () => {
+        const folders = manager.getWorkspaceFolders();
+        return Array.from(new Set(folders.length > 0 ? folders.map(folder => historyStores(folder)) : [historyStores()]));
+    };
+    const historyProvider = new BuildHistoryProvider(() => getAllHistories()
+        .flatMap(store => store.getRuns())
+        .sort((a, b) => b.startTime.localeCompare(a.startTime)));
+    context.subscriptions.push(vscode.window.createTreeView('cbpBuildHistory', {
+        treeDataProvider: historyProvider
+    }));
+
+    // 命令行 (cbp-build run) 写入的运行记录：history.json 变化时重新读取
+    const historyWatcher = vscode.workspace.createFileSystemWatcher('**/.cbp-build/history.json');
+    const reloadHistory = () => {
+        getAllHistories().forEach(store => store.reload());
+        historyProvider.refresh();
+    };
+    historyWatcher.onDidChange(reloadHistory);
+    historyWatcher.onDidCreate(reloadHistory);
+    historyWatcher.onDidDelete(reloadHistory);
+    context.subscriptions.push(historyWatcher);
+
+    // 增量构建：记录各项目上次转换时的 .cbp 状态
+    const convertStamps = createFolderStores(manager, stateDir => new ConvertStampStore(stateDir));
+
+    // 各项目每次构建的完整日志
+    const projectLogs = createFolderStores(manager, stateDir => new ProjectLogStore(stateDir));
+
+    // 固件大小：保存各项目上次构建的 text/data/bss
+    const firmwareSizes = createFolderStores(manager, stateDir => new FirmwareSizeStore(stateDir));
+    const measureFirmware = (project: CbpProjectItem, target: string, outputPattern: string, reports: Map<string, FirmwareSizeReport>, terminal: BuildTerminal, debugMode: boolean) => {
+        const measurement = measureProjectFirmware(project.fsPath, target, outputPattern);
+        if (!measurement) {
+            if (debugMode) {
+                terminal.write(`\x1b[36m[调试] 未找到项目 ${project.label} 可统计大小的 ELF/.map 输出文件\x1b[0m\n`);
+            }
+            return;
+        }
+        reports.set(project.fsPath, { ...measurement, project: project.label, previous: firmwareSizes(project.fsPath).get(project.fsPath) });
+        firmwareSizes(project.fsPath).update(project.fsPath, measurement);
+    };
+
+    // 状态栏构建指示
+    const statusBar = new BuildStatusBar();
+    g_statusBar = statusBar;
+    context.subscriptions.push(statusBar);
+
+    const saveHistory = (record: BuildRunRecord, log: BuildLogCollector): BuildRunRecord => {
+        const saved = getRunHistory(record).addRun(record, log.getText());
+        historyProvider.refresh();
+        statusBar.endRun(saved);
+        return saved;
+    };
+
+    // 有失败项目时提示：查看失败项目的日志，或只重新运行失败的项目
+    const notifyFailedProjects = async (record: BuildRunRecord) => {
+        const failed = record.projects.filter(p => p.status === 'failed');
+        if (failed.length === 0 || record.status === 'cancelled') {return;}
+
+        const SHOW_FAILED = '显示失败项目';
+        const RETRY_FAILED = '重试失败项目';
+        const names = failed.map(p => p.name).join(', ');
+        const choice = await vscode.window.showErrorMessage(`${failed.length} 个项目失败: ${names}`, SHOW_FAILED, RETRY_FAILED);
+
+        if (choice === RETRY_FAILED) {
+            vscode.commands.executeCommand(BUILD_COMMAND_IDS[record.command], failed.map(p => p.fsPath));
+        } else if (choice === SHOW_FAILED) {
+            const picked = await vscode.window.showQuickPick(failed.map(p => ({
+                label: p.name,
+                description: p.failureReason === 'timeout' ? '超时'
+                    : p.failureReason === 'stalled' ? '无输出被结束'
+                    : p.exitCode !== undefined ? `退出码 ${p.exitCode}` : undefined,
+                detail: `错误 ${p.errorCount}，警告 ${p.warningCount}`,
+                fsPath: p.fsPath
+            })), { placeHolder: '选择项目打开最近的构建日志' });
+            if (picked) {
+                const logPath = projectLogs(picked.fsPath).getLastLog(picked.fsPath) ?? picked.fsPath;
+                await vscode.window.showTextDocument(vscode.Uri.file(logPath), { preview: true });
+            }
+        }
+    };
+
+    // 运行结束：终端输出各项目结果汇总并保存历史，有失败项目时弹出通知
+    const finishRun = (record: BuildRunRecord, terminal: BuildTerminal, log: BuildLogCollector): BuildRunRecord => {
+        writeRunSummary(terminal, record);
+        const saved = saveHistory(record, log);
+        notifyFailedProjects(saved);
+        return saved;
+    };
+
+    // 监视模式：保存文件后自动构建受影响的已勾选项目
+    const watchMode = new WatchModeController({
+        getCheckedProjects: () => manager.getQueueItems()
+            .filter(p => p.checkboxState === vscode.TreeItemCheckboxState.Checked)
+            .map(p => p.fsPath),
+        isBuilding: isBuildRunning,
+        build: async (projectPaths) => {
+            // 自动构建时不抢占编辑器焦点
+            setPreserveTerminalFocus(true);
+            try {
+                await vscode.commands.executeCommand('cbp-build-manager.buildSelected', projectPaths);
+            } finally {
+                setPreserveTerminalFocus(false);
+            }
+        }
+    }, () => vscode.workspace.getConfiguration('cbpBuildManager').get<number>('watchDelay', 1000));
+    context.subscriptions.push(watchMode);
+
+    // 任务 (tasks.json / preLaunchTask)
+    context.subscriptions.push(vscode.tasks.registerTaskProvider(CBP_TASK_TYPE, new CbpTaskProvider(manager)));
+
+    // 构建终端中的源码位置链接
+    const terminalLinks = new BuildTerminalLinkProvider(manager);
+    context.subscriptions.push(vscode.window.registerTerminalLinkProvider(terminalLinks));
+
     // 初始扫描
     manager.scanWorkspace();
     manager.scanCompileCommands();
 
+    // 添加或移除工作区文件夹后重新加载各文件夹的状态并重新扫描
+    context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(() => {
+        manager.reloadWorkspaceFolders();
+        manager.scanWorkspace();
+        manager.scanCompileCommands();
+    }));
+
     // --- 命令注册 ---
 
     // 1. 刷新
@@ -351,276 +622,515 @@ export function activate(context: vscode.ExtensionContext) {
         if (item) {
             // 如果右键点击单个项目，删除该项目
             manager.removeFromQueue([item]);
+            diagnostics.clearProject(item.fsPath);
         } else {
             // 否则删除当前选中的项目
             const selection = queueTreeView.selection;
             if (selection.length > 0) {
                 manager.removeFromQueue(selection as any);
+                selection.forEach(p => diagnostics.clearProject(p.fsPath));
             }
         }
     }));
 
-    // 5. 执行构建 (核心功能保留)
-    context.subscriptions.push(vscode.commands.registerCommand('cbp-build-manager.buildSelected', async () => {
-        // 检测未保存文件并提示保存
-        if (!(await checkAndPromptSave())) {
-            return; // 用户取消操作
+    // 按依赖关系排序构建队列
+    context.subscriptions.push(vscode.commands.registerCommand('cbp-build-manager.sortQueueByDependencies', () => {
+        const queue = manager.getQueueItems();
+        if (queue.length < 2) {
+            vscode.window.showInformationMessage('构建队列中的项目少于 2 个，无需排序。');
+            return;
         }
 
-        const terminal = createOrShowTerminal();
-        terminal.write(`\x1b[36m=== 开始构建流程 ===\x1b[0m\n`);
-
-        // 获取所有在队列中且被勾选的项目
-        const queue = manager.getQueueItems();
-        const selectedProjects = queue.filter(p => p.checkboxState === vscode.TreeItemCheckboxState.Checked);
+        const { graph, cycles } = analyzeDependencies(queue);
+        const currentOrder = queue.map(p => p.fsPath);
+        const sorted = topologicalSort(currentOrder, graph.dependencies);
 
-        terminal.write(`选中项目数: ${selectedProjects.length}\n`);
+        if (cycles.length > 0) {
+            const description = cycles
+                .map(cycle => [...cycle, cycle[0]].map(projectLabel).join(' -> '))
+                .join('；');
+            vscode.window.showErrorMessage(`检测到循环依赖: ${description}。循环中的项目保持原有顺序。`);
+        }
 
-        if (selectedProjects.length === 0) {
-            vscode.window.showInformationMessage('没有选中要构建的项目。');
+        if (sorted.order.every((p, i) => p === currentOrder[i])) {
+            vscode.window.showInformationMessage(`构建队列已满足依赖顺序 (识别到 ${graph.edges.length} 条依赖)。`);
             return;
         }
 
-        const config = vscode.workspace.getConfiguration('cbpBuildManager');
-        const cbp2clangPath = config.get<string>('cbp2clangPath', 'cbp2clang');
-        const convertCommandTemplate = config.get<string>('convertCommand', '{cbp2clang} {cbpFile} {compileCommands} -l ld');
-        const buildScript = config.get<string>('buildCommand', './build.bat');
-        const ninjaPath = config.get<string>('ninjaPath', '');
-        const noHeaderInsertion = config.get<boolean>('noHeaderInsertion', false);
-        const debugMode = config.get<boolean>('debug', false);
-        const stopOnFailure = config.get<boolean>('stopOnFailure', false);
+        manager.setQueueOrder(sorted.order);
+        vscode.window.showInformationMessage(`已按依赖关系重新排序构建队列 (识别到 ${graph.edges.length} 条依赖)。`);
+    }));
 
-        if (debugMode) {
-            terminal.write(`\x1b[36m[调试] 调试模式已开启\x1b[0m\n`);
+    // --- 队列配置 ---
+
+    const promptProfileName = (title: string, value?: string) => vscode.window.showInputBox({
+        title,
+        value,
+        prompt: '输入队列配置名称',
+        validateInput: input => {
+            const name = input.trim();
+            if (!name) {return '配置名称不能为空';}
+            if (name !== value && manager.hasProfile(name)) {return `配置 "${name}" 已存在`;}
+            return undefined;
         }
+    }).then(input => input?.trim());
 
-        // 检查 cbp2clangd 版本
+    const runProfileAction = (action: () => void) => {
         try {
-            terminal.write(`\n\x1b[36m=== 检查 cbp2clangd 版本 ===\x1b[0m\n`);
-            const version = await checkCbp2clangVersion(cbp2clangPath);
-            const isCompatible = compareVersions(version, MIN_REQUIRED_CBP2CLANG_VERSION);
-
-            if (isCompatible) {
-                terminal.write(`cbp2clangd 版本: ${version} (满足要求，最小要求版本: ${MIN_REQUIRED_CBP2CLANG_VERSION})\n`);
-            } else {
-                const errorMessage = `cbp2clangd 版本 ${version} 低于最小要求版本 ${MIN_REQUIRED_CBP2CLANG_VERSION}，请升级后再试。`;
-                terminal.write(`\x1b[31m错误: ${errorMessage}\x1b[0m\n`);
-                vscode.window.showErrorMessage(errorMessage);
-                return; // 禁止编译
-            }
+            action();
         } catch (error) {
-            const errorMessage = `无法检查 cbp2clangd 版本: ${(error as Error).message}，请确保 cbp2clangd 已正确安装。`;
-            terminal.write(`\x1b[31m错误: ${errorMessage}\x1b[0m\n`);
-            vscode.window.showErrorMessage(errorMessage);
-            return; // 禁止编译
+            vscode.window.showErrorMessage((error as Error).message);
         }
+    };
 
-        for (const project of selectedProjects) {
-            terminal.write(`\n\x1b[33m>>> 处理项目: ${project.label}\x1b[0m\n`);
+    // 切换队列配置 (列表末尾提供新建入口)
+    context.subscriptions.push(vscode.commands.registerCommand('cbp-build-manager.switchQueueProfile', async () => {
+        const active = manager.getActiveProfile();
+        const items: vscode.QuickPickItem[] = [
+            ...manager.getProfileNames().map(name => ({
+                label: `$(layers) ${name}`,
+                description: name === active ? '当前配置' : ''
+            })),
+            { label: '', kind: vscode.QuickPickItemKind.Separator },
+            { label: '$(add) 新建配置...' }
+        ];
 
-            try {
-                const projectDir = path.dirname(project.fsPath);
+        const selected = await vscode.window.showQuickPick(items, { placeHolder: '选择构建队列配置' });
+        if (!selected) {return;}
+        if (selected.label === '$(add) 新建配置...') {
+            vscode.commands.executeCommand('cbp-build-manager.createQueueProfile');
+            return;
+        }
+        manager.switchProfile(selected.label.replace('$(layers) ', ''));
+    }));
 
-                // 获取 VSCode 工作区路径
-                const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || projectDir;
+    context.subscriptions.push(vscode.commands.registerCommand('cbp-build-manager.createQueueProfile', async () => {
+        const name = await promptProfileName('新建队列配置');
+        if (name) {
+            runProfileAction(() => manager.createProfile(name));
+        }
+    }));
 
-                // 变量替换
-                let convertCommand = convertCommandTemplate
-                    .replace('{cbp2clang}', cbp2clangPath)
-                    .replace('{cbpFile}', project.fsPath)
-                    .replace('{compileCommands}', workspacePath);
+    context.subscriptions.push(vscode.commands.registerCommand('cbp-build-manager.duplicateQueueProfile', async () => {
+        const source = manager.getActiveProfile();
+        const name = await promptProfileName(`复制队列配置 "${source}"`, `${source} 副本`);
+        if (name) {
+            runProfileAction(() => manager.duplicateProfile(name, source));
+        }
+    }));
 
-                if (ninjaPath) {
-                    convertCommand += ` --ninja "${ninjaPath}"`;
-                }
+    context.subscriptions.push(vscode.commands.registerCommand('cbp-build-manager.renameQueueProfile', async () => {
+        const oldName = manager.getActiveProfile();
+        const name = await promptProfileName(`重命名队列配置 "${oldName}"`, oldName);
+        if (name && name !== oldName) {
+            runProfileAction(() => manager.renameProfile(oldName, name));
+        }
+    }));
 
-                if (noHeaderInsertion) {
-                    convertCommand += ` --no-header-insertion`;
-                }
+    context.subscriptions.push(vscode.commands.registerCommand('cbp-build-manager.deleteQueueProfile', async () => {
+        const name = manager.getActiveProfile();
+        if (manager.getProfileNames().length <= 1) {
+            vscode.window.showInformationMessage('至少需要保留一个队列配置。');
+            return;
+        }
+        const choice = await vscode.window.showWarningMessage(`确定要删除队列配置 "${name}" 吗？`, { modal: true }, '删除');
+        if (choice) {
+            runProfileAction(() => manager.deleteProfile(name));
+        }
+    }));
 
-                if (debugMode) {
-                    convertCommand += ` --debug`;
-                }
+    // 选择构建目标 (构建队列右键菜单)
+    context.subscriptions.push(vscode.commands.registerCommand('cbp-build-manager.selectTarget', async (item?: CbpProjectItem) => {
+        const project = item ?? (queueTreeView.selection[0] as CbpProjectItem | undefined);
+        if (!project) {
+            vscode.window.showInformationMessage('请先在构建队列中选择项目');
+            return;
+        }
 
-                terminal.write(`执行的转换命令: ${convertCommand}\n`);
-                terminal.write(`\x1b[32m[1/2] 生成 Compile Commands...\x1b[0m\n`);
-                await runCommand(convertCommand);
+        const model = loadCbpProject(project.fsPath);
+        if (!model) {
+            vscode.window.showErrorMessage(`无法解析项目文件: ${project.fsPath}`);
+            return;
+        }
 
-                terminal.write(`\x1b[32m[2/2] 执行构建脚本...\x1b[0m\n`);
-                await runCommandInDirectory(buildScript, projectDir);
+        const targets = getTargetNames(model);
+        if (targets.length === 0) {
+            vscode.window.showInformationMessage(`项目 ${project.label} 没有定义构建目标`);
+            return;
+        }
 
-                terminal.write(`\x1b[32m>>> 项目 ${project.label} 完成.\x1b[0m\n`);
-            } catch (error) {
-                terminal.write(`\x1b[31m!!! 项目 ${project.label} 失败: ${error}\x1b[0m\n`);
-                if (stopOnFailure) {
-                    terminal.write(`\x1b[31m>>> 编译失败，停止后续项目\x1b[0m\n`);
-                    break;
-                }
-                // 继续下一个项目
-            }
+        const items: vscode.QuickPickItem[] = [
+            {
+                label: '$(clear-all) 默认目标',
+                description: project.selectedTarget ? '' : '当前选择',
+                detail: `使用项目的第一个目标 (${targets[0]})`
+            },
+            ...targets.map(target => ({
+                label: `$(target) ${target}`,
+                description: project.selectedTarget === target ? '当前选择' : ''
+            }))
+        ];
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: `选择 ${project.label} 的构建目标`
+        });
+
+        if (selected) {
+            const target = selected.label.startsWith('$(target) ') ? selected.label.replace('$(target) ', '') : undefined;
+            manager.setProjectTarget(project, target);
         }
+    }));
 
-        // 刷新 compile_commands.json 视图
-        manager.scanCompileCommands();
+    // 4. 停止构建 (标题栏按钮 / 终端 Ctrl+C)
+    context.subscriptions.push(vscode.commands.registerCommand('cbp-build-manager.stopBuild', () => {
+        if (!isBuildRunning()) {
+            vscode.window.showInformationMessage('当前没有正在执行的构建。');
+            return;
+        }
+        stopBuild();
+    }));
+    context.subscriptions.push(onDidRequestInterrupt(() => stopBuild()));
 
-        terminal.write(`\n\x1b[36m=== 构建流程结束 ===\x1b[0m\n`);
+    // 开启/关闭监视模式 (构建队列标题栏按钮)
+    context.subscriptions.push(vscode.commands.registerCommand('cbp-build-manager.enableWatchMode', () => {
+        watchMode.setEnabled(true);
+        vscode.window.showInformationMessage('监视模式已开启：保存已勾选项目中的源文件后将自动构建受影响的项目。');
     }));
 
-    // 6. 执行重新编译 (先清理再构建)
-    context.subscriptions.push(vscode.commands.registerCommand('cbp-build-manager.rebuildSelected', async () => {
+    context.subscriptions.push(vscode.commands.registerCommand('cbp-build-manager.disableWatchMode', () => {
+        watchMode.setEnabled(false);
+    }));
+
+    // 显示构建终端 (状态栏构建中点击)
+    context.subscriptions.push(vscode.commands.registerCommand('cbp-build-manager.showBuildTerminal', () => {
+        createOrShowTerminal();
+    }));
+
+    // 重新运行历史记录中的项目集合 (使用相同的命令类型)
+    context.subscriptions.push(vscode.commands.registerCommand('cbp-build-manager.rerunBuildHistory', (item?: BuildRunItem) => {
+        if (!item) {return;}
+        const projectPaths = item.record.projects.map(p => p.fsPath).filter(p => fs.existsSync(p));
+        if (projectPaths.length === 0) {
+            vscode.window.showWarningMessage('该记录中的项目文件均已不存在。');
+            return;
+        }
+        vscode.commands.executeCommand(BUILD_COMMAND_IDS[item.record.command], projectPaths);
+    }));
+
+    // 打开历史记录保存的日志
+    context.subscriptions.push(vscode.commands.registerCommand('cbp-build-manager.openBuildHistoryLog', async (item?: BuildRunItem) => {
+        if (!item) {return;}
+        const logPath = getRunHistory(item.record).getLogPath(item.record);
+        if (!logPath) {
+            vscode.window.showInformationMessage('该记录没有保存日志。');
+            return;
+        }
+        await vscode.window.showTextDocument(vscode.Uri.file(logPath), { preview: true });
+    }));
+
+    // 打开项目最近的构建日志 (构建队列右键菜单)
+    context.subscriptions.push(vscode.commands.registerCommand('cbp-build-manager.openLastProjectLog', async (item?: CbpProjectItem) => {
+        if (!item) {return;}
+        const logPath = projectLogs(item.fsPath).getLastLog(item.fsPath);
+        if (!logPath) {
+            vscode.window.showInformationMessage(`项目 ${item.label} 还没有构建日志。`);
+            return;
+        }
+        await vscode.window.showTextDocument(vscode.Uri.file(logPath), { preview: true });
+    }));
+
+    // 清空构建历史
+    context.subscriptions.push(vscode.commands.registerCommand('cbp-build-manager.clearBuildHistory', async () => {
+        const choice = await vscode.window.showWarningMessage('确定要清空构建历史及其日志吗？', { modal: true }, '清空');
+        if (choice) {
+            getAllHistories().forEach(store => store.clear());
+            historyProvider.refresh();
+        }
+    }));
+
+    // 5. 执行构建/重新编译/清理：按构建流程处理项目，终端、状态栏、诊断和项目日志根据流程事件更新
+    const BUILD_COMMAND_TITLES: Record<BuildCommandType, string> = { build: '构建', rebuild: '重新编译', clean: '清理' };
+
+    const runPipelineCommand = async (command: BuildCommandType, projectPaths: unknown, token: vscode.CancellationToken, log: BuildLogCollector): Promise<BuildRunRecord | undefined> => {
         // 检测未保存文件并提示保存
         if (!(await checkAndPromptSave())) {
             return; // 用户取消操作
         }
 
+        const title = BUILD_COMMAND_TITLES[command];
         const terminal = createOrShowTerminal();
-        terminal.write(`\x1b[36m=== 开始重新编译流程 ===\x1b[0m\n`);
+        terminal.write(`\x1b[36m=== 开始${title}流程 ===\x1b[0m\n`);
 
-        // 获取所有在队列中且被勾选的项目
-        const queue = manager.getQueueItems();
-        const selectedProjects = queue.filter(p => p.checkboxState === vscode.TreeItemCheckboxState.Checked);
+        // 获取要处理的项目 (默认为队列中被勾选的项目)
+        const selectedProjects = getCommandProjects(manager, projectPaths);
 
         terminal.write(`选中项目数: ${selectedProjects.length}\n`);
 
         if (selectedProjects.length === 0) {
-            vscode.window.showInformationMessage('没有选中要重新编译的项目。');
+            vscode.window.showInformationMessage(`没有选中要${title}的项目。`);
             return;
         }
 
+        statusBar.beginRun(selectedProjects.length);
+        terminalLinks.clearCache();
+
         const config = vscode.workspace.getConfiguration('cbpBuildManager');
-        const cbp2clangPath = config.get<string>('cbp2clangPath', 'cbp2clang');
-        const convertCommandTemplate = config.get<string>('convertCommand', '{cbp2clang} {cbpFile} {compileCommands} -l ld');
-        const buildScript = config.get<string>('buildCommand', './build.bat');
-        const ninjaPath = config.get<string>('ninjaPath', '');
-        const noHeaderInsertion = config.get<boolean>('noHeaderInsertion', false);
-        const debugMode = config.get<boolean>('debug', false);
-        const stopOnFailure = config.get<boolean>('stopOnFailure', false);
+        const settings = readBuildSettings((key, defaultValue) => config.get(key, defaultValue));
+        const debugMode = settings.debug;
+        const firmwareSizeReport = command !== 'clean' && config.get<boolean>('firmwareSizeReport', true);
+        const firmwareOutputPattern = config.get<string>('firmwareOutputPattern', '');
+        const logRetention = config.get<number>('projectLogRetention', DEFAULT_PROJECT_LOG_RETENTION);
 
-        if (debugMode) {
+        if (debugMode && command !== 'clean') {
             terminal.write(`\x1b[36m[调试] 调试模式已开启\x1b[0m\n`);
         }
 
-        // 检查 cbp2clangd 版本
-        try {
-            terminal.write(`\n\x1b[36m=== 检查 cbp2clangd 版本 ===\x1b[0m\n`);
-            const version = await checkCbp2clangVersion(cbp2clangPath);
-            const isCompatible = compareVersions(version, MIN_REQUIRED_CBP2CLANG_VERSION);
+        // 各项目本次运行的日志
+        const openLogs = new Map<string, ProjectLog | null>();
+        const firmwareReports = new Map<string, FirmwareSizeReport>();
+
+        const pipeline = new BuildPipeline({
+            command,
+            settings,
+            projects: selectedProjects,
+            profile: manager.getActiveProfile(),
+            getWorkspaceRoot: cbpPath => manager.getWorkspaceFolder(cbpPath),
+            getConfigSources: getProjectConfigSources(manager, config),
+            // ${config:...} 按项目所属工作区文件夹读取设置
+            getConfigReader: cbpPath => {
+                const scoped = vscode.workspace.getConfiguration(undefined, vscode.Uri.file(cbpPath));
+                return key => scoped.get(key);
+            },
+            getConvertStamps: convertStamps,
+            getDependencies: () => checkBuildDependencies(selectedProjects, terminal, debugMode),
+            createDiagnosticParser: cbpPath => diagnostics.beginProject(cbpPath),
+            runner: request => runCommandInDirectory(request.command, request.cwd, {
+                token,
+                outputPrefix: request.outputPrefix || undefined,
+                env: request.env,
+                timeoutMs: request.timeoutMs,
+                stallMs: request.stallMs,
+                onStall: request.onStall,
+                onLine: request.onLine,
+                onLog: openLogs.get(request.project)?.append
+            }),
+            // 长时间没有输出 (如构建脚本在等待输入) 时询问继续等待还是结束
+            confirmKillStalled: async ({ project, step, silentSeconds }) => {
+                const KEEP_WAITING = '继续等待';
+                const KILL = '结束';
+                const choice = await vscode.window.showWarningMessage(
+                    `项目 ${projectLabel(project)} 的${BUILD_STEP_LABELS[step]}已 ${silentSeconds} 秒没有输出，可能在等待输入或已卡住。`,
+                    KEEP_WAITING, KILL);
+                return choice === KILL;
+            },
+            token
+        });
 
-            if (isCompatible) {
-                terminal.write(`cbp2clangd 版本: ${version} (满足要求，最小要求版本: ${MIN_REQUIRED_CBP2CLANG_VERSION})\n`);
-            } else {
-                const errorMessage = `cbp2clangd 版本 ${version} 低于最小要求版本 ${MIN_REQUIRED_CBP2CLANG_VERSION}，请升级后再试。`;
-                terminal.write(`\x1b[31m错误: ${errorMessage}\x1b[0m\n`);
-                vscode.window.showErrorMessage(errorMessage);
-                return; // 禁止编译
+        pipeline.onEvent(event => {
+            pipeline.format(event).forEach(line => terminal.write(`${line}\n`));
+            switch (event.type) {
+                case 'projectStart':
+                    statusBar.projectStarted(projectLabel(event.project));
+                    if (command !== 'clean') {
+                        diagnostics.resetProject(event.project);
+                    }
+                    openLogs.set(event.project, projectLogs(event.project).begin(event.project, logRetention));
+                    break;
+                case 'output':
+                    if (event.step === 'build') {
+                        statusBar.reportOutput(projectLabel(event.project), event.line);
+                    }
+                    break;
+                case 'stepFinish':
+                    if (event.step === 'build') {
+                        diagnostics.publish(event.project);
+                    }
+                    break;
+                case 'projectFinish': {
+                    const project = selectedProjects.find(p => p.fsPath === event.project);
+                    if (project && firmwareSizeReport && event.result === 'success' && !event.upToDate) {
+                        measureFirmware(project, event.target, firmwareOutputPattern, firmwareReports, terminal, debugMode);
+                    }
+                    openLogs.get(event.project)?.close();
+                    openLogs.delete(event.project);
+                    break;
+                }
             }
+        });
+
+        let result: BuildPipelineResult;
+        try {
+            result = await pipeline.run();
         } catch (error) {
-            const errorMessage = `无法检查 cbp2clangd 版本: ${(error as Error).message}，请确保 cbp2clangd 已正确安装。`;
-            terminal.write(`\x1b[31m错误: ${errorMessage}\x1b[0m\n`);
-            vscode.window.showErrorMessage(errorMessage);
+            if (!(error instanceof Cbp2clangVersionError)) {throw error;}
+            terminal.write(`\x1b[31m错误: ${error.message}\x1b[0m\n`);
+            vscode.window.showErrorMessage(error.message);
             return; // 禁止编译
         }
+        const { record, upToDateProjects, cancelled } = result;
 
-        for (const project of selectedProjects) {
-            terminal.write(`\n\x1b[33m>>> 处理项目: ${project.label}\x1b[0m\n`);
-
-            try {
-                const projectDir = path.dirname(project.fsPath);
-
-                // 获取 VSCode 工作区路径
-                const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || projectDir;
+        // 刷新 compile_commands.json 视图
+        if (command !== 'clean') {
+            manager.scanCompileCommands();
+        }
+        manager.setUpToDateProjects(selectedProjects.map(p => p.fsPath), upToDateProjects);
 
-                // 1. 运行 ninja -t clean 清理
-                terminal.write(`\x1b[32m[0/3] 清理构建文件...\x1b[0m\n`);
-                const ninjaCommand = ninjaPath ? `${ninjaPath} -t clean` : `ninja -t clean`;
-                await runCommandInDirectory(ninjaCommand, projectDir);
+        if (upToDateProjects.length > 0) {
+            terminal.write(`\n\x1b[32m已是最新 (跳过构建): ${upToDateProjects.map(projectLabel).join(', ')}\x1b[0m\n`);
+        }
+        writeFirmwareSizeSummary(terminal, selectedProjects, firmwareReports);
 
-                // 2. 变量替换
-                let convertCommand = convertCommandTemplate
-                    .replace('{cbp2clang}', cbp2clangPath)
-                    .replace('{cbpFile}', project.fsPath)
-                    .replace('{compileCommands}', workspacePath);
+        if (cancelled) {
+            terminal.write(`\n\x1b[33m=== ${title}流程已取消 ===\x1b[0m\n`);
+            vscode.window.showInformationMessage(`${title}已取消。`);
+        } else {
+            terminal.write(`\n\x1b[36m=== ${title}流程结束 ===\x1b[0m\n`);
+        }
 
-                if (ninjaPath) {
-                    convertCommand += ` --ninja "${ninjaPath}"`;
-                }
+        return finishRun(record, terminal, log);
+    };
 
-                if (noHeaderInsertion) {
-                    convertCommand += ` --no-header-insertion`;
-                }
+    context.subscriptions.push(vscode.commands.registerCommand('cbp-build-manager.buildSelected', (projectPaths?: unknown) =>
+        runExclusiveBuild((token, log) => runPipelineCommand('build', projectPaths, token, log))));
 
-                if (debugMode) {
-                    convertCommand += ` --debug`;
-                }
+    // 6. 执行重新编译 (先清理再构建)
+    context.subscriptions.push(vscode.commands.registerCommand('cbp-build-manager.rebuildSelected', (projectPaths?: unknown) =>
+        runExclusiveBuild((token, log) => runPipelineCommand('rebuild', projectPaths, token, log))));
 
-                terminal.write(`执行的转换命令: ${convertCommand}\n`);
-                terminal.write(`\x1b[32m[1/3] 生成 Compile Commands...\x1b[0m\n`);
-                await runCommand(convertCommand);
+    // 7. 执行清理 (仅清理构建文件)
+    context.subscriptions.push(vscode.commands.registerCommand('cbp-build-manager.cleanSelected', (projectPaths?: unknown) =>
+        runExclusiveBuild((token, log) => runPipelineCommand('clean', projectPaths, token, log))));
 
-                terminal.write(`\x1b[32m[2/3] 执行构建脚本...\x1b[0m\n`);
-                await runCommandInDirectory(buildScript, projectDir);
+    // 7. 深度清理 (预览并确认后删除生成的构建文件、目标文件目录、compile_commands.json 和产物)
+    context.subscriptions.push(vscode.commands.registerCommand('cbp-build-manager.deepCleanSelected', async (arg?: unknown) => {
+        if (isBuildRunning()) {
+            vscode.window.showWarningMessage('已有构建流程正在执行，请先停止或等待完成。');
+            return;
+        }
 
-                terminal.write(`\x1b[32m>>> 项目 ${project.label} 重新编译完成.\x1b[0m\n`);
-            } catch (error) {
-                terminal.write(`\x1b[31m!!! 项目 ${project.label} 重新编译失败: ${error}\x1b[0m\n`);
-                if (stopOnFailure) {
-                    terminal.write(`\x1b[31m>>> 编译失败，停止后续项目\x1b[0m\n`);
-                    break;
-                }
-                // 继续下一个项目
-            }
+        // 从构建队列右键时只处理该项目
+        const projects = arg instanceof CbpProjectItem ? [arg] : getCommandProjects(manager, arg);
+        if (projects.length === 0) {
+            vscode.window.showInformationMessage('没有选中要清理的项目。');
+            return;
         }
 
-        // 刷新 compile_commands.json 视图
-        manager.scanCompileCommands();
+        const config = vscode.workspace.getConfiguration('cbpBuildManager');
+        const { deepCleanPatterns } = readBuildSettings((key, defaultValue) => config.get(key, defaultValue));
+        const entries = projects.flatMap(project => planDeepClean(project.fsPath, deepCleanPatterns).map(entry => ({
+            label: `${entry.isDirectory ? '$(folder)' : '$(file)'} ${path.relative(path.dirname(project.fsPath), entry.fsPath)}`,
+            description: `${project.label} · ${DEEP_CLEAN_REASON_LABELS[entry.reason]}`,
+            picked: true,
+            project,
+            entry
+        })));
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage('没有需要删除的生成文件。');
+            return;
+        }
 
-        terminal.write(`\n\x1b[36m=== 重新编译流程结束 ===\x1b[0m\n`);
+        // 预览：默认全部勾选，取消勾选的项会保留
+        const picked = await vscode.window.showQuickPick(entries, {
+            canPickMany: true,
+            title: `深度清理 ${projects.length} 个项目`,
+            placeHolder: '将删除以下文件和目录，取消勾选可保留'
+        });
+        if (!picked || picked.length === 0) {return;}
+
+        const DELETE = '删除';
+        const confirmed = await vscode.window.showWarningMessage(
+            `确定删除 ${picked.length} 个文件或目录？此操作无法撤销。`, { modal: true }, DELETE);
+        if (confirmed !== DELETE) {return;}
+
+        await runExclusiveBuild(async () => {
+            const terminal = createOrShowTerminal();
+            terminal.write(`\x1b[36m=== 开始深度清理 ===\x1b[0m\n`);
+            picked.forEach(({ entry }) => terminal.write(`删除 ${entry.fsPath}\n`));
+
+            const failures = executeDeepClean(picked.map(p => p.entry));
+            failures.forEach(f => terminal.write(`\x1b[31m删除失败: ${f.fsPath}: ${f.error}\x1b[0m\n`));
+
+            // 生成的文件已删除，下次构建必须重新转换
+            const cleaned = Array.from(new Set(picked.map(p => p.project.fsPath)));
+            cleaned.forEach(fsPath => convertStamps(fsPath).invalidate(fsPath));
+            manager.setUpToDateProjects(cleaned, []);
+            manager.scanCompileCommands();
+
+            terminal.write(`\n\x1b[36m=== 深度清理结束: 删除 ${picked.length - failures.length} 项，失败 ${failures.length} 项 ===\x1b[0m\n`);
+            if (failures.length > 0) {
+                vscode.window.showErrorMessage(`深度清理时有 ${failures.length} 项删除失败，详见构建终端。`);
+            }
+            return undefined;
+        });
     }));
 
-    // 7. 执行清理 (仅清理构建文件)
-    context.subscriptions.push(vscode.commands.registerCommand('cbp-build-manager.cleanSelected', async () => {
-        // 检测未保存文件并提示保存
-        if (!(await checkAndPromptSave())) {
-            return; // 用户取消操作
+    // 8. 编译当前文件 (使用 compile_commands.json 中该文件的编译命令)
+    context.subscriptions.push(vscode.commands.registerCommand('cbp-build-manager.compileCurrentFile', (uri?: vscode.Uri) => runExclusiveBuild(async (token) => {
+        const filePath = (uri instanceof vscode.Uri ? uri : vscode.window.activeTextEditor?.document.uri)?.fsPath;
+        if (!filePath) {
+            vscode.window.showInformationMessage('请先打开要编译的源文件。');
+            return undefined;
         }
 
-        const terminal = createOrShowTerminal();
-        terminal.write(`\x1b[36m=== 开始清理流程 ===\x1b[0m\n`);
-
-        // 获取所有在队列中且被勾选的项目
-        const queue = manager.getQueueItems();
-        const selectedProjects = queue.filter(p => p.checkboxState === vscode.TreeItemCheckboxState.Checked);
-
-        terminal.write(`选中项目数: ${selectedProjects.length}\n`);
-
-        if (selectedProjects.length === 0) {
-            vscode.window.showInformationMessage('没有选中要清理的项目。');
-            return;
+        // 保存当前文件
+        const document = vscode.workspace.textDocuments.find(d => d.uri.fsPath === filePath);
+        if (document?.isDirty) {
+            await document.save();
         }
 
-        const config = vscode.workspace.getConfiguration('cbpBuildManager');
-        const ninjaPath = config.get<string>('ninjaPath', '');
-
-        for (const project of selectedProjects) {
-            terminal.write(`\n\x1b[33m>>> 处理项目: ${project.label}\x1b[0m\n`);
+        if (manager.getCompileCommandsItems().length === 0) {
+            await manager.scanCompileCommands();
+        }
+        const matches = findCompileCommandsForFile(filePath, manager.getCompileCommandsItems().map(item => item.fsPath));
+        if (matches.length === 0) {
+            vscode.window.showWarningMessage(`编译数据库中没有 ${path.basename(filePath)} 的编译命令，请先构建包含该文件的项目。`);
+            return undefined;
+        }
 
-            try {
-                const projectDir = path.dirname(project.fsPath);
+        // 文件属于多个编译数据库时选择项目
+        const describe = (database: string) => vscode.workspace.asRelativePath(database, true);
+        let match = matches[0];
+        if (matches.length > 1) {
+            const picked = await vscode.window.showQuickPick(
+                matches.map(m => ({
+                    label: `$(json) ${path.basename(path.dirname(m.database))}`,
+                    description: describe(m.database),
+                    match: m
+                })),
+                { placeHolder: `${path.basename(filePath)} 属于多个编译数据库，选择要使用的项目` }
+            );
+            if (!picked) {
+                return undefined;
+            }
+            match = picked.match;
+        }
 
-                // 运行 ninja -t clean 清理
-                terminal.write(`\x1b[32m[1/1] 清理构建文件...\x1b[0m\n`);
-                const ninjaCommand = ninjaPath ? `${ninjaPath} -t clean` : `ninja -t clean`;
-                await runCommandInDirectory(ninjaCommand, projectDir);
+        const terminal = createOrShowTerminal();
+        terminal.write(`\x1b[36m=== 编译文件: ${path.basename(filePath)} ===\x1b[0m\n`);
+        terminal.write(`编译数据库: ${describe(match.database)}\n`);
 
-                terminal.write(`\x1b[32m>>> 项目 ${project.label} 清理完成.\x1b[0m\n`);
-            } catch (error) {
-                terminal.write(`\x1b[31m!!! 项目 ${project.label} 清理失败: ${error}\x1b[0m\n`);
-                // 可以选择是否 continue，这里默认继续下一个
+        const parser = diagnostics.beginFile(filePath, match.entry.directory);
+        try {
+            await runCommandInDirectory(getEntryCommand(match.entry), match.entry.directory, {
+                token,
+                onLine: line => parser.pushLine(line)
+            });
+            terminal.write(`\x1b[32m>>> 编译完成 (错误 ${parser.getErrorCount()}，警告 ${parser.getWarningCount()})\x1b[0m\n`);
+        } catch (error) {
+            if (error instanceof BuildCancelledError) {
+                terminal.write(`\x1b[33m!!! 编译已取消\x1b[0m\n`);
+            } else {
+                terminal.write(`\x1b[31m!!! 编译失败: ${error}\x1b[0m\n`);
             }
+        } finally {
+            diagnostics.publishFile(filePath, parser, path.basename(path.dirname(match.database)));
         }
-        terminal.write(`\n\x1b[36m=== 清理流程结束 ===\x1b[0m\n`);
-    }));
+        return undefined;
+    })));
 }
 
 // This method is called when your extension is deactivated
-export function deactivate() {}
+export function deactivate() {
+    // 窗口关闭时结束仍在运行的构建进程
+    g_buildCancellation?.cancel();
+}
@@ -0,0 +1,36 @@
+// --- 构建历史数据模型 (.cbp-build/history.json) ---
+
+export type BuildCommandType = 'build' | 'rebuild' | 'clean';
+
+export type ProjectBuildStatus = 'success' | 'failed' | 'skipped' | 'cancelled';
+
+// 失败的特殊原因：步骤超时，或长时间没有输出被结束
+export type ProjectFailureReason = 'timeout' | 'stalled';
+
+export interface ProjectBuildRecord {
+    fsPath: string;
+    name: string;
+    status: ProjectBuildStatus;
+    target?: string;
+    // 项目开始处理的时间 (ISO 字符串)，未执行的项目为空
+    startTime?: string;
+    durationMs: number;
+    // 失败步骤的退出码
+    exitCode?: number;
+    // 超时等特殊失败原因，普通失败时为空
+    failureReason?: ProjectFailureReason;
+    errorCount: number;
+    warningCount: number;
+}
+
+export interface BuildRunRecord {
+    id: string;
+    command: BuildCommandType;
+    startTime: string;
+    endTime: string;
+    status: 'success' | 'failed' | 'cancelled';
+    cbp2clangVersion?: string;
+    projects: ProjectBuildRecord[];
+    // 本次运行的完整终端日志 (相对 .cbp-build 目录)
+    logFile?: string;
+}
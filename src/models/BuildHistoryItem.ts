@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import { BuildCommandType, BuildRunRecord, ProjectBuildRecord, ProjectBuildStatus, ProjectFailureReason } from './BuildHistory';
+import { formatDuration } from '../utils/CommonUtils';
+
+const COMMAND_LABELS: Record<BuildCommandType, string> = {
+    build: '构建',
+    rebuild: '重新编译',
+    clean: '清理'
+};
+
+const STATUS_LABELS: Record<ProjectBuildStatus, string> = {
+    success: '成功',
+    failed: '失败',
+    skipped: '跳过',
+    cancelled: '已取消'
+};
+
+const FAILURE_REASON_LABELS: Record<ProjectFailureReason, string> = {
+    timeout: '超时',
+    stalled: '无输出'
+};
+
+function statusIcon(status: ProjectBuildStatus): vscode.ThemeIcon {
+    switch (status) {
+        case 'success':
+            return new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+        case 'failed':
+            return new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+        case 'cancelled':
+            return new vscode.ThemeIcon('circle-slash');
+        default:
+            return new vscode.ThemeIcon('debug-step-over');
+    }
+}
+
+function formatTime(iso: string): string {
+    const date = new Date(iso);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getMonth() + 1}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+function formatCounts(errorCount: number, warningCount: number): string {
+    return errorCount > 0 || warningCount > 0 ? `错误 ${errorCount} / 警告 ${warningCount}` : '';
+}
+
+// 构建历史中的一次运行
+export class BuildRunItem extends vscode.TreeItem {
+    constructor(public readonly record: BuildRunRecord) {
+        super(`${COMMAND_LABELS[record.command]} · ${formatTime(record.startTime)}`, vscode.TreeItemCollapsibleState.Collapsed);
+
+        const durationMs = new Date(record.endTime).getTime() - new Date(record.startTime).getTime();
+        const errorCount = record.projects.reduce((sum, p) => sum + p.errorCount, 0);
+        const warningCount = record.projects.reduce((sum, p) => sum + p.warningCount, 0);
+
+        this.id = `cbpBuildRun:${record.id}`;
+        this.description = [`${record.projects.length} 个项目`, formatDuration(durationMs), formatCounts(errorCount, warningCount)]
+            .filter(s => s.length > 0)
+            .join(' · ');
+        this.iconPath = statusIcon(record.status);
+        this.contextValue = record.logFile ? 'cbpBuildRunWithLog' : 'cbpBuildRun';
+
+        const tooltipLines = [
+            `${COMMAND_LABELS[record.command]}: ${STATUS_LABELS[record.status]}`,
+            `开始: ${new Date(record.startTime).toLocaleString()}`,
+            `结束: ${new Date(record.endTime).toLocaleString()}`
+        ];
+        if (record.cbp2clangVersion) {
+            tooltipLines.push(`cbp2clangd: ${record.cbp2clangVersion}`);
+        }
+        this.tooltip = tooltipLines.join('\n');
+    }
+}
+
+// 一次运行中的单个项目结果
+export class BuildRunProjectItem extends vscode.TreeItem {
+    constructor(public readonly run: BuildRunRecord, public readonly record: ProjectBuildRecord) {
+        super(record.name, vscode.TreeItemCollapsibleState.None);
+
+        const parts = [record.failureReason ? `${STATUS_LABELS[record.status]} (${FAILURE_REASON_LABELS[record.failureReason]})` : STATUS_LABELS[record.status]];
+        if (record.startTime) {
+            parts.push(formatDuration(record.durationMs));
+        }
+        const counts = formatCounts(record.errorCount, record.warningCount);
+        if (counts) {
+            parts.push(counts);
+        }
+
+        this.id = `cbpBuildRun:${run.id}:${record.fsPath}`;
+        this.description = parts.join(' · ');
+        this.iconPath = statusIcon(record.status);
+        this.contextValue = 'cbpBuildRunProject';
+        this.resourceUri = vscode.Uri.file(record.fsPath);
+        this.command = {
+            command: 'vscode.open',
+            title: 'Open',
+            arguments: [this.resourceUri]
+        };
+
+        const tooltipLines = [record.fsPath];
+        if (record.target) {
+            tooltipLines.push(`构建目标: ${record.target}`);
+        }
+        if (record.exitCode !== undefined) {
+            tooltipLines.push(`退出码: ${record.exitCode}`);
+        }
+        if (record.failureReason === 'timeout') {
+            tooltipLines.push('失败原因: 步骤超时');
+        } else if (record.failureReason === 'stalled') {
+            tooltipLines.push('失败原因: 长时间没有输出，已结束');
+        }
+        this.tooltip = tooltipLines.join('\n');
+    }
+}
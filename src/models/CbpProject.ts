@@ -0,0 +1,67 @@
+// --- Code::Blocks 项目文件 (.cbp) 数据模型 ---
+// 纯数据结构，不依赖 vscode，便于在单元测试和其它模块中复用
+
+export interface CbpCompilerSettings {
+    // 原始编译选项，如 -Wall、-DFOO=1
+    options: string[];
+    // 头文件搜索目录 (<Add directory>)
+    includeDirs: string[];
+    // 从 -D 选项中提取的宏定义，如 FOO=1
+    defines: string[];
+}
+
+export interface CbpLinkerSettings {
+    options: string[];
+    // 链接的库 (<Add library>)，可能是 foo、libfoo.a 或路径
+    libraries: string[];
+    // 库搜索目录
+    libraryDirs: string[];
+}
+
+export interface CbpExtraCommands {
+    // 构建前执行的命令
+    before: string[];
+    // 构建后执行的命令
+    after: string[];
+}
+
+export interface CbpTarget {
+    title: string;
+    // 输出文件 (相对项目目录)
+    output?: string;
+    // prefix_auto / extension_auto：由 Code::Blocks 自动补全 lib 前缀和扩展名
+    outputPrefixAuto: boolean;
+    outputExtensionAuto: boolean;
+    objectOutput?: string;
+    // Code::Blocks 目标类型：0 GUI, 1 控制台, 2 静态库, 3 动态库, 4 仅命令
+    type?: number;
+    compiler?: string;
+    compilerSettings: CbpCompilerSettings;
+    linkerSettings: CbpLinkerSettings;
+    extraCommands: CbpExtraCommands;
+}
+
+export interface CbpUnit {
+    // 相对项目目录的文件路径
+    filename: string;
+    // 所属的构建目标，空数组表示属于全部目标
+    targets: string[];
+    virtualFolder?: string;
+    compile: boolean;
+    link: boolean;
+}
+
+export interface CbpProject {
+    fsPath: string;
+    title: string;
+    compiler?: string;
+    targets: CbpTarget[];
+    // 项目级 (所有目标共享) 的编译/链接设置
+    compilerSettings: CbpCompilerSettings;
+    linkerSettings: CbpLinkerSettings;
+    extraCommands: CbpExtraCommands;
+    units: CbpUnit[];
+    virtualFolders: string[];
+    // <Depends filename="..."> 声明的依赖项目 (相对项目目录的 .cbp 路径)
+    depends: string[];
+}
@@ -1,3 +1,6 @@
 // Re-export for backward compatibility
-export { CbpProjectItem, DirectoryItem } from './items';
+export { CbpProjectItem, DirectoryItem, createProjectTooltip } from './items';
 export { CompileCommandsItem } from './CompileCommandsItem';
+export { CbpProject, CbpTarget, CbpUnit, CbpCompilerSettings, CbpLinkerSettings, CbpExtraCommands } from './CbpProject';
+export { BuildRunItem, BuildRunProjectItem } from './BuildHistoryItem';
+export { BuildCommandType, ProjectBuildStatus, ProjectBuildRecord, BuildRunRecord } from './BuildHistory';
@@ -1,8 +1,14 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { CbpProject } from './CbpProject';
 
 // 2. CBP 项目节点 (通用于上下视图)
 export class CbpProjectItem extends vscode.TreeItem {
+    // 选中的构建目标 (<Target title>)，未选择时使用项目的默认目标
+    selectedTarget?: string;
+    // 上次增量构建时已是最新，无需构建
+    upToDate = false;
+
     constructor(
         public readonly label: string,
         public readonly fsPath: string,
@@ -28,6 +34,29 @@ export class CbpProjectItem extends vscode.TreeItem {
                 : vscode.TreeItemCheckboxState.Unchecked;
         }
     }
+
+    // 设置构建目标，并在描述中显示
+    setSelectedTarget(target: string | undefined) {
+        this.selectedTarget = target || undefined;
+        this.updateDescription();
+    }
+
+    // 增量构建时标记项目已是最新 (仅在本次会话中显示)
+    setUpToDate(upToDate: boolean) {
+        this.upToDate = upToDate;
+        this.updateDescription();
+    }
+
+    private updateDescription() {
+        const parts = [path.basename(path.dirname(this.fsPath))];
+        if (this.selectedTarget) {
+            parts.unshift(this.selectedTarget);
+        }
+        if (this.upToDate) {
+            parts.unshift('✓ 已是最新');
+        }
+        this.description = parts.join(' · ');
+    }
 }
 
 // 1. 普通文件夹节点 (用于下方树视图)
@@ -42,3 +71,31 @@ export class DirectoryItem extends vscode.TreeItem {
         this.resourceUri = vscode.Uri.file(fsPath);
     }
 }
+
+// 根据解析出的项目模型生成悬停提示
+export function createProjectTooltip(project: CbpProject): vscode.MarkdownString {
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**${project.title}**\n\n`);
+    tooltip.appendText(project.fsPath);
+    tooltip.appendMarkdown('\n\n');
+
+    const lines: string[] = [];
+    if (project.targets.length > 0) {
+        lines.push(`构建目标: ${project.targets.map(t => t.title).join(', ')}`);
+    }
+    if (project.compiler) {
+        lines.push(`编译器: ${project.compiler}`);
+    }
+    lines.push(`源文件: ${project.units.filter(u => u.compile).length} / ${project.units.length}`);
+
+    const libraries = [...project.linkerSettings.libraries, ...project.targets.flatMap(t => t.linkerSettings.libraries)];
+    if (libraries.length > 0) {
+        lines.push(`链接库: ${Array.from(new Set(libraries)).join(', ')}`);
+    }
+
+    lines.forEach(line => {
+        tooltip.appendText(line);
+        tooltip.appendMarkdown('  \n');
+    });
+    return tooltip;
+}
@@ -0,0 +1,29 @@
+import * as vscode from 'vscode';
+import { BuildRunRecord } from '../models/BuildHistory';
+import { BuildRunItem, BuildRunProjectItem } from '../models/BuildHistoryItem';
+
+export class BuildHistoryProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    // getRuns 返回要显示的运行记录 (多根工作区中合并各文件夹的记录，最新的在前)
+    constructor(private getRuns: () => BuildRunRecord[]) {}
+
+    refresh() {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: vscode.TreeItem): vscode.ProviderResult<vscode.TreeItem[]> {
+        if (element instanceof BuildRunItem) {
+            return element.record.projects.map(p => new BuildRunProjectItem(element.record, p));
+        }
+        if (element) {
+            return [];
+        }
+        return this.getRuns().map(run => new BuildRunItem(run));
+    }
+}
@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { CbpDataManager } from '../services';
-import { CbpProjectItem, DirectoryItem } from '../models/items';
+import { CbpProjectItem, DirectoryItem, createProjectTooltip } from '../models/items';
+import { loadCbpProject } from '../services/CbpProjectParser';
 
 // --- 上方视图 Provider: 构建队列 (扁平列表 + 拖拽) ---
 
@@ -20,6 +21,17 @@ export class BuildQueueProvider implements vscode.TreeDataProvider<CbpProjectIte
         return element;
     }
 
+    // 悬停时才解析 .cbp，避免展开大量项目时的开销
+    resolveTreeItem(item: vscode.TreeItem, element: CbpProjectItem): vscode.TreeItem {
+        if (element instanceof CbpProjectItem) {
+            const project = loadCbpProject(element.fsPath);
+            if (project) {
+                item.tooltip = createProjectTooltip(project);
+            }
+        }
+        return item;
+    }
+
     getChildren(element?: CbpProjectItem): vscode.ProviderResult<CbpProjectItem[]> {
         // 扁平列表，没有子节点
         if (element) {return Promise.resolve([]);}
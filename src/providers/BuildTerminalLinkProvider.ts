@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CbpDataManager } from '../services';
+import { BUILD_TERMINAL_NAME } from '../terminal/TerminalManager';
+import { findSourceLocations, getOutputProjectName, resolveSourceLocationPath } from '../utils';
+
+// --- 构建终端链接 ---
+// 编译器、链接器和汇编器输出中的 file:line[:col] 可点击打开；
+// 相对路径依次按输出所属项目 (并行构建的 [项目] 前缀)、队列和资源库中的项目目录、工作区文件夹解析
+
+export interface BuildTerminalLink extends vscode.TerminalLink {
+    fsPath: string;
+    line: number;
+    column: number;
+}
+
+export class BuildTerminalLinkProvider implements vscode.TerminalLinkProvider<BuildTerminalLink> {
+    // 已解析的路径 ("项目名\0输出中的路径" -> 完整路径，找不到时为 null)；
+    // 终端重绘时同一行会反复解析，缓存避免每次都逐个目录检查文件
+    private resolved = new Map<string, string | null>();
+
+    constructor(private manager: CbpDataManager) {}
+
+    // 开始新的构建时清空缓存 (文件可能已新建或删除，队列也可能已变化)
+    clearCache() {
+        this.resolved.clear();
+    }
+
+    provideTerminalLinks(context: vscode.TerminalLinkContext): BuildTerminalLink[] {
+        if (context.terminal.name !== BUILD_TERMINAL_NAME) {return [];}
+
+        const locations = findSourceLocations(context.line);
+        if (locations.length === 0) {return [];}
+
+        const projectName = getOutputProjectName(context.line);
+        const links: BuildTerminalLink[] = [];
+        for (const location of locations) {
+            const fsPath = this.resolve(location.file, projectName);
+            if (!fsPath) {continue;}
+
+            const position = location.line > 0
+                ? (location.column > 0 ? `${location.line}:${location.column}` : `${location.line}`)
+                : '';
+            links.push({
+                startIndex: location.startIndex,
+                length: location.length,
+                tooltip: position ? `打开 ${path.basename(fsPath)} (${position})` : `打开 ${path.basename(fsPath)}`,
+                fsPath,
+                line: location.line,
+                column: location.column
+            });
+        }
+        return links;
+    }
+
+    async handleTerminalLink(link: BuildTerminalLink): Promise<void> {
+        const position = new vscode.Position(Math.max(link.line - 1, 0), Math.max(link.column - 1, 0));
+        await vscode.window.showTextDocument(vscode.Uri.file(link.fsPath), {
+            selection: new vscode.Range(position, position)
+        });
+    }
+
+    private resolve(file: string, projectName: string | undefined): string | undefined {
+        const key = `${projectName ?? ''}\0${file}`;
+        let fsPath = this.resolved.get(key);
+        if (fsPath === undefined) {
+            fsPath = resolveSourceLocationPath(file, this.getSearchDirs(projectName), isFile) ?? null;
+            this.resolved.set(key, fsPath);
+        }
+        return fsPath ?? undefined;
+    }
+
+    // 相对路径的查找目录：输出所属项目优先，其次是其他项目目录和工作区文件夹
+    private getSearchDirs(projectName: string | undefined): string[] {
+        const projects = [...this.manager.getQueueItems().map(item => item.fsPath), ...this.manager.getAllDetectedProjects()];
+        const owners = projectName ? projects.filter(p => path.basename(p, '.cbp') === projectName) : [];
+        const dirs = [...owners, ...projects].map(p => path.dirname(p));
+        return Array.from(new Set([...dirs, ...this.manager.getWorkspaceFolders()]));
+    }
+}
+
+function isFile(fsPath: string): boolean {
+    try {
+        return fs.statSync(fsPath).isFile();
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CbpDataManager } from '../services';
+import { BuildCommandType, BuildRunRecord } from '../models/BuildHistory';
+import { onDidWriteOutput } from '../terminal/TerminalManager';
+
+// --- 任务提供者 (tasks.json 中 "type": "cbp") ---
+// 任务通过执行构建命令复用同一套转换 + 构建流程，输出同步到任务终端，按结果返回退出码
+
+export const CBP_TASK_TYPE = 'cbp';
+
+export const BUILD_COMMAND_IDS: Record<BuildCommandType, string> = {
+    build: 'cbp-build-manager.buildSelected',
+    rebuild: 'cbp-build-manager.rebuildSelected',
+    clean: 'cbp-build-manager.cleanSelected'
+};
+
+const COMMAND_LABELS: Record<BuildCommandType, string> = {
+    build: '构建',
+    rebuild: '重新编译',
+    clean: '清理'
+};
+
+export interface CbpTaskDefinition extends vscode.TaskDefinition {
+    command: BuildCommandType;
+    // .cbp 路径 (绝对路径或相对任务所在的工作区文件夹)，省略时处理构建队列中勾选的项目
+    project?: string;
+}
+
+function isCbpTaskDefinition(definition: vscode.TaskDefinition): definition is CbpTaskDefinition {
+    return definition.type === CBP_TASK_TYPE && definition.command in BUILD_COMMAND_IDS;
+}
+
+// 任务所在工作区文件夹的路径；工作区级任务 (.code-workspace 中定义) 使用第一个文件夹
+function getScopeRoot(scope: vscode.TaskScope | vscode.WorkspaceFolder | undefined): string | undefined {
+    if (scope && typeof scope === 'object') {
+        return scope.uri.fsPath;
+    }
+    return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+}
+
+// 任务定义中的项目路径转为绝对路径
+export function resolveTaskProject(project: string, workspaceRoot: string | undefined): string {
+    if (path.isAbsolute(project) || !workspaceRoot) {
+        return project;
+    }
+    return path.join(workspaceRoot, project);
+}
+
+// 绝对路径转为 tasks.json 中使用的相对路径 (正斜杠)
+export function toTaskProject(fsPath: string, workspaceRoot: string | undefined): string {
+    if (!workspaceRoot) {return fsPath;}
+    const relative = path.relative(workspaceRoot, fsPath);
+    return relative.startsWith('..') || path.isAbsolute(relative) ? fsPath : relative.split(path.sep).join('/');
+}
+
+export class CbpTaskProvider implements vscode.TaskProvider {
+    constructor(private manager: CbpDataManager) {}
+
+    provideTasks(): vscode.Task[] {
+        const commands = Object.keys(BUILD_COMMAND_IDS) as BuildCommandType[];
+
+        const queueTasks = commands.map(command => createCbpTask({ type: CBP_TASK_TYPE, command }));
+        // 项目任务属于项目所在的工作区文件夹，路径相对该文件夹
+        const projectTasks = this.manager.getAllDetectedProjects().flatMap(fsPath => {
+            const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fsPath));
+            return commands.map(command => createCbpTask(
+                { type: CBP_TASK_TYPE, command, project: toTaskProject(fsPath, folder?.uri.fsPath) },
+                folder
+            ));
+        });
+        return [...queueTasks, ...projectTasks];
+    }
+
+    resolveTask(task: vscode.Task): vscode.Task | undefined {
+        if (!isCbpTaskDefinition(task.definition)) {
+            return undefined;
+        }
+        // VS Code 要求解析后的任务使用原始的 definition 对象
+        return createCbpTask(task.definition, task.scope);
+    }
+}
+
+export function createCbpTask(definition: CbpTaskDefinition, scope?: vscode.TaskScope | vscode.WorkspaceFolder): vscode.Task {
+    const name = definition.project
+        ? `${COMMAND_LABELS[definition.command]} ${path.basename(definition.project, '.cbp')}`
+        : `${COMMAND_LABELS[definition.command]}构建队列`;
+
+    const task = new vscode.Task(
+        definition,
+        scope ?? vscode.workspace.workspaceFolders?.[0] ?? vscode.TaskScope.Workspace,
+        name,
+        CBP_TASK_TYPE,
+        new vscode.CustomExecution(async (resolved) => new CbpTaskTerminal(resolved as CbpTaskDefinition, getScopeRoot(scope))),
+        []
+    );
+
+    if (definition.command === 'build') {
+        task.group = vscode.TaskGroup.Build;
+    } else if (definition.command === 'rebuild') {
+        task.group = vscode.TaskGroup.Rebuild;
+    } else {
+        task.group = vscode.TaskGroup.Clean;
+    }
+    return task;
+}
+
+// 任务终端：转发构建终端的输出，构建结束后按结果关闭
+class CbpTaskTerminal implements vscode.Pseudoterminal {
+    private writeEmitter = new vscode.EventEmitter<string>();
+    onDidWrite: vscode.Event<string> = this.writeEmitter.event;
+
+    private closeEmitter = new vscode.EventEmitter<number>();
+    onDidClose: vscode.Event<number> = this.closeEmitter.event;
+
+    private outputListener: vscode.Disposable | null = null;
+    private running = false;
+
+    constructor(private definition: CbpTaskDefinition, private workspaceRoot: string | undefined) {}
+
+    open(): void {
+        this.outputListener = onDidWriteOutput(data => this.writeEmitter.fire(data));
+        this.run();
+    }
+
+    // 用户终止任务时停止构建
+    close(): void {
+        if (this.running) {
+            vscode.commands.executeCommand('cbp-build-manager.stopBuild');
+        }
+        this.outputListener?.dispose();
+    }
+
+    private async run() {
+        const projectPaths = this.definition.project
+            ? [resolveTaskProject(this.definition.project, this.workspaceRoot)]
+            : undefined;
+
+        let record: BuildRunRecord | undefined;
+        this.running = true;
+        try {
+            record = await vscode.commands.executeCommand<BuildRunRecord | undefined>(
+                BUILD_COMMAND_IDS[this.definition.command],
+                projectPaths
+            );
+        } catch (error) {
+            this.writeEmitter.fire(`\x1b[31m${(error as Error).message}\x1b[0m\r\n`);
+        } finally {
+            this.running = false;
+            this.outputListener?.dispose();
+        }
+
+        if (!record) {
+            this.writeEmitter.fire('\x1b[33m构建未执行\x1b[0m\r\n');
+        }
+        this.closeEmitter.fire(record?.status === 'success' ? 0 : 1);
+    }
+}
@@ -1,7 +1,9 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { CbpDataManager } from '../services';
-import { CbpProjectItem, DirectoryItem } from '../models/items';
+import { CbpProjectItem, DirectoryItem, createProjectTooltip } from '../models/items';
+import { loadCbpProject } from '../services/CbpProjectParser';
+import { findWorkspaceFolder } from '../services/QueueState';
 
 // --- 下方视图 Provider: 资源库 (树形结构) ---
 
@@ -17,18 +19,48 @@ export class ProjectLibraryProvider implements vscode.TreeDataProvider<CbpProjec
         return element;
     }
 
+    // 悬停时才解析 .cbp，避免展开大量项目时的开销
+    resolveTreeItem(item: vscode.TreeItem, element: CbpProjectItem | DirectoryItem): vscode.TreeItem {
+        if (element instanceof CbpProjectItem) {
+            const project = loadCbpProject(element.fsPath);
+            if (project) {
+                item.tooltip = createProjectTooltip(project);
+            }
+        }
+        return item;
+    }
+
     getChildren(element?: DirectoryItem): vscode.ProviderResult<(CbpProjectItem | DirectoryItem)[]> {
         const availablePaths = this.manager.getAvailableItems(); // 仅获取未添加的项目
 
         if (!element) {
+            // 多根工作区：按工作区文件夹分组
+            const folders = vscode.workspace.workspaceFolders ?? [];
+            if (folders.length > 1) {
+                return this.buildFolderLevel(availablePaths, folders);
+            }
             // 根目录：计算所有可用项目的顶层结构
-            return this.buildTreeLevel(availablePaths, vscode.workspace.workspaceFolders?.[0].uri.fsPath || '');
+            return this.buildTreeLevel(availablePaths, folders[0]?.uri.fsPath || '');
         } else {
             // 子目录
             return this.buildTreeLevel(availablePaths, element.fsPath);
         }
     }
 
+    // 每个包含可用项目的工作区文件夹一个节点 (保持工作区中的顺序)
+    private buildFolderLevel(allFilePaths: string[], folders: readonly vscode.WorkspaceFolder[]): (CbpProjectItem | DirectoryItem)[] {
+        const roots = folders.map(folder => folder.uri.fsPath);
+        const owners = new Set(allFilePaths.map(p => findWorkspaceFolder(p, roots)));
+        return folders
+            .filter(folder => owners.has(folder.uri.fsPath))
+            .map(folder => {
+                const item = new DirectoryItem(folder.name, folder.uri.fsPath);
+                item.iconPath = new vscode.ThemeIcon('root-folder');
+                item.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+                return item;
+            });
+    }
+
     // 动态构建文件树的核心算法
     private buildTreeLevel(allFilePaths: string[], currentDir: string): (CbpProjectItem | DirectoryItem)[] {
         const result: (CbpProjectItem | DirectoryItem)[] = [];
@@ -1,3 +1,6 @@
 export { BuildQueueProvider } from './BuildQueueProvider';
 export { ProjectLibraryProvider } from './ProjectLibraryProvider';
 export { CompileCommandsProvider } from './CompileCommandsProvider';
+export { BuildHistoryProvider } from './BuildHistoryProvider';
+export { CbpTaskProvider, CBP_TASK_TYPE, BUILD_COMMAND_IDS, CbpTaskDefinition, createCbpTask, resolveTaskProject, toTaskProject } from './CbpTaskProvider';
+export { BuildTerminalLinkProvider, BuildTerminalLink } from './BuildTerminalLinkProvider';
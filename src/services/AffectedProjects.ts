@@ -0,0 +1,46 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadCbpProject, projectContainsFile } from './CbpProjectParser';
+import { findCompileCommand, loadCompileCommands } from './CompileCommandsLookup';
+
+// --- 文件所属项目 (监视模式) ---
+// 根据项目的 compile_commands.json 和 .cbp 中的源文件列表判断保存的文件会影响哪些项目
+
+// 监视的文件类型：源文件、头文件和汇编文件
+const WATCHED_EXTENSIONS = new Set(['.c', '.cc', '.cpp', '.cxx', '.c++', '.h', '.hh', '.hpp', '.hxx', '.inc', '.s', '.asm']);
+
+export function isWatchedSourceFile(filePath: string): boolean {
+    return WATCHED_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+}
+
+// cbp2clangd 在 .cbp 所在目录生成 compile_commands.json
+export function getProjectCompileCommandsPath(cbpPath: string): string {
+    return path.join(path.dirname(cbpPath), 'compile_commands.json');
+}
+
+function samePath(a: string, b: string): boolean {
+    const normalize = (p: string) => {
+        const normalized = path.normalize(p);
+        return process.platform === 'win32' ? normalized.toLowerCase() : normalized;
+    };
+    return normalize(a) === normalize(b);
+}
+
+// 文件是否属于项目：.cbp 本身、compile_commands.json 中的条目或 .cbp 中的源文件 (含头文件)
+export function projectOwnsFile(cbpPath: string, filePath: string): boolean {
+    if (samePath(cbpPath, filePath)) {return true;}
+
+    const database = getProjectCompileCommandsPath(cbpPath);
+    if (fs.existsSync(database) && findCompileCommand(loadCompileCommands(database), filePath)) {
+        return true;
+    }
+
+    const project = loadCbpProject(cbpPath);
+    return !!project && projectContainsFile(project, filePath);
+}
+
+// 受文件影响的项目 (保持 cbpPaths 的顺序)
+export function findAffectedProjects(filePath: string, cbpPaths: string[]): string[] {
+    if (!isWatchedSourceFile(filePath) && path.extname(filePath).toLowerCase() !== '.cbp') {return [];}
+    return cbpPaths.filter(cbpPath => projectOwnsFile(cbpPath, filePath));
+}
@@ -0,0 +1,152 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BuildDiagnostic, BuildDiagnosticLocation, CompilerDiagnosticParser } from '../utils';
+
+// --- 构建诊断管理 (Problems 面板) ---
+// 每个队列项目对应一个 DiagnosticCollection，项目重新构建时清空
+
+export class BuildDiagnosticsManager implements vscode.Disposable {
+    private collections = new Map<string, vscode.DiagnosticCollection>();
+    private parsers = new Map<string, CompilerDiagnosticParser>();
+    // 单文件编译的诊断
+    private fileCollection: vscode.DiagnosticCollection | null = null;
+
+    // 开始处理某个项目：清空上次的诊断，转换或构建前命令失败时不会留下过期的结果
+    resetProject(cbpPath: string) {
+        this.collections.get(cbpPath)?.clear();
+        this.parsers.delete(cbpPath);
+        // 完整构建的结果取代该项目目录下之前单文件编译的诊断，其他项目的不受影响
+        const projectDir = path.dirname(cbpPath);
+        const stale: vscode.Uri[] = [];
+        this.fileCollection?.forEach(uri => {
+            if (isInsideDirectory(uri.fsPath, projectDir)) {
+                stale.push(uri);
+            }
+        });
+        stale.forEach(uri => this.fileCollection?.delete(uri));
+    }
+
+    // 开始构建某个项目：清空旧诊断并返回新的解析器
+    beginProject(cbpPath: string): CompilerDiagnosticParser {
+        this.resetProject(cbpPath);
+        const parser = new CompilerDiagnosticParser(path.dirname(cbpPath));
+        this.parsers.set(cbpPath, parser);
+        return parser;
+    }
+
+    // 将解析到的诊断发布到 Problems 面板
+    publish(cbpPath: string) {
+        const parser = this.parsers.get(cbpPath);
+        if (!parser) {return;}
+
+        // 没有源码位置的链接错误挂到 .cbp 文件上
+        const byFile = this.groupByFile(parser.getDiagnostics(), cbpPath, path.basename(cbpPath, '.cbp'));
+
+        const collection = this.getCollection(cbpPath);
+        collection.clear();
+        byFile.forEach((diagnostics, file) => {
+            collection.set(vscode.Uri.file(file), diagnostics);
+        });
+    }
+
+    // 开始单独编译某个文件：移除各项目中该文件的旧诊断
+    beginFile(filePath: string, cwd: string): CompilerDiagnosticParser {
+        const uri = vscode.Uri.file(filePath);
+        this.collections.forEach(c => c.delete(uri));
+        this.getFileCollection().delete(uri);
+        return new CompilerDiagnosticParser(cwd);
+    }
+
+    // 发布单文件编译的诊断，编译的文件没有诊断时同样覆盖 (清空)
+    publishFile(filePath: string, parser: CompilerDiagnosticParser, source: string) {
+        const byFile = this.groupByFile(parser.getDiagnostics(), filePath, source);
+        if (!byFile.has(filePath)) {
+            byFile.set(filePath, []);
+        }
+
+        const collection = this.getFileCollection();
+        byFile.forEach((diagnostics, file) => {
+            collection.set(vscode.Uri.file(file), diagnostics);
+        });
+    }
+
+    // 清空某个项目的诊断
+    clearProject(cbpPath: string) {
+        this.collections.get(cbpPath)?.clear();
+        this.parsers.delete(cbpPath);
+    }
+
+    dispose() {
+        this.fileCollection?.dispose();
+        this.fileCollection = null;
+        this.collections.forEach(c => c.dispose());
+        this.collections.clear();
+        this.parsers.clear();
+    }
+
+    private getCollection(cbpPath: string): vscode.DiagnosticCollection {
+        let collection = this.collections.get(cbpPath);
+        if (!collection) {
+            collection = vscode.languages.createDiagnosticCollection(`cbp-${path.basename(cbpPath, '.cbp')}`);
+            this.collections.set(cbpPath, collection);
+        }
+        return collection;
+    }
+
+    private getFileCollection(): vscode.DiagnosticCollection {
+        if (!this.fileCollection) {
+            this.fileCollection = vscode.languages.createDiagnosticCollection('cbp-compile-file');
+        }
+        return this.fileCollection;
+    }
+
+    // 按文件分组，没有文件位置的诊断归到 fallbackFile
+    private groupByFile(diagnostics: BuildDiagnostic[], fallbackFile: string, source: string): Map<string, vscode.Diagnostic[]> {
+        const byFile = new Map<string, vscode.Diagnostic[]>();
+        for (const diag of diagnostics) {
+            const file = diag.file || fallbackFile;
+            const list = byFile.get(file) ?? [];
+            list.push(this.toVscodeDiagnostic(diag, source));
+            byFile.set(file, list);
+        }
+        return byFile;
+    }
+
+    private toVscodeDiagnostic(diag: BuildDiagnostic, projectName: string): vscode.Diagnostic {
+        const severity = diag.severity === 'error'
+            ? vscode.DiagnosticSeverity.Error
+            : diag.severity === 'warning'
+                ? vscode.DiagnosticSeverity.Warning
+                : vscode.DiagnosticSeverity.Information;
+
+        const result = new vscode.Diagnostic(toRange(diag), diag.message, severity);
+        result.source = projectName;
+        if (diag.code) {
+            result.code = diag.code;
+        }
+        if (diag.related.length > 0) {
+            result.relatedInformation = diag.related
+                .filter(r => r.file)
+                .map(r => new vscode.DiagnosticRelatedInformation(
+                    new vscode.Location(vscode.Uri.file(r.file), toRange(r)),
+                    r.message
+                ));
+        }
+        return result;
+    }
+}
+
+function isInsideDirectory(fsPath: string, dir: string): boolean {
+    const relative = path.relative(dir, fsPath);
+    return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+// 编译器输出为 1-based 行列，VS Code 为 0-based；未知列时标记整行
+function toRange(loc: BuildDiagnosticLocation): vscode.Range {
+    const line = Math.max(loc.line - 1, 0);
+    if (loc.column > 0) {
+        const col = loc.column - 1;
+        return new vscode.Range(line, col, line, col + 1);
+    }
+    return new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER);
+}
@@ -0,0 +1,77 @@
+import * as path from 'path';
+
+// --- 构建环境变量 ---
+// 工作区、队列配置、芯片系列和项目级的环境变量覆盖按顺序叠加到 process.env 上，
+// 用于转换、构建、清理等命令 (不同芯片需要不同的交叉工具链和 SDK 变量)
+
+export interface EnvOverrides {
+    // 添加到 PATH 最前面的目录
+    pathPrepend?: string[];
+    // 添加到 PATH 最后面的目录
+    pathAppend?: string[];
+    // 设置的变量，值中可使用 ${env:VAR} 引用当前环境中的变量
+    set?: Record<string, string>;
+    // 删除的变量
+    unset?: string[];
+}
+
+export type Environment = Record<string, string | undefined>;
+
+const ignoreCase = process.platform === 'win32';
+
+// Windows 下环境变量名不区分大小写 (如 Path 与 PATH)
+function findEnvKey(env: Environment, name: string): string {
+    if (!ignoreCase) {return name;}
+    const upper = name.toUpperCase();
+    return Object.keys(env).find(key => key.toUpperCase() === upper) ?? name;
+}
+
+// 展开 ${env:VAR}，不存在的变量替换为空字符串
+export function expandEnvReferences(value: string, env: Environment): string {
+    return value.replace(/\$\{env:([^}]+)\}/g, (_, name: string) => env[findEnvKey(env, name)] ?? '');
+}
+
+function asStrings(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v !== '') : [];
+}
+
+/**
+ * 依次应用环境变量覆盖，返回新的环境 (不修改 base)
+ * 每一级按 unset、set、PATH 前后追加的顺序处理，${env:VAR} 引用的是前面各级处理后的值
+ */
+export function applyEnvOverrides(base: Environment, overrides: EnvOverrides[]): Environment {
+    const env: Environment = { ...base };
+
+    overrides.forEach(level => {
+        asStrings(level.unset).forEach(name => {
+            delete env[findEnvKey(env, name)];
+        });
+
+        Object.entries(level.set ?? {}).forEach(([name, value]) => {
+            if (typeof value !== 'string') {return;}
+            env[findEnvKey(env, name)] = expandEnvReferences(value, env);
+        });
+
+        const prepend = asStrings(level.pathPrepend).map(dir => expandEnvReferences(dir, env));
+        const append = asStrings(level.pathAppend).map(dir => expandEnvReferences(dir, env));
+        if (prepend.length > 0 || append.length > 0) {
+            const key = findEnvKey(env, 'PATH');
+            const current = env[key] ? [env[key]!] : [];
+            env[key] = [...prepend, ...current, ...append].join(path.delimiter);
+        }
+    });
+
+    return env;
+}
+
+/**
+ * 列出与 base 相比发生变化的变量 (调试输出)
+ * @returns 如 "SDK_ROOT=C:\sdk"、"-LANG" (被删除)，按变量名排序
+ */
+export function describeEnvChanges(base: Environment, env: Environment): string[] {
+    const names = new Set([...Object.keys(base), ...Object.keys(env)]);
+    return Array.from(names)
+        .filter(name => base[name] !== env[name])
+        .sort()
+        .map(name => env[name] === undefined ? `-${name}` : `${name}=${env[name]}`);
+}
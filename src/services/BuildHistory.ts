@@ -0,0 +1,295 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BuildCommandType, BuildRunRecord, ProjectBuildRecord, ProjectBuildStatus, ProjectFailureReason } from '../models/BuildHistory';
+import { formatDuration, formatTable, stripAnsi } from '../utils/CommonUtils';
+import { ProjectRunResult, ScheduledOutcome } from './BuildScheduler';
+import { CommandTimeoutError } from './CommandRunner';
+
+// --- 构建历史 (.cbp-build/history.json + .cbp-build/history/<id>.log) ---
+
+const HISTORY_FILE = 'history.json';
+const HISTORY_LOG_DIR = 'history';
+// 保留的最大运行记录数，超出的记录连同日志一起删除
+export const MAX_HISTORY_RUNS = 50;
+
+function pad(value: number, length = 2): string {
+    return String(value).padStart(length, '0');
+}
+
+// 运行 ID 同时用作日志文件名，如 20261019-153012-042
+export function createRunId(date: Date): string {
+    return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+        `-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}` +
+        `-${pad(date.getMilliseconds(), 3)}`;
+}
+
+// --- 单次运行的记录器 ---
+
+export class BuildRunRecorder {
+    private readonly startTime = new Date();
+    private readonly projects = new Map<string, ProjectBuildRecord>();
+    private cbp2clangVersion?: string;
+
+    constructor(private readonly command: BuildCommandType, fsPaths: string[]) {
+        fsPaths.forEach(fsPath => this.projects.set(fsPath, {
+            fsPath,
+            name: path.basename(fsPath, '.cbp'),
+            status: 'skipped',
+            durationMs: 0,
+            errorCount: 0,
+            warningCount: 0
+        }));
+    }
+
+    setCbp2clangVersion(version: string) {
+        this.cbp2clangVersion = version;
+    }
+
+    setTarget(fsPath: string, target: string) {
+        const record = this.projects.get(fsPath);
+        if (record && target) {record.target = target;}
+    }
+
+    setDiagnosticCounts(fsPath: string, errorCount: number, warningCount: number) {
+        const record = this.projects.get(fsPath);
+        if (record) {
+            record.errorCount = errorCount;
+            record.warningCount = warningCount;
+        }
+    }
+
+    // 记录失败步骤的退出码 (命令执行失败的异常带有 exitCode) 和超时原因
+    recordFailure(fsPath: string, error: unknown) {
+        const record = this.projects.get(fsPath);
+        if (!record) {return;}
+        const exitCode = (error as { exitCode?: unknown } | undefined)?.exitCode;
+        if (typeof exitCode === 'number') {
+            record.exitCode = exitCode;
+        }
+        if (error instanceof CommandTimeoutError) {
+            record.failureReason = error.reason;
+        }
+    }
+
+    // 包装单个项目的执行，记录开始时间、耗时和结果
+    async track(fsPath: string, run: () => Promise<ProjectRunResult>): Promise<ProjectRunResult> {
+        const record = this.projects.get(fsPath);
+        const start = Date.now();
+        if (record) {record.startTime = new Date(start).toISOString();}
+
+        let result: ProjectRunResult = 'failed';
+        try {
+            result = await run();
+            return result;
+        } finally {
+            if (record) {
+                record.status = result;
+                record.durationMs = Date.now() - start;
+            }
+        }
+    }
+
+    finish(outcomes: Map<string, ScheduledOutcome>, cancelled: boolean): BuildRunRecord {
+        const projects = Array.from(this.projects.values()).map(record => ({
+            ...record,
+            status: outcomes.get(record.fsPath) ?? record.status
+        }));
+
+        let status: BuildRunRecord['status'] = 'success';
+        if (cancelled) {
+            status = 'cancelled';
+        } else if (projects.some(p => p.status !== 'success')) {
+            status = 'failed';
+        }
+
+        return {
+            id: createRunId(this.startTime),
+            command: this.command,
+            startTime: this.startTime.toISOString(),
+            endTime: new Date().toISOString(),
+            status,
+            cbp2clangVersion: this.cbp2clangVersion,
+            projects
+        };
+    }
+}
+
+// --- 运行汇总 ---
+
+const STATUS_LABELS: Record<ProjectBuildStatus, string> = {
+    success: '成功',
+    failed: '失败',
+    skipped: '跳过',
+    cancelled: '已取消'
+};
+
+const FAILURE_REASON_LABELS: Record<ProjectFailureReason, string> = {
+    timeout: '超时',
+    stalled: '无输出'
+};
+
+// 项目结果，超时等特殊失败原因显示为 "失败 (超时)"
+function formatProjectStatus(record: ProjectBuildRecord): string {
+    const label = STATUS_LABELS[record.status];
+    return record.status === 'failed' && record.failureReason ? `${label} (${FAILURE_REASON_LABELS[record.failureReason]})` : label;
+}
+
+// 运行结束时的汇总表格 (不含颜色控制符)：表头之后每个项目一行，顺序与 record.projects 一致
+export function formatRunSummary(record: BuildRunRecord): string[] {
+    const rows = record.projects.map(p => [
+        p.target ? `${p.name} (${p.target})` : p.name,
+        formatProjectStatus(p),
+        p.status === 'skipped' ? '-' : formatDuration(p.durationMs),
+        String(p.errorCount),
+        String(p.warningCount)
+    ]);
+    return formatTable([['项目', '结果', '耗时', '错误', '警告'], ...rows], [false, false, true, true, true]);
+}
+
+// 各结果的项目数量，如 "共 5 个项目: 成功 3, 失败 2 (超时 1), 跳过 1"
+export function describeRunCounts(record: BuildRunRecord): string {
+    const counts = (Object.keys(STATUS_LABELS) as ProjectBuildStatus[])
+        .map(status => ({ status, count: record.projects.filter(p => p.status === status).length }))
+        .filter(c => c.count > 0)
+        .map(c => {
+            const reasons = (Object.keys(FAILURE_REASON_LABELS) as ProjectFailureReason[])
+                .map(reason => ({ reason, count: record.projects.filter(p => p.status === c.status && p.failureReason === reason).length }))
+                .filter(r => c.status === 'failed' && r.count > 0)
+                .map(r => `${FAILURE_REASON_LABELS[r.reason]} ${r.count}`);
+            return `${STATUS_LABELS[c.status]} ${c.count}${reasons.length > 0 ? ` (${reasons.join(', ')})` : ''}`;
+        });
+    return `共 ${record.projects.length} 个项目: ${counts.join(', ')}`;
+}
+
+// --- 终端输出收集 (保存为运行日志) ---
+
+export class BuildLogCollector {
+    private lines: string[] = [];
+    private current = '';
+
+    // 追加终端输出：去掉 ANSI 序列，单独的 \r 表示原地刷新 (ninja 进度行)，只保留最后的内容
+    append(data: string) {
+        for (const part of stripAnsi(data).split(/(\r\n|\n|\r)/)) {
+            if (part === '\r\n' || part === '\n') {
+                this.lines.push(this.current);
+                this.current = '';
+            } else if (part === '\r') {
+                this.current = '';
+            } else {
+                this.current += part;
+            }
+        }
+    }
+
+    getText(): string {
+        return [...this.lines, this.current].join('\n');
+    }
+}
+
+// --- 历史记录存储 ---
+
+export class BuildHistoryStore {
+    private runs: BuildRunRecord[] | null = null;
+
+    // stateDir 为 .cbp-build 目录，没有工作区时为 null (仅保存在内存中)
+    constructor(private readonly stateDir: string | null, private readonly maxRuns: number = MAX_HISTORY_RUNS) {}
+
+    // 按时间倒序返回 (最新的在前)
+    getRuns(): BuildRunRecord[] {
+        if (!this.runs) {
+            this.runs = this.load();
+        }
+        return this.runs;
+    }
+
+    // 丢弃缓存，下次 getRuns() 时重新读取 (history.json 被其他进程如 cbp-build run 修改后)
+    reload() {
+        this.runs = null;
+    }
+
+    findRun(id: string): BuildRunRecord | undefined {
+        return this.getRuns().find(r => r.id === id);
+    }
+
+    addRun(record: BuildRunRecord, logText?: string): BuildRunRecord {
+        const runs = this.getLatestRuns();
+        const saved: BuildRunRecord = { ...record };
+
+        if (this.stateDir && logText !== undefined) {
+            try {
+                const logDir = path.join(this.stateDir, HISTORY_LOG_DIR);
+                fs.mkdirSync(logDir, { recursive: true });
+                saved.logFile = `${HISTORY_LOG_DIR}/${record.id}.log`;
+                fs.writeFileSync(path.join(this.stateDir, saved.logFile), logText, 'utf-8');
+            } catch (error) {
+                console.error('[BuildHistoryStore] Failed to save log:', error);
+                saved.logFile = undefined;
+            }
+        }
+
+        runs.unshift(saved);
+        runs.splice(this.maxRuns).forEach(removed => this.deleteLog(removed));
+        this.save();
+        return saved;
+    }
+
+    clear() {
+        this.getLatestRuns().forEach(run => this.deleteLog(run));
+        this.runs = [];
+        this.save();
+    }
+
+    // 运行日志的绝对路径，日志不存在时返回 undefined
+    getLogPath(record: BuildRunRecord): string | undefined {
+        if (!this.stateDir || !record.logFile) {return undefined;}
+        const logPath = path.join(this.stateDir, record.logFile);
+        return fs.existsSync(logPath) ? logPath : undefined;
+    }
+
+    // 修改前重新读取文件，避免覆盖扩展和命令行各自写入的记录
+    private getLatestRuns(): BuildRunRecord[] {
+        if (this.stateDir) {
+            this.runs = this.load();
+        }
+        return this.getRuns();
+    }
+
+    private getHistoryFilePath(): string | null {
+        return this.stateDir ? path.join(this.stateDir, HISTORY_FILE) : null;
+    }
+
+    private load(): BuildRunRecord[] {
+        const filePath = this.getHistoryFilePath();
+        if (!filePath || !fs.existsSync(filePath)) {return [];}
+
+        try {
+            const content = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+            return Array.isArray(content.runs) ? content.runs : [];
+        } catch (error) {
+            console.error('[BuildHistoryStore] Failed to load history:', error);
+            return [];
+        }
+    }
+
+    private save() {
+        const filePath = this.getHistoryFilePath();
+        if (!filePath) {return;}
+
+        try {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, JSON.stringify({ version: 1, runs: this.runs ?? [] }, null, 2), 'utf-8');
+        } catch (error) {
+            console.error('[BuildHistoryStore] Failed to save history:', error);
+        }
+    }
+
+    private deleteLog(record: BuildRunRecord) {
+        const logPath = this.getLogPath(record);
+        if (!logPath) {return;}
+        try {
+            fs.unlinkSync(logPath);
+        } catch (error) {
+            console.error('[BuildHistoryStore] Failed to delete log:', error);
+        }
+    }
+}
@@ -0,0 +1,417 @@
+import * as path from 'path';
+import { BuildCommandType, BuildRunRecord } from '../models/BuildHistory';
+import { CompilerDiagnosticParser } from '../utils/DiagnosticParser';
+import { compareVersions } from '../utils/CommonUtils';
+import { BuildCancelledError, CancellationSignal } from './CommandRunner';
+import { BuildSettings, MIN_REQUIRED_CBP2CLANG_VERSION, checkCbp2clangVersion, createBuildCommand, createCommandVariables, createConvertCommand, getCleanCommand, getCleanSkipReason, resolveProjectTarget } from './BuildSteps';
+import { CommandTemplateContext, ConfigReader, renderCommandTemplate } from './CommandTemplate';
+import { ProjectsConfig, resolveProjectEnvOverrides, resolveProjectHooks } from './ProjectConfig';
+import { applyEnvOverrides, describeEnvChanges, Environment } from './BuildEnvironment';
+import { runScheduled, ProjectRunResult } from './BuildScheduler';
+import { BuildRunRecorder } from './BuildHistory';
+import { ConvertStampStore, checkNinjaUpToDate } from './IncrementalBuild';
+import { extractChipName } from './QueueState';
+
+// --- 构建流程 (不依赖 VS Code) ---
+// 扩展的构建/重新编译/清理命令和命令行 (cbp-build run) 共用：按步骤处理每个项目，
+// 通过结构化事件报告进度；命令由注入的执行器运行，终端显示、状态栏、诊断和项目日志由调用方根据事件处理
+
+// 项目的处理步骤：清理 -> 构建前命令 -> 转换 -> 构建脚本 -> 构建后命令
+export type BuildStepKind = 'clean' | 'preBuild' | 'convert' | 'build' | 'postBuild';
+
+export const BUILD_STEP_LABELS: Record<BuildStepKind, string> = {
+    clean: '清理',
+    preBuild: '构建前命令',
+    convert: '转换',
+    build: '构建脚本',
+    postBuild: '构建后命令'
+};
+
+export interface BuildPipelineProject {
+    fsPath: string;
+    // 用户选择的构建目标，未选择时使用 .cbp 中的第一个目标
+    selectedTarget?: string;
+}
+
+export interface StepCommandRequest {
+    project: string;
+    step: BuildStepKind;
+    command: string;
+    cwd: string;
+    // 已应用项目的环境覆盖，没有覆盖时为 undefined (使用 process.env)
+    env?: Environment;
+    // 并行构建时的输出行前缀 (如 "[app] ")，串行时为空
+    outputPrefix: string;
+    // 步骤的时限 (毫秒)，超时时执行器以 CommandTimeoutError 拒绝；0 表示不限
+    timeoutMs: number;
+    // 连续多久没有输出时调用 onStall (毫秒)，0 表示不检测
+    stallMs: number;
+    // 执行器对每一行输出 (非进度行已做路径转换) 的回调
+    onLine(line: string): void;
+    // 长时间没有输出时调用，返回 true 表示结束命令
+    onStall(silentMs: number): Promise<boolean>;
+}
+
+// 执行一条步骤命令：成功时完成，失败时以 CommandFailedError 拒绝，取消时以 BuildCancelledError 拒绝
+export type StepCommandRunner = (request: StepCommandRequest, token?: CancellationSignal) => Promise<void>;
+
+export type StepStatus = 'success' | 'failed' | 'cancelled';
+
+export type BuildPipelineEvent =
+    | { type: 'versionCheckStart' }
+    | { type: 'versionChecked'; version: string }
+    | { type: 'runStart'; parallel: boolean; concurrency: number }
+    | { type: 'projectStart'; project: string }
+    | { type: 'debug'; project: string; text: string }
+    | { type: 'target'; project: string; target: string; missing: boolean }
+    | { type: 'stepStart'; project: string; step: BuildStepKind; command: string }
+    | { type: 'stepSkipped'; project: string; step: BuildStepKind; reason: string; command?: string }
+    | { type: 'stepFinish'; project: string; step: BuildStepKind; command: string; status: StepStatus; error?: unknown }
+    | { type: 'output'; project: string; step: BuildStepKind; line: string }
+    | { type: 'stepStalled'; project: string; step: BuildStepKind; command: string; silentSeconds: number }
+    | { type: 'projectSkipped'; project: string; dependency: string }
+    | { type: 'projectFinish'; project: string; result: ProjectRunResult; target: string; upToDate: boolean; error?: unknown };
+
+export interface BuildPipelineOptions {
+    command: BuildCommandType;
+    settings: BuildSettings;
+    projects: BuildPipelineProject[];
+    // 当前队列配置名 (环境变量覆盖的作用域)
+    profile?: string;
+    // 项目所属的工作区文件夹，没有时使用项目目录
+    getWorkspaceRoot(cbpPath: string): string | undefined;
+    // 项目的配置来源 (构建前后命令、环境变量)
+    getConfigSources(cbpPath: string): ProjectsConfig[];
+    // ${config:...} 读取的设置，未提供时模板中不能使用 ${config:...}
+    getConfigReader?(cbpPath: string): ConfigReader;
+    // 增量构建记录
+    getConvertStamps(cbpPath: string): ConvertStampStore;
+    // 版本检查通过后调用，返回调度使用的依赖表 (已去除循环依赖)；清理时不使用
+    getDependencies?(): Map<string, string[]>;
+    // 构建步骤的诊断解析器，默认以项目目录为基准新建
+    createDiagnosticParser?(cbpPath: string): CompilerDiagnosticParser;
+    runner: StepCommandRunner;
+    // 命令长时间没有输出时询问是否结束，返回 true 表示结束；未提供时继续等待
+    confirmKillStalled?(event: { project: string; step: BuildStepKind; command: string; silentSeconds: number }): Promise<boolean>;
+    token?: CancellationSignal;
+    // 以下用于测试替换
+    checkVersion?(cbp2clangPath: string): Promise<string>;
+    checkUpToDate?(ninjaPath: string, cwd: string, env?: Environment, token?: CancellationSignal): Promise<boolean>;
+}
+
+export interface BuildPipelineResult {
+    record: BuildRunRecord;
+    // 增量构建中无需构建的项目
+    upToDateProjects: string[];
+    cancelled: boolean;
+}
+
+// cbp2clangd 无法运行或版本过低，流程未开始
+export class Cbp2clangVersionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'Cbp2clangVersionError';
+    }
+}
+
+const HOOK_STAGES: Partial<Record<BuildStepKind, string>> = {
+    preBuild: '构建前',
+    postBuild: '构建后'
+};
+
+const FINISH_LABELS: Record<BuildCommandType, string> = {
+    build: '',
+    rebuild: '重新编译',
+    clean: '清理'
+};
+
+function projectLabel(fsPath: string): string {
+    return path.basename(fsPath, '.cbp');
+}
+
+export class BuildPipeline {
+    private listeners = new Set<(event: BuildPipelineEvent) => void>();
+    private readonly parallel: boolean;
+
+    constructor(private readonly options: BuildPipelineOptions) {
+        this.parallel = options.settings.maxParallelBuilds > 1 && options.projects.length > 1;
+    }
+
+    onEvent(listener: (event: BuildPipelineEvent) => void): { dispose(): void } {
+        this.listeners.add(listener);
+        return { dispose: () => this.listeners.delete(listener) };
+    }
+
+    /**
+     * 执行流程：检查 cbp2clangd 版本 (清理不需要)，再按依赖关系调度各项目
+     * @throws Cbp2clangVersionError 版本检查失败，此时没有项目被处理
+     */
+    async run(): Promise<BuildPipelineResult> {
+        const { command, settings, projects, token } = this.options;
+        const recorder = new BuildRunRecorder(command, projects.map(p => p.fsPath));
+
+        if (command !== 'clean') {
+            recorder.setCbp2clangVersion(await this.checkVersion());
+        }
+
+        const dependencies = command !== 'clean' ? this.options.getDependencies?.() ?? new Map<string, string[]>() : new Map<string, string[]>();
+        const concurrency = this.parallel ? settings.maxParallelBuilds : 1;
+        this.emit({ type: 'runStart', parallel: this.parallel, concurrency });
+
+        const upToDateProjects: string[] = [];
+        const outcomes = await runScheduled(projects, {
+            concurrency,
+            // 清理失败不影响后续项目
+            stopOnFailure: command !== 'clean' && settings.stopOnFailure,
+            getId: p => p.fsPath,
+            getDependencies: p => dependencies.get(p.fsPath) ?? [],
+            isCancelled: () => !!token?.isCancellationRequested,
+            onSkipped: (project, dependency) => this.emit({ type: 'projectSkipped', project: project.fsPath, dependency }),
+            run: project => recorder.track(project.fsPath, () => this.runProject(project, recorder, upToDateProjects))
+        });
+
+        const cancelled = !!token?.isCancellationRequested;
+        return { record: recorder.finish(outcomes, cancelled), upToDateProjects, cancelled };
+    }
+
+    // 事件在终端/命令行中显示的行 (可含 ANSI 颜色)；命令输出由执行器显示，这里不重复
+    format(event: BuildPipelineEvent): string[] {
+        const { command } = this.options;
+        const tag = 'project' in event && this.parallel ? `[${projectLabel(event.project)}] ` : '';
+        const total = command === 'rebuild' ? 3 : 2;
+        const stepLabels: Partial<Record<BuildStepKind, string>> = {
+            clean: command === 'rebuild' ? '[0/3]' : '[1/1]',
+            convert: `[1/${total}]`,
+            build: `[2/${total}]`
+        };
+        const stage = 'step' in event ? HOOK_STAGES[event.step] : undefined;
+
+        switch (event.type) {
+            case 'versionCheckStart':
+                return [`\n\x1b[36m=== 检查 cbp2clangd 版本 ===\x1b[0m`];
+            case 'versionChecked':
+                return [`cbp2clangd 版本: ${event.version} (满足要求，最小要求版本: ${MIN_REQUIRED_CBP2CLANG_VERSION})`];
+            case 'runStart':
+                return event.parallel ? [`并行构建: 最多同时处理 ${event.concurrency} 个项目`] : [];
+            case 'projectStart':
+                return [`\n\x1b[33m>>> 处理项目: ${projectLabel(event.project)}\x1b[0m`];
+            case 'debug':
+                return [`${tag}\x1b[36m[调试] ${event.text}\x1b[0m`];
+            case 'target':
+                return [
+                    ...(event.missing ? [`\x1b[33m警告: 项目 ${projectLabel(event.project)} 中不存在构建目标 "${event.target}"\x1b[0m`] : []),
+                    ...(event.target ? [`${tag}构建目标: ${event.target}`] : [])
+                ];
+            case 'stepStart': {
+                if (stage) {
+                    return [`${tag}\x1b[32m[${stage}] ${event.command}\x1b[0m`];
+                }
+                const titles: Partial<Record<BuildStepKind, string>> = { clean: '清理构建文件...', convert: '生成 Compile Commands...', build: '执行构建脚本...' };
+                const line = `${tag}\x1b[32m${stepLabels[event.step]} ${titles[event.step]}\x1b[0m`;
+                return event.step === 'convert' ? [`${tag}执行的转换命令: ${event.command}`, line] : [line];
+            }
+            case 'stepSkipped': {
+                const line = `${tag}\x1b[32m${stepLabels[event.step]} ${event.reason}\x1b[0m`;
+                return event.command ? [`${tag}执行的转换命令: ${event.command}`, line] : [line];
+            }
+            case 'stepFinish':
+                return stage && event.status === 'failed' ? [`${tag}\x1b[31m${stage}命令失败: ${event.command}\x1b[0m`] : [];
+            case 'output':
+                return [];
+            case 'stepStalled':
+                return [`${tag}\x1b[33m警告: ${BUILD_STEP_LABELS[event.step]}已 ${event.silentSeconds} 秒没有输出，可能在等待输入或已卡住\x1b[0m`];
+            case 'projectSkipped':
+                return [`\n\x1b[33m>>> 跳过项目 ${projectLabel(event.project)}: 依赖的项目未成功\x1b[0m`];
+            case 'projectFinish': {
+                const name = projectLabel(event.project);
+                if (event.result === 'cancelled') {
+                    return [`\x1b[33m!!! 项目 ${name} 已取消\x1b[0m`];
+                }
+                if (event.result === 'failed') {
+                    return [
+                        `\x1b[31m!!! 项目 ${name} ${FINISH_LABELS[command]}失败: ${event.error instanceof Error ? event.error.message : event.error}\x1b[0m`,
+                        ...(command !== 'clean' && this.options.settings.stopOnFailure ? [`\x1b[31m>>> 编译失败，停止后续项目\x1b[0m`] : [])
+                    ];
+                }
+                return [event.upToDate
+                    ? `\x1b[32m>>> 项目 ${name} 已是最新.\x1b[0m`
+                    : `\x1b[32m>>> 项目 ${name} ${FINISH_LABELS[command]}完成.\x1b[0m`];
+            }
+        }
+    }
+
+    private emit(event: BuildPipelineEvent) {
+        Array.from(this.listeners).forEach(listener => listener(event));
+    }
+
+    private async checkVersion(): Promise<string> {
+        const { cbp2clangPath } = this.options.settings;
+        this.emit({ type: 'versionCheckStart' });
+
+        let version: string;
+        try {
+            version = await (this.options.checkVersion ?? checkCbp2clangVersion)(cbp2clangPath);
+        } catch (error) {
+            throw new Cbp2clangVersionError(`无法检查 cbp2clangd 版本: ${(error as Error).message}，请确保 cbp2clangd 已正确安装。`);
+        }
+        if (!compareVersions(version, MIN_REQUIRED_CBP2CLANG_VERSION)) {
+            throw new Cbp2clangVersionError(`cbp2clangd 版本 ${version} 低于最小要求版本 ${MIN_REQUIRED_CBP2CLANG_VERSION}，请升级后再试。`);
+        }
+
+        this.emit({ type: 'versionChecked', version });
+        return version;
+    }
+
+    // 项目的环境变量，没有覆盖时为 undefined；调试模式下报告变化的变量
+    private resolveEnvironment(cbpPath: string, workspaceRoot: string | undefined, sources: ProjectsConfig[]): Environment | undefined {
+        const overrides = resolveProjectEnvOverrides({
+            cbpPath,
+            workspaceRoot,
+            profile: this.options.profile,
+            chip: extractChipName(cbpPath)
+        }, sources);
+        if (overrides.length === 0) {return undefined;}
+
+        const env = applyEnvOverrides(process.env, overrides);
+        if (this.options.settings.debug) {
+            describeEnvChanges(process.env, env).forEach(line => this.emit({ type: 'debug', project: cbpPath, text: `环境变量: ${line}` }));
+        }
+        return env;
+    }
+
+    private async runProject(project: BuildPipelineProject, recorder: BuildRunRecorder, upToDateProjects: string[]): Promise<ProjectRunResult> {
+        const { command, settings, token } = this.options;
+        const cbpPath = project.fsPath;
+        const projectDir = path.dirname(cbpPath);
+        this.emit({ type: 'projectStart', project: cbpPath });
+
+        let target = '';
+        const finish = (result: ProjectRunResult, upToDate = false, error?: unknown): ProjectRunResult => {
+            this.emit({ type: 'projectFinish', project: cbpPath, result, target, upToDate, error });
+            return result;
+        };
+
+        try {
+            const folder = this.options.getWorkspaceRoot(cbpPath);
+            const sources = this.options.getConfigSources(cbpPath);
+            const env = this.resolveEnvironment(cbpPath, folder, sources);
+            // 项目所属的工作区文件夹 ({compileCommands}、{workspaceFolder})
+            const workspaceRoot = folder ?? projectDir;
+
+            const resolved = resolveProjectTarget(cbpPath, project.selectedTarget);
+            target = resolved.target;
+            if (command !== 'clean') {
+                this.emit({ type: 'target', project: cbpPath, target, missing: resolved.missing });
+                recorder.setTarget(cbpPath, target);
+            }
+
+            // 变量替换 (清理、转换、构建和构建前后命令使用相同的变量)
+            const templateContext: CommandTemplateContext = {
+                variables: createCommandVariables(settings, cbpPath, workspaceRoot, target),
+                env,
+                config: this.options.getConfigReader?.(cbpPath)
+            };
+            const run = (step: BuildStepKind, stepCommand: string, cwd: string, onLine?: (line: string) => void) =>
+                this.runStep(step, { project: cbpPath, command: stepCommand, cwd, env, outputPrefix: this.parallel ? `[${projectLabel(cbpPath)}] ` : '' }, onLine, token);
+
+            if (command !== 'build') {
+                const cleanSkipReason = getCleanSkipReason(settings, projectDir);
+                if (cleanSkipReason) {
+                    this.emit({ type: 'stepSkipped', project: cbpPath, step: 'clean', reason: `${cleanSkipReason}，跳过清理` });
+                } else {
+                    await run('clean', getCleanCommand(settings, templateContext), projectDir);
+                }
+                if (command === 'clean') {
+                    return finish('success');
+                }
+            }
+
+            const hooks = resolveProjectHooks(cbpPath, workspaceRoot, sources);
+            const convertCommand = createConvertCommand(settings, templateContext);
+            const incremental = command === 'build' && settings.incrementalBuild;
+            const stamps = this.options.getConvertStamps(cbpPath);
+
+            for (const template of hooks.preBuild) {
+                await run('preBuild', renderCommandTemplate(template, templateContext), projectDir);
+            }
+
+            if (incremental && stamps.isUpToDate(cbpPath, convertCommand)) {
+                this.emit({ type: 'stepSkipped', project: cbpPath, step: 'convert', reason: '项目文件未变化，跳过生成 Compile Commands', command: convertCommand });
+            } else {
+                await run('convert', convertCommand, workspaceRoot);
+                stamps.update(cbpPath, convertCommand);
+            }
+
+            // 增量构建：ninja -n 无事可做时跳过构建脚本
+            if (incremental && await (this.options.checkUpToDate ?? checkNinjaUpToDate)(settings.ninjaPath, projectDir, env, token)) {
+                this.emit({ type: 'stepSkipped', project: cbpPath, step: 'build', reason: '没有需要重新编译的文件' });
+                upToDateProjects.push(cbpPath);
+                return finish('success', true);
+            }
+
+            const parser = this.options.createDiagnosticParser?.(cbpPath) ?? new CompilerDiagnosticParser(projectDir);
+            try {
+                await run('build', createBuildCommand(settings, templateContext), projectDir, line => parser.pushLine(line));
+            } finally {
+                recorder.setDiagnosticCounts(cbpPath, parser.getErrorCount(), parser.getWarningCount());
+            }
+
+            for (const template of hooks.postBuild) {
+                await run('postBuild', renderCommandTemplate(template, templateContext), projectDir);
+            }
+
+            return finish('success');
+        } catch (error) {
+            if (error instanceof BuildCancelledError) {
+                return finish('cancelled');
+            }
+            recorder.recordFailure(cbpPath, error);
+            if (command !== 'clean') {
+                // 失败后下次重新转换，避免使用不完整的生成结果
+                this.options.getConvertStamps(cbpPath).invalidate(cbpPath);
+            }
+            return finish('failed', false, error);
+        }
+    }
+
+    // 执行一个步骤的命令，报告步骤开始、输出、无输出提醒和结束
+    private async runStep(
+        step: BuildStepKind,
+        request: Pick<StepCommandRequest, 'project' | 'command' | 'cwd' | 'env' | 'outputPrefix'>,
+        onLine: ((line: string) => void) | undefined,
+        token?: CancellationSignal
+    ): Promise<void> {
+        const { project, command } = request;
+        const { settings } = this.options;
+        // 构建前后命令不设时限
+        const timeouts: Partial<Record<BuildStepKind, number>> = {
+            clean: settings.cleanTimeout,
+            convert: settings.convertTimeout,
+            build: settings.buildTimeout
+        };
+
+        this.emit({ type: 'stepStart', project, step, command });
+        try {
+            await this.options.runner({
+                ...request,
+                step,
+                timeoutMs: Math.max(0, timeouts[step] ?? 0) * 1000,
+                stallMs: Math.max(0, settings.hangWatchdog) * 1000,
+                onLine: line => {
+                    onLine?.(line);
+                    this.emit({ type: 'output', project, step, line });
+                },
+                onStall: async silentMs => {
+                    const stalled = { project, step, command, silentSeconds: Math.round(silentMs / 1000) };
+                    this.emit({ type: 'stepStalled', ...stalled });
+                    return await this.options.confirmKillStalled?.(stalled) ?? false;
+                }
+            }, token);
+        } catch (error) {
+            const status: StepStatus = error instanceof BuildCancelledError ? 'cancelled' : 'failed';
+            this.emit({ type: 'stepFinish', project, step, command, status, error });
+            throw error;
+        }
+        this.emit({ type: 'stepFinish', project, step, command, status: 'success' });
+    }
+}
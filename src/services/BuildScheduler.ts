@@ -0,0 +1,82 @@
+// --- 构建调度器 ---
+// 按队列顺序调度项目，没有依赖约束的项目最多并行 concurrency 个
+
+export type ProjectRunResult = 'success' | 'failed' | 'cancelled';
+export type ScheduledOutcome = ProjectRunResult | 'skipped';
+
+export interface ScheduleOptions<T> {
+    // 最大并行数，1 表示串行
+    concurrency: number;
+    // 有项目失败后不再启动新的项目（已在运行的项目会执行完）
+    stopOnFailure: boolean;
+    getId(item: T): string;
+    // 返回该项目依赖的项目 id，不在本次调度范围内的依赖会被忽略
+    getDependencies(item: T): string[];
+    isCancelled(): boolean;
+    run(item: T): Promise<ProjectRunResult>;
+    // 因依赖项目失败而跳过时回调
+    onSkipped?(item: T, failedDependency: string): void;
+}
+
+export async function runScheduled<T>(items: T[], options: ScheduleOptions<T>): Promise<Map<string, ScheduledOutcome>> {
+    const concurrency = Math.max(1, Math.floor(options.concurrency) || 1);
+    const idSet = new Set(items.map(item => options.getId(item)));
+    const outcomes = new Map<string, ScheduledOutcome>();
+    const running = new Map<string, Promise<void>>();
+    const pending = [...items];
+    let stopped = false;
+
+    const start = (item: T, id: string) => {
+        const task = options.run(item)
+            .catch((): ProjectRunResult => 'failed')
+            .then(result => {
+                outcomes.set(id, result);
+                running.delete(id);
+                if (result === 'failed' && options.stopOnFailure) {
+                    stopped = true;
+                }
+            });
+        running.set(id, task);
+    };
+
+    while (true) {
+        if (!stopped && !options.isCancelled()) {
+            // 按队列顺序启动所有依赖已满足的项目
+            let i = 0;
+            while (i < pending.length && running.size < concurrency) {
+                const item = pending[i];
+                const id = options.getId(item);
+                const deps = options.getDependencies(item).filter(d => d !== id && idSet.has(d));
+
+                const failedDep = deps.find(d => outcomes.has(d) && outcomes.get(d) !== 'success');
+                if (failedDep) {
+                    pending.splice(i, 1);
+                    outcomes.set(id, 'skipped');
+                    options.onSkipped?.(item, failedDep);
+                    continue;
+                }
+
+                if (deps.every(d => outcomes.get(d) === 'success')) {
+                    pending.splice(i, 1);
+                    start(item, id);
+                    continue;
+                }
+
+                i++;
+            }
+        }
+
+        if (running.size === 0) {
+            break;
+        }
+        await Promise.race(running.values());
+    }
+
+    // 未执行的项目：取消时记为 cancelled，否则 (失败停止 / 循环依赖) 记为 skipped
+    const cancelled = options.isCancelled();
+    for (const item of pending) {
+        outcomes.set(options.getId(item), cancelled ? 'cancelled' : 'skipped');
+    }
+
+    return outcomes;
+}
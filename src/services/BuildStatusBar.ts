@@ -0,0 +1,116 @@
+import * as vscode from 'vscode';
+import { BuildCommandType, BuildRunRecord } from '../models/BuildHistory';
+import { formatDuration, parseNinjaProgress } from '../utils';
+
+// --- 状态栏构建指示 ---
+// 构建中显示当前项目、队列位置和 ninja 进度，点击打开终端；空闲时显示上次结果，点击开始构建
+
+const COMMAND_LABELS: Record<BuildCommandType, string> = {
+    build: '构建',
+    rebuild: '重新编译',
+    clean: '清理'
+};
+
+const RESULT_LABELS: Record<BuildRunRecord['status'], string> = {
+    success: '成功',
+    failed: '失败',
+    cancelled: '已取消'
+};
+
+const RESULT_ICONS: Record<BuildRunRecord['status'], string> = {
+    success: '$(check)',
+    failed: '$(error)',
+    cancelled: '$(circle-slash)'
+};
+
+export class BuildStatusBar implements vscode.Disposable {
+    private item: vscode.StatusBarItem;
+    private running = false;
+    private total = 0;
+    private started = 0;
+    private currentProject = '';
+    // ninja 进度，如 [45/120]
+    private progress = '';
+    private lastRun: BuildRunRecord | null = null;
+
+    constructor() {
+        this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+        this.render();
+        this.item.show();
+    }
+
+    // 显示中的状态栏项 (文本、提示和点击命令)
+    get statusBarItem(): Readonly<vscode.StatusBarItem> {
+        return this.item;
+    }
+
+    beginRun(total: number) {
+        this.running = true;
+        this.total = total;
+        this.started = 0;
+        this.currentProject = '';
+        this.progress = '';
+        this.render();
+    }
+
+    projectStarted(label: string) {
+        if (!this.running) {return;}
+        this.started++;
+        this.currentProject = label;
+        this.progress = '';
+        this.render();
+    }
+
+    // 构建输出中的 ninja 进度行
+    reportOutput(label: string, line: string) {
+        if (!this.running) {return;}
+        const result = parseNinjaProgress(line);
+        if (!result.isProgress || !result.prefix) {return;}
+        this.currentProject = label;
+        this.progress = result.prefix;
+        this.render();
+    }
+
+    // 结束构建流程；未传入记录 (如版本检查失败提前结束) 时保留上次结果
+    endRun(record?: BuildRunRecord) {
+        if (!this.running) {return;}
+        this.running = false;
+        if (record) {
+            this.lastRun = record;
+        }
+        this.render();
+    }
+
+    private render() {
+        if (this.running) {
+            const position = this.total > 0 ? ` (${this.started}/${this.total})` : '';
+            const progress = this.progress ? ` ${this.progress}` : '';
+            this.item.text = `$(sync~spin) ${this.currentProject || '准备构建'}${position}${progress}`;
+            this.item.tooltip = '正在构建，点击查看构建终端';
+            this.item.command = 'cbp-build-manager.showBuildTerminal';
+            this.item.backgroundColor = undefined;
+            return;
+        }
+
+        this.item.command = 'cbp-build-manager.buildSelected';
+        if (!this.lastRun) {
+            this.item.text = '$(tools) CBP 构建';
+            this.item.tooltip = '点击构建队列中勾选的项目';
+            this.item.backgroundColor = undefined;
+            return;
+        }
+
+        const run = this.lastRun;
+        const durationMs = new Date(run.endTime).getTime() - new Date(run.startTime).getTime();
+        const result = `${COMMAND_LABELS[run.command]}${RESULT_LABELS[run.status]}`;
+        this.item.text = `${RESULT_ICONS[run.status]} ${result} ${formatDuration(durationMs)}`;
+        this.item.tooltip = `上次${result}，耗时 ${formatDuration(durationMs)}\n点击构建队列中勾选的项目`;
+        this.item.backgroundColor = run.status === 'failed'
+            ? new vscode.ThemeColor('statusBarItem.errorBackground')
+            : undefined;
+    }
+
+    dispose() {
+        this.item.dispose();
+    }
+}
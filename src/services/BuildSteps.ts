@@ -0,0 +1,182 @@
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { decodeBuffer } from '../utils/CommonUtils';
+import { SettingsReader } from './ProjectConfig';
+import { getTargetNames, loadCbpProject } from './CbpProjectParser';
+import { CommandTemplateContext, quoteShellArgument, renderCommandTemplate } from './CommandTemplate';
+import { extractChipName } from './QueueState';
+
+// --- 构建步骤 (不依赖 VS Code) ---
+// 扩展和命令行 (cbp-build run) 共用的设置默认值、转换/清理命令和 cbp2clangd 版本检查
+
+// cbp2clangd 最小要求版本
+export const MIN_REQUIRED_CBP2CLANG_VERSION = '1.4.0';
+
+// 默认清理命令，{ninja} 为 ninjaPath 设置 (未设置时为 ninja)
+export const DEFAULT_CLEAN_COMMAND = '{ninja} -t clean';
+
+export interface BuildSettings {
+    cbp2clangPath: string;
+    // 转换命令模板，变量见 createCommandVariables
+    convertCommand: string;
+    // 在项目目录中执行的构建脚本 (同样按命令模板展开)
+    buildCommand: string;
+    // 在项目目录中执行的清理命令模板，为空时跳过清理步骤
+    cleanCommand: string;
+    // 深度清理额外删除的产物通配符 (相对项目目录)
+    deepCleanPatterns: string[];
+    ninjaPath: string;
+    noHeaderInsertion: boolean;
+    debug: boolean;
+    stopOnFailure: boolean;
+    incrementalBuild: boolean;
+    maxParallelBuilds: number;
+    // 转换、构建脚本和清理步骤的时限 (秒)，0 表示不限
+    convertTimeout: number;
+    buildTimeout: number;
+    cleanTimeout: number;
+    // 命令连续多少秒没有输出时提醒 (可选择继续等待或结束)，0 表示不检测
+    hangWatchdog: number;
+}
+
+export function readBuildSettings(get: SettingsReader): BuildSettings {
+    return {
+        cbp2clangPath: get('cbp2clangPath', 'cbp2clang'),
+        convertCommand: get('convertCommand', '{cbp2clang} {cbpFile} {compileCommands} -l ld'),
+        buildCommand: get('buildCommand', './build.bat'),
+        cleanCommand: get('cleanCommand', DEFAULT_CLEAN_COMMAND),
+        deepCleanPatterns: get<string[]>('deepCleanPatterns', []),
+        ninjaPath: get('ninjaPath', ''),
+        noHeaderInsertion: get('noHeaderInsertion', true),
+        debug: get('debug', false),
+        stopOnFailure: get('stopOnFailure', true),
+        incrementalBuild: get('incrementalBuild', false),
+        maxParallelBuilds: get('maxParallelBuilds', 1),
+        convertTimeout: get('convertTimeout', 0),
+        buildTimeout: get('buildTimeout', 0),
+        cleanTimeout: get('cleanTimeout', 0),
+        hangWatchdog: get('hangWatchdog', 300)
+    };
+}
+
+// 转换、构建、清理和构建前后命令共用的变量
+export function createCommandVariables(settings: BuildSettings, cbpPath: string, workspaceRoot: string, target: string): Record<string, string> {
+    return {
+        cbp2clang: settings.cbp2clangPath,
+        ninja: settings.ninjaPath || 'ninja',
+        cbpFile: cbpPath,
+        // compile_commands.json 的输出目录 (项目所属的工作区文件夹)
+        compileCommands: workspaceRoot,
+        target,
+        projectDir: path.dirname(cbpPath),
+        projectName: path.basename(cbpPath, '.cbp'),
+        workspaceFolder: workspaceRoot,
+        chip: extractChipName(cbpPath) ?? ''
+    };
+}
+
+// 展开转换命令模板并追加 ninja 路径、头文件插入和调试参数
+export function createConvertCommand(settings: BuildSettings, context: CommandTemplateContext): string {
+    let command = renderCommandTemplate(settings.convertCommand, context);
+
+    if (settings.ninjaPath) {
+        command += ` --ninja ${quoteShellArgument(settings.ninjaPath, context.shell)}`;
+    }
+
+    if (settings.noHeaderInsertion) {
+        command += ` --no-header-insertion`;
+    }
+
+    if (settings.debug) {
+        command += ` --debug`;
+    }
+    return command;
+}
+
+// 在项目目录中执行的构建命令
+export function createBuildCommand(settings: BuildSettings, context: CommandTemplateContext): string {
+    return renderCommandTemplate(settings.buildCommand, context);
+}
+
+// 清理构建文件的命令 (cleanCommand 设置，默认为 ninja -t clean)
+export function getCleanCommand(settings: BuildSettings, context: CommandTemplateContext): string {
+    return renderCommandTemplate(settings.cleanCommand, context);
+}
+
+// 跳过清理步骤的原因：未配置清理命令，或使用默认命令但项目尚未转换 (没有 build.ninja)
+export function getCleanSkipReason(settings: BuildSettings, projectDir: string): string | undefined {
+    if (!settings.cleanCommand.trim()) {
+        return '未配置清理命令';
+    }
+    if (settings.cleanCommand.trim() === DEFAULT_CLEAN_COMMAND && !fs.existsSync(path.join(projectDir, 'build.ninja'))) {
+        return '项目尚未转换 (没有 build.ninja)';
+    }
+    return undefined;
+}
+
+export interface ResolvedTarget {
+    target: string;
+    // 选择的目标在 .cbp 中不存在
+    missing: boolean;
+}
+
+// 项目使用的构建目标：用户选择的目标，否则为 .cbp 中的第一个目标
+export function resolveProjectTarget(cbpPath: string, selectedTarget: string | undefined): ResolvedTarget {
+    const model = loadCbpProject(cbpPath);
+    const targets = model ? getTargetNames(model) : [];
+
+    if (selectedTarget) {
+        return { target: selectedTarget, missing: !!model && !targets.includes(selectedTarget) };
+    }
+    return { target: targets[0] ?? '', missing: false };
+}
+
+// --- 检查 cbp2clangd 版本 ---
+export function checkCbp2clangVersion(cbp2clangPath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let version = '';
+        let error = '';
+
+        const options: cp.SpawnOptions = {
+            windowsHide: true,
+            shell: process.platform === 'win32' ? 'cmd.exe' : undefined
+        };
+
+        const child = cp.spawn(
+            process.platform === 'win32' ? 'cmd.exe' : cbp2clangPath,
+            process.platform === 'win32' ? ['/c', `${cbp2clangPath} -v`] : ['-v'],
+            options
+        );
+
+        if (child.stdout) {
+            child.stdout.on('data', (data: Buffer) => {
+                version += decodeBuffer(data);
+            });
+        }
+
+        if (child.stderr) {
+            child.stderr.on('data', (data: Buffer) => {
+                error += decodeBuffer(data);
+            });
+        }
+
+        child.on('close', (code: number) => {
+            if (code === 0) {
+                // 解析版本信息，格式：cbp2clangd v1.1.5
+                const versionMatch = version.match(/v([0-9]+\.[0-9]+\.[0-9]+)/);
+                if (versionMatch) {
+                    resolve(versionMatch[1]);
+                } else {
+                    resolve(version.trim());
+                }
+            } else {
+                reject(new Error(`Failed to check cbp2clangd version: ${error || `Exit code ${code}`}`));
+            }
+        });
+
+        child.on('error', (err: Error) => {
+            reject(new Error(`Failed to execute cbp2clangd: ${err.message}`));
+        });
+    });
+}
@@ -0,0 +1,272 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CbpCompilerSettings, CbpExtraCommands, CbpLinkerSettings, CbpProject, CbpTarget, CbpUnit } from '../models/CbpProject';
+import { decodeBuffer } from '../utils/CommonUtils';
+import { childElements, firstChildElement, parseXml, XmlElement } from '../utils/XmlParser';
+
+// --- Code::Blocks 项目文件解析 ---
+
+// 按 XML 声明中的 encoding 解码，仓库里同时存在 GBK 和 UTF-8 的项目文件
+export function decodeCbpContent(buffer: Buffer): string {
+    const head = buffer.subarray(0, 200).toString('latin1');
+    const encodingMatch = head.match(/<\?xml[^>]*encoding\s*=\s*["']([^"']+)["']/i);
+    const declared = encodingMatch?.[1].toLowerCase();
+
+    if (declared && /^(gbk|gb2312|gb18030|cp936)$/.test(declared)) {
+        const iconv = require('iconv-lite');
+        return iconv.decode(buffer, 'gbk');
+    }
+
+    // 未声明或声明为 UTF-8：先按 UTF-8 解码，出现乱码时回退到 GBK
+    return decodeBuffer(buffer).replace(/^\uFEFF/, '');
+}
+
+function emptyCompilerSettings(): CbpCompilerSettings {
+    return { options: [], includeDirs: [], defines: [] };
+}
+
+function emptyLinkerSettings(): CbpLinkerSettings {
+    return { options: [], libraries: [], libraryDirs: [] };
+}
+
+// 收集 <Option name="value" /> 为键值表
+function collectOptions(element: XmlElement): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const option of childElements(element, 'Option')) {
+        Object.assign(result, option.attributes);
+    }
+    return result;
+}
+
+function parseCompilerSettings(element: XmlElement | undefined): CbpCompilerSettings {
+    const settings = emptyCompilerSettings();
+    if (!element) {return settings;}
+
+    for (const add of childElements(element, 'Add')) {
+        if (add.attributes.option !== undefined) {
+            const option = add.attributes.option.trim();
+            settings.options.push(option);
+            if (option.startsWith('-D')) {
+                settings.defines.push(option.substring(2).trim());
+            }
+        }
+        if (add.attributes.directory !== undefined) {
+            settings.includeDirs.push(add.attributes.directory);
+        }
+    }
+    return settings;
+}
+
+function parseLinkerSettings(element: XmlElement | undefined): CbpLinkerSettings {
+    const settings = emptyLinkerSettings();
+    if (!element) {return settings;}
+
+    for (const add of childElements(element, 'Add')) {
+        if (add.attributes.option !== undefined) {
+            settings.options.push(add.attributes.option.trim());
+        }
+        if (add.attributes.library !== undefined) {
+            settings.libraries.push(add.attributes.library);
+        }
+        if (add.attributes.directory !== undefined) {
+            settings.libraryDirs.push(add.attributes.directory);
+        }
+    }
+    return settings;
+}
+
+function parseExtraCommands(element: XmlElement | undefined): CbpExtraCommands {
+    const commands: CbpExtraCommands = { before: [], after: [] };
+    if (!element) {return commands;}
+
+    for (const add of childElements(element, 'Add')) {
+        if (add.attributes.before !== undefined) {
+            commands.before.push(add.attributes.before);
+        }
+        if (add.attributes.after !== undefined) {
+            commands.after.push(add.attributes.after);
+        }
+    }
+    return commands;
+}
+
+function parseTarget(element: XmlElement): CbpTarget {
+    const options = collectOptions(element);
+    const outputOption = childElements(element, 'Option').find(o => o.attributes.output !== undefined);
+    const type = options.type !== undefined ? Number(options.type) : undefined;
+
+    return {
+        title: element.attributes.title ?? '',
+        output: options.output,
+        outputPrefixAuto: outputOption?.attributes.prefix_auto === '1',
+        outputExtensionAuto: outputOption?.attributes.extension_auto === '1',
+        objectOutput: options.object_output,
+        type: type !== undefined && !isNaN(type) ? type : undefined,
+        compiler: options.compiler,
+        compilerSettings: parseCompilerSettings(firstChildElement(element, 'Compiler')),
+        linkerSettings: parseLinkerSettings(firstChildElement(element, 'Linker')),
+        extraCommands: parseExtraCommands(firstChildElement(element, 'ExtraCommands'))
+    };
+}
+
+function parseUnit(element: XmlElement): CbpUnit {
+    const optionElements = childElements(element, 'Option');
+    const options = collectOptions(element);
+
+    return {
+        filename: element.attributes.filename ?? '',
+        // 一个 Unit 可能有多个 <Option target="..." />
+        targets: optionElements.filter(o => o.attributes.target !== undefined).map(o => o.attributes.target),
+        virtualFolder: options.virtualFolder,
+        compile: options.compile !== '0',
+        link: options.link !== '0'
+    };
+}
+
+// 解析 .cbp 文件内容；XML 格式错误或不是 Code::Blocks 项目时抛出异常
+export function parseCbpProject(content: string, fsPath: string): CbpProject {
+    const root = parseXml(content);
+    if (root.name !== 'CodeBlocks_project_file') {
+        throw new Error(`不是 Code::Blocks 项目文件: ${fsPath}`);
+    }
+
+    const projectElement = firstChildElement(root, 'Project');
+    if (!projectElement) {
+        throw new Error(`项目文件缺少 <Project> 节点: ${fsPath}`);
+    }
+
+    const options = collectOptions(projectElement);
+    const buildElement = firstChildElement(projectElement, 'Build');
+
+    return {
+        fsPath,
+        title: options.title ?? path.basename(fsPath, '.cbp'),
+        compiler: options.compiler,
+        targets: buildElement ? childElements(buildElement, 'Target').map(parseTarget) : [],
+        compilerSettings: parseCompilerSettings(firstChildElement(projectElement, 'Compiler')),
+        linkerSettings: parseLinkerSettings(firstChildElement(projectElement, 'Linker')),
+        extraCommands: parseExtraCommands(firstChildElement(projectElement, 'ExtraCommands')),
+        units: childElements(projectElement, 'Unit').map(parseUnit),
+        virtualFolders: (options.virtualFolders ?? '').split(';').filter(f => f.length > 0),
+        depends: childElements(projectElement, 'Depends')
+            .map(d => d.attributes.filename)
+            .filter((f): f is string => !!f)
+    };
+}
+
+// --- 带缓存的加载 (按文件修改时间失效) ---
+
+const projectCache = new Map<string, { mtimeMs: number; project: CbpProject }>();
+
+export function loadCbpProject(fsPath: string): CbpProject | null {
+    try {
+        const stat = fs.statSync(fsPath);
+        const cached = projectCache.get(fsPath);
+        if (cached && cached.mtimeMs === stat.mtimeMs) {
+            return cached.project;
+        }
+
+        const project = parseCbpProject(decodeCbpContent(fs.readFileSync(fsPath)), fsPath);
+        projectCache.set(fsPath, { mtimeMs: stat.mtimeMs, project });
+        return project;
+    } catch (error) {
+        console.error('[CbpProjectParser] Failed to load project:', fsPath, error);
+        projectCache.delete(fsPath);
+        return null;
+    }
+}
+
+// 清空缓存（用于测试）
+export function clearCbpProjectCache() {
+    projectCache.clear();
+}
+
+// --- 模型查询辅助函数 ---
+
+// 将项目文件中的相对路径解析为绝对路径（.cbp 中可能使用反斜杠）
+export function resolveProjectPath(project: CbpProject, relPath: string): string {
+    const normalized = relPath.replace(/\\/g, '/');
+    if (/^[a-zA-Z]:\//.test(normalized)) {
+        return path.normalize(normalized);
+    }
+    return path.resolve(path.dirname(project.fsPath), normalized);
+}
+
+// 目标输出文件的绝对路径，按 prefix_auto / extension_auto 补全 lib 前缀和扩展名
+export function getTargetOutputPath(project: CbpProject, target: CbpTarget): string | undefined {
+    if (!target.output) {return undefined;}
+
+    const output = target.output.replace(/\\/g, '/');
+    const dir = path.posix.dirname(output);
+    let name = path.posix.basename(output);
+    const isLibrary = target.type === 2 || target.type === 3;
+
+    if (target.outputPrefixAuto && isLibrary && !name.startsWith('lib')) {
+        name = `lib${name}`;
+    }
+    if (target.outputExtensionAuto && !path.posix.extname(name)) {
+        if (target.type === 2) {
+            name += '.a';
+        } else if (target.type === 3) {
+            name += process.platform === 'win32' ? '.dll' : '.so';
+        } else if (process.platform === 'win32') {
+            name += '.exe';
+        }
+    }
+
+    return resolveProjectPath(project, dir === '.' ? name : `${dir}/${name}`);
+}
+
+export function getTargetNames(project: CbpProject): string[] {
+    return project.targets.map(t => t.title);
+}
+
+export function findTarget(project: CbpProject, targetTitle?: string): CbpTarget | undefined {
+    if (!targetTitle) {return project.targets[0];}
+    return project.targets.find(t => t.title === targetTitle);
+}
+
+// 项目级与目标级设置合并后的编译设置（项目级在前，与 Code::Blocks 默认顺序一致）
+export function getEffectiveCompilerSettings(project: CbpProject, targetTitle?: string): CbpCompilerSettings {
+    const target = findTarget(project, targetTitle);
+    const targetSettings = target?.compilerSettings ?? emptyCompilerSettings();
+    return {
+        options: [...project.compilerSettings.options, ...targetSettings.options],
+        includeDirs: [...project.compilerSettings.includeDirs, ...targetSettings.includeDirs],
+        defines: [...project.compilerSettings.defines, ...targetSettings.defines]
+    };
+}
+
+export function getEffectiveLinkerSettings(project: CbpProject, targetTitle?: string): CbpLinkerSettings {
+    const target = findTarget(project, targetTitle);
+    const targetSettings = target?.linkerSettings ?? emptyLinkerSettings();
+    return {
+        options: [...project.linkerSettings.options, ...targetSettings.options],
+        libraries: [...project.linkerSettings.libraries, ...targetSettings.libraries],
+        libraryDirs: [...project.linkerSettings.libraryDirs, ...targetSettings.libraryDirs]
+    };
+}
+
+// 属于某个目标的源文件 (未指定目标的 Unit 属于全部目标)
+export function getUnitsForTarget(project: CbpProject, targetTitle?: string): CbpUnit[] {
+    const target = findTarget(project, targetTitle);
+    if (!target) {return project.units;}
+    return project.units.filter(u => u.targets.length === 0 || u.targets.includes(target.title));
+}
+
+function normalizeForCompare(p: string): string {
+    const normalized = path.normalize(p.replace(/\\/g, '/'));
+    return process.platform === 'win32' ? normalized.toLowerCase() : normalized;
+}
+
+export function projectContainsFile(project: CbpProject, filePath: string): boolean {
+    const target = normalizeForCompare(filePath);
+    return project.units.some(u => normalizeForCompare(resolveProjectPath(project, u.filename)) === target);
+}
+
+// 查找包含指定文件的所有项目
+export function findProjectsForFile(filePath: string, cbpPaths: string[]): CbpProject[] {
+    return cbpPaths
+        .map(p => loadCbpProject(p))
+        .filter((p): p is CbpProject => p !== null && projectContainsFile(p, filePath));
+}
@@ -0,0 +1,239 @@
+import * as cp from 'child_process';
+import { decodeBuffer, OutputLineBuffer } from '../utils/CommonUtils';
+
+// --- 命令执行 (不依赖 VS Code) ---
+// 构建终端和命令行 (cbp-build run) 共用：启动 shell 命令、逐行回调输出、取消时结束整个进程树
+
+// 构建被用户取消时抛出，用于与普通失败区分
+export class BuildCancelledError extends Error {
+    constructor() {
+        super('构建已取消');
+        this.name = 'BuildCancelledError';
+    }
+}
+
+// 命令以非零退出码结束或被信号结束时抛出 (被信号结束时 exitCode 为 null)
+export class CommandFailedError extends Error {
+    constructor(public readonly exitCode: number | null, public readonly signal: NodeJS.Signals | null = null) {
+        super(exitCode === null && signal ? `Killed by signal ${signal}` : `Exit code ${exitCode}`);
+        this.name = 'CommandFailedError';
+    }
+}
+
+// timeout: 超过步骤时限；stalled: 长时间没有输出，被用户结束
+export type CommandTimeoutReason = 'timeout' | 'stalled';
+
+// 命令超时或长时间没有输出而被结束时抛出，与普通失败区分
+export class CommandTimeoutError extends Error {
+    constructor(public readonly reason: CommandTimeoutReason, public readonly seconds: number) {
+        super(reason === 'timeout' ? `超过 ${seconds} 秒未完成，已结束` : `${seconds} 秒没有输出，已结束`);
+        this.name = 'CommandTimeoutError';
+    }
+}
+
+// 取消令牌，与 vscode.CancellationToken 结构兼容
+export interface CancellationSignal {
+    readonly isCancellationRequested: boolean;
+    onCancellationRequested(listener: () => void): { dispose(): void };
+}
+
+// 命令行使用的取消令牌 (扩展中使用 vscode.CancellationTokenSource)
+export class CancellationController implements CancellationSignal {
+    private cancelled = false;
+    private listeners = new Set<() => void>();
+
+    get isCancellationRequested(): boolean {
+        return this.cancelled;
+    }
+
+    onCancellationRequested(listener: () => void): { dispose(): void } {
+        this.listeners.add(listener);
+        return { dispose: () => this.listeners.delete(listener) };
+    }
+
+    cancel() {
+        if (this.cancelled) {return;}
+        this.cancelled = true;
+        Array.from(this.listeners).forEach(listener => listener());
+    }
+}
+
+export interface SpawnCommandOptions {
+    // 命令的环境变量，默认为 process.env
+    env?: NodeJS.ProcessEnv;
+    // 取消时结束整个进程树并以 BuildCancelledError 拒绝
+    token?: CancellationSignal;
+    // 启动前回调实际显示的命令 (Windows 下去除外层引号)
+    onStart?: (displayCmd: string) => void;
+    // 每一行原始输出 (stdout 与 stderr 合并)
+    onLine?: (line: string) => void;
+    // 超过该时间 (毫秒) 仍未结束时结束进程树并以 CommandTimeoutError 拒绝，0 或未设置时不限
+    timeoutMs?: number;
+    // 连续该时间 (毫秒) 没有输出时调用 onStall，0 或未设置时不检测
+    stallMs?: number;
+    // 返回 true 时结束进程树并以 CommandTimeoutError 拒绝，否则继续等待并重新计时
+    onStall?: (silentMs: number) => boolean | Promise<boolean>;
+}
+
+// 结束进程及其所有子进程 (build.bat -> ninja -> 编译器)
+export function killProcessTree(child: cp.ChildProcess): void {
+    if (child.pid === undefined || child.exitCode !== null) {return;}
+
+    if (process.platform === 'win32') {
+        cp.spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { windowsHide: true });
+        return;
+    }
+
+    try {
+        // 非 Windows 下子进程以 detached 启动，是独立进程组的组长
+        process.kill(-child.pid, 'SIGTERM');
+    } catch {
+        child.kill('SIGTERM');
+    }
+}
+
+// 在 cwd 中执行命令：成功时完成，非零退出码时以 CommandFailedError 拒绝，取消时以 BuildCancelledError 拒绝
+export function spawnCommand(cmd: string, cwd: string | undefined, options: SpawnCommandOptions = {}): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (options.token?.isCancellationRequested) {
+            reject(new BuildCancelledError());
+            return;
+        }
+
+        let actualCmd = cmd.replace(/\u00A0/g, ' ').trim();
+
+        // 构造 Windows 兼容的 Spawn 参数
+        let spawnCmd = actualCmd;
+        let spawnArgs: string[] = [];
+        const spawnOptions: cp.SpawnOptions = {
+            cwd,
+            env: {
+                ...(options.env ?? process.env),
+                PYTHONUNBUFFERED: '1',
+                CLICOLOR_FORCE: '1',
+                FORCE_COLOR: '1',
+                ANSICON: '1'
+            },
+            stdio: ['pipe', 'pipe', 'pipe']
+        };
+
+        if (process.platform === 'win32') {
+            if (actualCmd.startsWith('./')) {
+                actualCmd = actualCmd.replace('./', '.\\');
+            }
+            if (actualCmd.includes('"')) {
+                actualCmd = `"${actualCmd}"`;
+            }
+
+            spawnCmd = 'cmd.exe';
+            spawnArgs = ['/d', '/c', actualCmd];
+
+            spawnOptions.shell = false;
+            spawnOptions.windowsVerbatimArguments = true;
+            spawnOptions.windowsHide = true;
+        } else {
+            spawnOptions.shell = true;
+            spawnOptions.windowsHide = true;
+            // 独立进程组，便于取消时结束整个进程树
+            spawnOptions.detached = true;
+        }
+
+        // 显示启动命令
+        let displayCmd = actualCmd;
+        if (process.platform === 'win32' && displayCmd.length > 2 && displayCmd.startsWith('"') && displayCmd.endsWith('"')) {
+            displayCmd = displayCmd.slice(1, -1);
+        }
+        options.onStart?.(displayCmd);
+
+        const child = cp.spawn(spawnCmd, spawnArgs, spawnOptions);
+
+        let cancelled = false;
+        let timedOut: CommandTimeoutError | null = null;
+        let exited = false;
+        const cancelListener = options.token?.onCancellationRequested(() => {
+            cancelled = true;
+            killProcessTree(child);
+        });
+
+        const kill = (error: CommandTimeoutError) => {
+            if (exited || cancelled || timedOut) {return;}
+            timedOut = error;
+            killProcessTree(child);
+        };
+
+        // 步骤时限
+        const timeoutTimer = options.timeoutMs
+            ? setTimeout(() => kill(new CommandTimeoutError('timeout', Math.round(options.timeoutMs! / 1000))), options.timeoutMs)
+            : undefined;
+
+        // 无输出监视：询问期间不重复计时，选择继续等待后重新开始计时 (报告的时长从最后一次输出算起)
+        let lastOutput = Date.now();
+        let lastPrompt = 0;
+        let stallTimer: NodeJS.Timeout | undefined;
+        const armStallTimer = () => {
+            if (!options.stallMs || exited) {return;}
+            const stallMs = options.stallMs;
+            stallTimer = setTimeout(async () => {
+                stallTimer = undefined;
+                if (Date.now() - Math.max(lastOutput, lastPrompt) < stallMs) {
+                    armStallTimer();
+                    return;
+                }
+                const promptedAt = Date.now();
+                const silentMs = promptedAt - lastOutput;
+                let shouldKill = false;
+                try {
+                    shouldKill = await (options.onStall?.(silentMs) ?? false);
+                } catch {
+                    shouldKill = false;
+                }
+                // 询问期间恢复了输出时忽略"结束"，进程已在继续工作
+                if (shouldKill && lastOutput <= promptedAt) {
+                    kill(new CommandTimeoutError('stalled', Math.round((Date.now() - lastOutput) / 1000)));
+                } else {
+                    lastPrompt = Date.now();
+                    armStallTimer();
+                }
+            }, Math.max(0, Math.max(lastOutput, lastPrompt) + stallMs - Date.now()));
+        };
+        armStallTimer();
+
+        const clearTimers = () => {
+            exited = true;
+            clearTimeout(timeoutTimer);
+            clearTimeout(stallTimer);
+        };
+
+        // stdout 和 stderr 走同样的行缓冲，防止输出被切断
+        const lineBuffer = new OutputLineBuffer(line => options.onLine?.(line));
+        const onData = (data: Buffer) => {
+            lastOutput = Date.now();
+            lineBuffer.append(decodeBuffer(data));
+        };
+        child.stdout?.on('data', onData);
+        child.stderr?.on('data', onData);
+
+        child.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
+            cancelListener?.dispose();
+            clearTimers();
+            // 确保缓冲区最后的内容被处理
+            lineBuffer.flush();
+
+            if (cancelled) {
+                reject(new BuildCancelledError());
+            } else if (timedOut) {
+                reject(timedOut);
+            } else if (code === 0) {
+                resolve();
+            } else {
+                reject(new CommandFailedError(code, signal));
+            }
+        });
+
+        child.on('error', (err: Error) => {
+            cancelListener?.dispose();
+            clearTimers();
+            reject(err);
+        });
+    });
+}
@@ -0,0 +1,157 @@
+import { Environment } from './BuildEnvironment';
+
+// --- 命令模板 (不依赖 VS Code) ---
+// 展开 {name}、${env:VAR}、${config:section.key}，按所在 shell 的规则为替换的值加引号
+// {{ 与 }} 输出原样的 { 和 }
+
+// 命令在 Windows 下由 cmd.exe 执行，其它平台由 /bin/sh 执行
+export type ShellKind = 'cmd' | 'posix';
+
+// 读取 ${config:...} 引用的设置，未设置时为 undefined
+export type ConfigReader = (key: string) => unknown;
+
+export interface CommandTemplateContext {
+    // {name} 变量
+    variables: Record<string, string>;
+    // ${env:VAR} 使用的环境变量，默认为 process.env
+    env?: Environment;
+    // 未提供时 ${config:...} 按未知变量处理
+    config?: ConfigReader;
+    // 默认按当前平台
+    shell?: ShellKind;
+}
+
+// 模板中有未知变量或无法使用的设置值
+export class CommandTemplateError extends Error {
+    constructor(message: string, public readonly template: string) {
+        super(`${message} (命令模板: ${template})`);
+        this.name = 'CommandTemplateError';
+    }
+}
+
+export function getDefaultShell(): ShellKind {
+    return process.platform === 'win32' ? 'cmd' : 'posix';
+}
+
+// 不需要加引号的字符 (路径中常见的 ASCII 字符)；中文等非 ASCII 字符一律加引号
+const SAFE_ARGUMENT = {
+    posix: /^[\w@%+=:,./-]+$/,
+    cmd: /^[\w@+=:,./\\-]+$/
+};
+
+// cmd.exe 在双引号内同样展开 %VAR% (开启延迟展开时还有 !VAR!)，且引号内无法转义；
+// 单独的 % 或 ! 不构成引用，可以原样传递
+const CMD_EXPANSION = /%[^%]+%|![^!]+!/;
+
+function getCmdExpansion(value: string, shell: ShellKind): string | undefined {
+    return shell === 'cmd' ? CMD_EXPANSION.exec(value)?.[0] : undefined;
+}
+
+function describeCmdExpansion(value: string, reference: string): string {
+    return `"${value}" 中的 ${reference} 会被 cmd.exe 当作环境变量展开`;
+}
+
+// 将值作为单个 shell 参数，需要时加引号；值会被 cmd.exe 展开时抛出异常
+export function quoteShellArgument(value: string, shell: ShellKind = getDefaultShell()): string {
+    const reference = getCmdExpansion(value, shell);
+    if (reference) {
+        throw new Error(describeCmdExpansion(value, reference));
+    }
+    if (SAFE_ARGUMENT[shell].test(value)) {return value;}
+    if (shell === 'posix') {
+        return `'${value.replace(/'/g, `'\\''`)}'`;
+    }
+    // cmd.exe 中引号内的 " 写成 ""
+    return `"${value.replace(/"/g, '""')}"`;
+}
+
+// 模板自身已在引号中时，只转义该引号内有特殊含义的字符
+function escapeInQuotes(value: string, quote: '"' | '\'', shell: ShellKind): string {
+    if (quote === '\'') {
+        return value.replace(/'/g, `'\\''`);
+    }
+    return shell === 'posix' ? value.replace(/["\\$`]/g, '\\$&') : value.replace(/"/g, '""');
+}
+
+const PLACEHOLDER = /\$\{(env|config):([^}]*)\}|\{(\w+)\}/y;
+
+function resolvePlaceholder(match: RegExpExecArray, template: string, context: CommandTemplateContext): string {
+    const [text, scope, key, name] = match;
+
+    if (name !== undefined) {
+        if (!Object.prototype.hasOwnProperty.call(context.variables, name)) {
+            const known = Object.keys(context.variables).map(v => `{${v}}`).join('、');
+            throw new CommandTemplateError(`未知变量 ${text}，可用的变量: ${known}；如需原样输出请写成 {${text}}`, template);
+        }
+        return context.variables[name];
+    }
+
+    if (!key) {
+        throw new CommandTemplateError(`变量 ${text} 缺少名称`, template);
+    }
+
+    if (scope === 'env') {
+        const env = context.env ?? process.env;
+        // Windows 环境变量名不区分大小写
+        const envKey = process.platform === 'win32'
+            ? Object.keys(env).find(k => k.toUpperCase() === key.toUpperCase()) ?? key
+            : key;
+        return env[envKey] ?? '';
+    }
+
+    if (!context.config) {
+        throw new CommandTemplateError(`此处不支持 ${text}`, template);
+    }
+    const value = context.config(key);
+    if (value === undefined || value === null) {
+        throw new CommandTemplateError(`设置 ${key} 未配置`, template);
+    }
+    if (typeof value === 'object') {
+        throw new CommandTemplateError(`设置 ${key} 不是字符串、数字或布尔值`, template);
+    }
+    return String(value);
+}
+
+// 展开命令模板：替换所有变量，值按所在位置 (引号外/双引号内/单引号内) 转义
+export function renderCommandTemplate(template: string, context: CommandTemplateContext): string {
+    const shell = context.shell ?? getDefaultShell();
+    let result = '';
+    let quote: '"' | '\'' | null = null;
+
+    for (let i = 0; i < template.length;) {
+        if (template.startsWith('{{', i) || template.startsWith('}}', i)) {
+            result += template[i];
+            i += 2;
+            continue;
+        }
+
+        PLACEHOLDER.lastIndex = i;
+        const match = PLACEHOLDER.exec(template);
+        if (match) {
+            const value = resolvePlaceholder(match, template, context);
+            const reference = getCmdExpansion(value, shell);
+            if (reference) {
+                throw new CommandTemplateError(`变量 ${match[0]} 的值${describeCmdExpansion(value, reference)}`, template);
+            }
+            result += quote ? escapeInQuotes(value, quote, shell) : quoteShellArgument(value, shell);
+            i += match[0].length;
+            continue;
+        }
+
+        const ch = template[i];
+        // POSIX shell 中引号外和双引号内的反斜杠转义下一个字符
+        if (ch === '\\' && shell === 'posix' && quote !== '\'' && i + 1 < template.length) {
+            result += template.slice(i, i + 2);
+            i += 2;
+            continue;
+        }
+        if (ch === '"' && quote !== '\'') {
+            quote = quote ? null : '"';
+        } else if (ch === '\'' && shell === 'posix' && quote !== '"') {
+            quote = quote ? null : '\'';
+        }
+        result += ch;
+        i++;
+    }
+    return result;
+}
@@ -0,0 +1,80 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ShellKind, getDefaultShell, quoteShellArgument } from './CommandTemplate';
+
+// --- compile_commands.json 查询 (单文件编译) ---
+
+export interface CompileCommandEntry {
+    directory: string;
+    file: string;
+    command?: string;
+    arguments?: string[];
+    output?: string;
+}
+
+export interface CompileCommandMatch {
+    // 所在的 compile_commands.json
+    database: string;
+    entry: CompileCommandEntry;
+}
+
+function normalizeForCompare(p: string): string {
+    const normalized = path.normalize(p.replace(/\\/g, '/'));
+    return process.platform === 'win32' ? normalized.toLowerCase() : normalized;
+}
+
+// --- 带缓存的加载 (按文件修改时间失效) ---
+
+const databaseCache = new Map<string, { mtimeMs: number; entries: CompileCommandEntry[] }>();
+
+export function loadCompileCommands(databasePath: string): CompileCommandEntry[] {
+    try {
+        const stat = fs.statSync(databasePath);
+        const cached = databaseCache.get(databasePath);
+        if (cached && cached.mtimeMs === stat.mtimeMs) {
+            return cached.entries;
+        }
+
+        const content = fs.readFileSync(databasePath, 'utf-8').replace(/^\uFEFF/, '');
+        const parsed = JSON.parse(content);
+        const entries: CompileCommandEntry[] = Array.isArray(parsed)
+            ? parsed.filter(e => e && typeof e.file === 'string' && typeof e.directory === 'string')
+            : [];
+        databaseCache.set(databasePath, { mtimeMs: stat.mtimeMs, entries });
+        return entries;
+    } catch (error) {
+        console.error('[CompileCommandsLookup] Failed to load compile commands:', databasePath, error);
+        databaseCache.delete(databasePath);
+        return [];
+    }
+}
+
+// 清空缓存（用于测试）
+export function clearCompileCommandsCache() {
+    databaseCache.clear();
+}
+
+// 条目对应源文件的绝对路径 (file 可能相对 directory)
+export function getEntryFilePath(entry: CompileCommandEntry): string {
+    return path.resolve(entry.directory, entry.file);
+}
+
+export function findCompileCommand(entries: CompileCommandEntry[], filePath: string): CompileCommandEntry | undefined {
+    const target = normalizeForCompare(filePath);
+    return entries.find(e => normalizeForCompare(getEntryFilePath(e)) === target);
+}
+
+// 在多个编译数据库中查找文件，每个数据库最多返回一个条目
+export function findCompileCommandsForFile(filePath: string, databases: string[]): CompileCommandMatch[] {
+    return databases
+        .map(database => ({ database, entry: findCompileCommand(loadCompileCommands(database), filePath) }))
+        .filter((m): m is CompileCommandMatch => m.entry !== undefined);
+}
+
+// 条目中的编译命令：优先使用 command，否则按执行命令的 shell 规则拼接 arguments
+export function getEntryCommand(entry: CompileCommandEntry, shell: ShellKind = getDefaultShell()): string {
+    if (entry.command) {
+        return entry.command;
+    }
+    return (entry.arguments ?? []).map(arg => quoteShellArgument(arg, shell)).join(' ');
+}
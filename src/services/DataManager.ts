@@ -3,9 +3,24 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { CbpProjectItem } from '../models/items';
 import { CompileCommandsItem } from '../models/CompileCommandsItem';
+import {
+    DEFAULT_PROFILE_NAME, QueueProfileState, QueueState, emptyProfile, extractChipName, filterQueueState, findWorkspaceFolder,
+    getQueueStateFilePath, hasQueueEntries, mergeQueueStates, readQueueState, writeQueueState
+} from './QueueState';
+
+export { DEFAULT_PROFILE_NAME, QueueProfileState } from './QueueState';
 
 // --- 数据管理器 (核心逻辑) ---
 
+// 多根工作区中跨文件夹的队列顺序 (各文件夹的状态文件只保存自己的项目)
+const QUEUE_ORDER_KEY = 'cbpBuildManager.queueOrder';
+
+// 工作区文件夹及其状态文件；folder 为 null 时 (测试) 该文件保存所有项目
+interface StateFile {
+    folder: string | null;
+    filePath: string;
+}
+
 export class CbpDataManager {
     // 上方：有序的构建队列
     private buildQueue: CbpProjectItem[] = [];
@@ -20,8 +35,13 @@ export class CbpDataManager {
     // 芯片系列筛选
     private chipFilter: string | null = null; // null 表示显示全部
 
-    // 持久化文件路径
-    private stateFilePath: string | null = null;
+    // 队列配置：buildQueue / chipFilter 为当前配置的状态，其它配置以序列化形式保存
+    private profiles = new Map<string, QueueProfileState>([[DEFAULT_PROFILE_NAME, emptyProfile()]]);
+    private activeProfile = DEFAULT_PROFILE_NAME;
+
+    // 持久化文件：每个工作区文件夹一个，第一个为主文件夹
+    private stateFiles: StateFile[] = [];
+    private workspaceState: vscode.Memento | undefined;
 
     private _onDidChangeTreeData = new vscode.EventEmitter<void>();
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
@@ -29,49 +49,59 @@ export class CbpDataManager {
     constructor() {}
 
     setContext(context: vscode.ExtensionContext) {
-        // 设置工作区状态文件路径
-        const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-        if (workspacePath) {
-            this.stateFilePath = path.join(workspacePath, '.cbp-build', 'queue.json');
-        }
+        this.workspaceState = context.workspaceState;
+        this.reloadWorkspaceFolders();
+    }
+
+    // 工作区文件夹变化后重新确定各文件夹的状态文件并重新加载
+    reloadWorkspaceFolders() {
+        this.stateFiles = (vscode.workspace.workspaceFolders ?? []).map(folder => ({
+            folder: folder.uri.fsPath,
+            filePath: getQueueStateFilePath(folder.uri.fsPath)
+        }));
         this.loadState();
     }
 
-    // 获取持久化文件目录
-    private getStateDir(): string | null {
-        if (!this.stateFilePath) {return null;}
-        return path.dirname(this.stateFilePath);
+    // 工作区文件夹路径 (按工作区中的顺序)
+    getWorkspaceFolders(): string[] {
+        return this.stateFiles.map(f => f.folder).filter((folder): folder is string => folder !== null);
+    }
+
+    // 路径所属的工作区文件夹，不在任何文件夹中时为 undefined
+    getWorkspaceFolder(fsPath: string): string | undefined {
+        return findWorkspaceFolder(fsPath, this.getWorkspaceFolders());
+    }
+
+    // 获取持久化文件目录：指定路径时为其所属文件夹的目录，否则 (或路径不在任何文件夹中) 为主文件夹的目录
+    getStateDir(fsPath?: string): string | null {
+        const stateFile = fsPath ? this.getOwningStateFile(fsPath) : this.stateFiles[0];
+        return stateFile ? path.dirname(stateFile.filePath) : null;
+    }
+
+    private getOwningStateFile(fsPath: string): StateFile | undefined {
+        const folder = this.getWorkspaceFolder(fsPath);
+        return this.stateFiles.find(f => f.folder === folder) ?? this.stateFiles[0];
     }
 
     // 加载状态
     private loadState() {
-        if (!this.stateFilePath) {return;}
+        if (this.stateFiles.length === 0) {return;}
 
         try {
-            if (!fs.existsSync(this.stateFilePath)) {return;}
-
-            const content = fs.readFileSync(this.stateFilePath, 'utf-8');
-            const state = JSON.parse(content);
-
-            // 加载构建队列
-            const savedQueuePaths: string[] = state.queuePaths || [];
-            const savedCheckState: Record<string, boolean> = state.checkState || {};
+            const state = mergeQueueStates(this.stateFiles
+                .map(f => readQueueState(f.filePath))
+                .filter((s): s is QueueState => s !== null));
+            if (!state) {return;}
+            this.restoreQueueOrder(state);
 
-            // 重建对象
-            this.buildQueue = savedQueuePaths.map(fsPath => {
-                // 检查文件是否仍存在
-                if (!fs.existsSync(fsPath)) {return null;}
-                const name = path.basename(fsPath, '.cbp');
-                const isChecked = savedCheckState[fsPath] ?? true;
-                return new CbpProjectItem(name, fsPath, isChecked, vscode.TreeItemCollapsibleState.None, true);
-            }).filter((item): item is CbpProjectItem => item !== null);
+            // 加载队列配置
+            this.profiles = state.profiles;
+            this.activeProfile = state.activeProfile;
+            this.applyProfile(this.profiles.get(this.activeProfile)!);
 
             // 加载编译数据库勾选状态和顺序
-            this.compileCommandsCheckState = state.compileCommandsCheckState || {};
-            this.compileCommandsOrder = state.compileCommandsOrder || [];
-
-            // 加载芯片筛选状态
-            this.chipFilter = state.chipFilter ?? null;
+            this.compileCommandsCheckState = state.compileCommandsCheckState;
+            this.compileCommandsOrder = state.compileCommandsOrder;
         } catch (error) {
             // 读取失败时使用空状态
             console.error('[CbpDataManager] Failed to load state:', error);
@@ -79,34 +109,170 @@ export class CbpDataManager {
     }
 
     protected saveState() {
-        if (!this.stateFilePath) {return;}
+        if (this.stateFiles.length === 0) {return;}
 
         try {
-            // 确保目录存在
-            const dir = this.getStateDir();
-            if (dir && !fs.existsSync(dir)) {
-                fs.mkdirSync(dir, { recursive: true });
-            }
-
-            // 保存队列顺序和勾选状态
-            const queuePaths = this.buildQueue.map(p => p.fsPath);
-            const checkState: Record<string, boolean> = {};
-            this.buildQueue.forEach(p => checkState[p.fsPath] = (p.checkboxState === vscode.TreeItemCheckboxState.Checked));
-
-            const state = {
-                queuePaths,
-                checkState,
-                chipFilter: this.chipFilter,
+            this.profiles.set(this.activeProfile, this.captureProfile());
+            const state: QueueState = {
+                profiles: this.profiles,
+                activeProfile: this.activeProfile,
                 compileCommandsCheckState: this.compileCommandsCheckState,
                 compileCommandsOrder: this.compileCommandsOrder
             };
 
-            fs.writeFileSync(this.stateFilePath, JSON.stringify(state, null, 2), 'utf-8');
+            if (this.stateFiles.length === 1) {
+                writeQueueState(this.stateFiles[0].filePath, state);
+                return;
+            }
+
+            // 每个文件夹只保存自己的项目；没有项目的文件夹不创建状态文件 (主文件夹除外)
+            this.stateFiles.forEach((stateFile, index) => {
+                const owned = filterQueueState(state, fsPath => this.getOwningStateFile(fsPath) === stateFile);
+                if (index > 0 && !hasQueueEntries(owned) && !fs.existsSync(stateFile.filePath)) {return;}
+                writeQueueState(stateFile.filePath, owned);
+            });
+            this.workspaceState?.update(QUEUE_ORDER_KEY, Object.fromEntries(
+                Array.from(this.profiles, ([name, profile]) => [name, profile.queuePaths])
+            ));
         } catch (error) {
             console.error('[CbpDataManager] Failed to save state:', error);
         }
     }
 
+    // 多根工作区：按上次保存的顺序恢复跨文件夹的队列 (合并后默认按文件夹分组)
+    private restoreQueueOrder(state: QueueState) {
+        if (this.stateFiles.length < 2) {return;}
+        const orders = this.workspaceState?.get<Record<string, string[]>>(QUEUE_ORDER_KEY) ?? {};
+
+        state.profiles.forEach((profile, name) => {
+            const order = orders[name];
+            if (!order) {return;}
+            const index = new Map(order.map((p, i) => [p, i]));
+            profile.queuePaths.sort((a, b) => (index.get(a) ?? order.length) - (index.get(b) ?? order.length));
+        });
+    }
+
+    // 当前队列状态序列化为配置
+    private captureProfile(): QueueProfileState {
+        const checkState: Record<string, boolean> = {};
+        const targets: Record<string, string> = {};
+        this.buildQueue.forEach(p => {
+            checkState[p.fsPath] = (p.checkboxState === vscode.TreeItemCheckboxState.Checked);
+            // 各项目选中的构建目标
+            if (p.selectedTarget) {
+                targets[p.fsPath] = p.selectedTarget;
+            }
+        });
+
+        return {
+            queuePaths: this.buildQueue.map(p => p.fsPath),
+            checkState,
+            targets,
+            chipFilter: this.chipFilter
+        };
+    }
+
+    // 从配置重建队列对象 (跳过已不存在的项目文件)
+    private applyProfile(profile: QueueProfileState) {
+        this.buildQueue = profile.queuePaths.map(fsPath => {
+            if (!fs.existsSync(fsPath)) {return null;}
+            const name = path.basename(fsPath, '.cbp');
+            const isChecked = profile.checkState[fsPath] ?? true;
+            const item = new CbpProjectItem(name, fsPath, isChecked, vscode.TreeItemCollapsibleState.None, true);
+            item.setSelectedTarget(profile.targets[fsPath]);
+            return item;
+        }).filter((item): item is CbpProjectItem => item !== null);
+        this.chipFilter = profile.chipFilter ?? null;
+    }
+
+    // --- 队列配置管理 ---
+
+    getProfileNames(): string[] {
+        return Array.from(this.profiles.keys());
+    }
+
+    getActiveProfile(): string {
+        return this.activeProfile;
+    }
+
+    hasProfile(name: string): boolean {
+        return this.profiles.has(name);
+    }
+
+    // 切换到指定配置，切换前保存当前配置
+    switchProfile(name: string) {
+        const profile = this.profiles.get(name);
+        if (!profile || name === this.activeProfile) {return;}
+
+        this.profiles.set(this.activeProfile, this.captureProfile());
+        this.activeProfile = name;
+        this.applyProfile(profile);
+        this.saveState();
+        this._onDidChangeTreeData.fire();
+    }
+
+    // 新建空配置并切换过去
+    createProfile(name: string) {
+        this.assertNewProfileName(name);
+        this.profiles.set(name, emptyProfile());
+        this.switchProfile(name);
+    }
+
+    // 复制配置 (默认为当前配置) 并切换到副本
+    duplicateProfile(name: string, source: string = this.activeProfile) {
+        this.assertNewProfileName(name);
+        const state = source === this.activeProfile ? this.captureProfile() : this.profiles.get(source);
+        if (!state) {
+            throw new Error(`配置 "${source}" 不存在`);
+        }
+        this.profiles.set(name, JSON.parse(JSON.stringify(state)));
+        this.switchProfile(name);
+    }
+
+    renameProfile(oldName: string, newName: string) {
+        if (!this.profiles.has(oldName)) {
+            throw new Error(`配置 "${oldName}" 不存在`);
+        }
+        if (oldName === newName) {return;}
+        this.assertNewProfileName(newName);
+
+        // 保持配置的原有顺序
+        const state = oldName === this.activeProfile ? this.captureProfile() : this.profiles.get(oldName)!;
+        this.profiles = new Map(Array.from(this.profiles.entries()).map(([name, profile]) =>
+            name === oldName ? [newName, state] : [name, profile]
+        ));
+        if (this.activeProfile === oldName) {
+            this.activeProfile = newName;
+        }
+        this.saveState();
+        this._onDidChangeTreeData.fire();
+    }
+
+    // 删除配置；至少保留一个，删除当前配置时切换到第一个剩余配置
+    deleteProfile(name: string) {
+        if (!this.profiles.has(name)) {return;}
+        if (this.profiles.size <= 1) {
+            throw new Error('至少需要保留一个队列配置');
+        }
+
+        this.profiles.delete(name);
+        if (name === this.activeProfile) {
+            this.activeProfile = this.profiles.keys().next().value!;
+            this.applyProfile(this.profiles.get(this.activeProfile)!);
+        }
+        this.saveState();
+        this._onDidChangeTreeData.fire();
+    }
+
+    private assertNewProfileName(name: string) {
+        if (!name.trim()) {
+            throw new Error('配置名称不能为空');
+        }
+        if (this.profiles.has(name)) {
+            throw new Error(`配置 "${name}" 已存在`);
+        }
+    }
+
     // --- 业务逻辑 ---
 
     // 扫描工作区
@@ -118,8 +284,7 @@ export class CbpDataManager {
 
     // 扫描 compile_commands.json 文件
     async scanCompileCommands() {
-        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-        if (!workspaceRoot) { return; }
+        if (!vscode.workspace.workspaceFolders?.length) { return; }
 
         const files = await vscode.workspace.findFiles(
             '**/compile_commands.json',
@@ -142,7 +307,8 @@ export class CbpDataManager {
         const orderMap = new Map(this.compileCommandsOrder.map((p, i) => [p, i]));
         this.compileCommandsItems = files
             .map(f => {
-                const relativePath = path.relative(workspaceRoot, f.fsPath);
+                // 多根工作区中带上文件夹名称
+                const relativePath = vscode.workspace.asRelativePath(f, true);
                 const isChecked = this.compileCommandsCheckState[f.fsPath] ?? false;
                 return new CompileCommandsItem(relativePath, f.fsPath, isChecked);
             })
@@ -211,15 +377,9 @@ export class CbpDataManager {
         return !chipName || chipName === this.chipFilter;
     }
 
-    // 从项目路径中提取芯片名称
-    private extractChipName(projectPath: string): string | null {
-        const parts = projectPath.split(path.sep);
-        // 查找 project 文件夹后的第一个文件夹名
-        const projectIndex = parts.findIndex(p => p === 'project');
-        if (projectIndex !== -1 && projectIndex < parts.length - 1) {
-            return parts[projectIndex + 1];
-        }
-        return null;
+    // 从项目路径中提取芯片名称 (project 目录后的第一级目录)
+    extractChipName(projectPath: string): string | null {
+        return extractChipName(projectPath);
     }
 
     // 获取所有可用的芯片系列
@@ -295,6 +455,37 @@ export class CbpDataManager {
         this._onDidChangeTreeData.fire();
     }
 
+    // 按给定的路径顺序重排队列 (依赖排序)，未列出的项目保持原顺序追加到末尾
+    setQueueOrder(orderedPaths: string[]) {
+        const index = new Map(orderedPaths.map((p, i) => [p, i]));
+        const listed = this.buildQueue.filter(p => index.has(p.fsPath))
+            .sort((a, b) => index.get(a.fsPath)! - index.get(b.fsPath)!);
+        const unlisted = this.buildQueue.filter(p => !index.has(p.fsPath));
+
+        this.buildQueue = [...listed, ...unlisted];
+        this.saveState();
+        this._onDidChangeTreeData.fire();
+    }
+
+    // 设置项目的构建目标 (undefined 表示使用默认目标)
+    setProjectTarget(item: CbpProjectItem, target: string | undefined) {
+        const queued = this.buildQueue.find(p => p.fsPath === item.fsPath);
+        if (!queued) {return;}
+        queued.setSelectedTarget(target);
+        this.saveState();
+        this._onDidChangeTreeData.fire();
+    }
+
+    // 更新队列项目的"已是最新"标记：本次处理过的项目先清除，再标记无需构建的项目
+    setUpToDateProjects(processedPaths: string[], upToDatePaths: string[]) {
+        const upToDate = new Set(upToDatePaths);
+        const processed = new Set(processedPaths);
+        this.buildQueue
+            .filter(p => processed.has(p.fsPath))
+            .forEach(p => p.setUpToDate(upToDate.has(p.fsPath)));
+        this._onDidChangeTreeData.fire();
+    }
+
     // 更新 Checkbox
     updateCheckState(item: CbpProjectItem, state: vscode.TreeItemCheckboxState) {
         item.checkboxState = state;
@@ -319,7 +510,7 @@ export class CbpDataManager {
 
     // 设置状态文件路径（用于测试）
     setStateFilePath(filePath: string) {
-        this.stateFilePath = filePath;
+        this.stateFiles = [{ folder: null, filePath }];
     }
 
     // 重新加载状态（用于测试）
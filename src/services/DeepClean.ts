@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadCbpProject, resolveProjectPath } from './CbpProjectParser';
+import { getProjectCompileCommandsPath } from './AffectedProjects';
+import { findPathsByPattern } from '../utils/PathPattern';
+
+// --- 深度清理 (不依赖 VS Code) ---
+// 删除转换生成的 build.ninja、目标的目标文件目录、项目的 compile_commands.json 和配置的产物通配符；
+// 先生成清单供用户预览确认，再执行删除
+
+// cbp2clangd 生成的构建文件和 ninja 的状态文件
+const GENERATED_BUILD_FILES = ['build.ninja', '.ninja_log', '.ninja_deps'];
+
+export type DeepCleanReason = 'build' | 'objects' | 'compileCommands' | 'artifact';
+
+export interface DeepCleanEntry {
+    fsPath: string;
+    isDirectory: boolean;
+    reason: DeepCleanReason;
+}
+
+export interface DeepCleanFailure {
+    fsPath: string;
+    error: string;
+}
+
+function normalizeForCompare(p: string): string {
+    const resolved = path.resolve(p);
+    return process.platform === 'win32' ? resolved.toLowerCase() : resolved;
+}
+
+// 只删除项目目录内的路径 (不含项目目录本身和 .cbp 文件)；
+// ../shared/obj 这类项目目录外的目标文件目录或产物通配符可能属于其他项目，一律不删除
+function isInsideProject(fsPath: string, cbpPath: string): boolean {
+    const target = normalizeForCompare(fsPath);
+    if (target === normalizeForCompare(cbpPath)) {return false;}
+    const relative = path.relative(normalizeForCompare(path.dirname(cbpPath)), target);
+    return relative !== '' && relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+/**
+ * 列出项目深度清理要删除的文件和目录 (只包含项目目录内已存在的路径)
+ * @param artifactPatterns 产物通配符 (相对项目目录，可使用 * ? 和 {target}，对每个构建目标展开)
+ */
+export function planDeepClean(cbpPath: string, artifactPatterns: readonly string[]): DeepCleanEntry[] {
+    const projectDir = path.dirname(cbpPath);
+    const project = loadCbpProject(cbpPath);
+    const targets = project?.targets.map(t => t.title) ?? [];
+
+    const candidates: { fsPath: string; reason: DeepCleanReason }[] = [
+        ...GENERATED_BUILD_FILES.map(name => ({ fsPath: path.join(projectDir, name), reason: 'build' as const })),
+        ...(project?.targets ?? [])
+            .filter(t => t.objectOutput)
+            .map(t => ({ fsPath: resolveProjectPath(project!, t.objectOutput!), reason: 'objects' as const })),
+        { fsPath: getProjectCompileCommandsPath(cbpPath), reason: 'compileCommands' },
+        ...artifactPatterns
+            .flatMap(pattern => pattern.includes('{target}') ? targets.map(t => pattern.replace(/\{target\}/g, t)) : [pattern])
+            .filter(pattern => pattern.trim())
+            .flatMap(pattern => findPathsByPattern(projectDir, pattern))
+            .map(fsPath => ({ fsPath, reason: 'artifact' as const }))
+    ];
+
+    const seen = new Set<string>();
+    const entries: DeepCleanEntry[] = [];
+    for (const { fsPath, reason } of candidates) {
+        const key = normalizeForCompare(fsPath);
+        if (seen.has(key) || !isInsideProject(fsPath, cbpPath)) {continue;}
+        seen.add(key);
+
+        let stat: fs.Stats;
+        try {
+            stat = fs.statSync(fsPath);
+        } catch {
+            continue;
+        }
+        entries.push({ fsPath: path.resolve(fsPath), isDirectory: stat.isDirectory(), reason });
+    }
+
+    // 已被清单中的目录包含的路径无需单独删除
+    const directories = entries.filter(e => e.isDirectory).map(e => normalizeForCompare(e.fsPath));
+    return entries.filter(entry => !directories.some(dir => {
+        const relative = path.relative(dir, normalizeForCompare(entry.fsPath));
+        return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+    }));
+}
+
+// 删除清单中的路径，返回删除失败的项
+export function executeDeepClean(entries: readonly DeepCleanEntry[]): DeepCleanFailure[] {
+    const failures: DeepCleanFailure[] = [];
+    for (const entry of entries) {
+        try {
+            fs.rmSync(entry.fsPath, { recursive: entry.isDirectory, force: true });
+        } catch (error) {
+            failures.push({ fsPath: entry.fsPath, error: (error as Error).message });
+        }
+    }
+    return failures;
+}
@@ -0,0 +1,224 @@
+import * as path from 'path';
+import { CbpProject } from '../models/CbpProject';
+import { getEffectiveLinkerSettings, getTargetOutputPath, resolveProjectPath } from './CbpProjectParser';
+
+// --- 项目依赖分析 ---
+// 依据 <Depends>、链接库与其它项目的输出文件推断队列中项目间的依赖关系
+
+export interface DependencyEdge {
+    // 依赖方 (如 app.cbp)
+    from: string;
+    // 被依赖方 (如 lib.cbp)
+    to: string;
+    reason: 'depends' | 'library';
+    // 说明，如链接库名称
+    detail: string;
+}
+
+export interface DependencyGraph {
+    // 项目 fsPath -> 依赖的项目 fsPath
+    dependencies: Map<string, string[]>;
+    edges: DependencyEdge[];
+}
+
+export interface OrderViolation {
+    project: string;
+    dependency: string;
+}
+
+export interface TopologicalSortResult {
+    order: string[];
+    // 每个元素是一组构成循环依赖的项目
+    cycles: string[][];
+}
+
+function normalizeForCompare(p: string): string {
+    const normalized = path.normalize(p.replace(/\\/g, '/'));
+    return process.platform === 'win32' ? normalized.toLowerCase() : normalized;
+}
+
+// 去掉 lib 前缀和扩展名，得到库的短名称 (libfoo.a -> foo)
+export function getLibraryBaseName(library: string): string {
+    const base = path.basename(library.replace(/\\/g, '/'));
+    return base.replace(/\.(a|so|lib|dll)$/i, '').replace(/^lib/, '');
+}
+
+function isLibraryPath(library: string): boolean {
+    return /[\\\/]/.test(library) || /\.(a|so|lib|dll)$/i.test(library);
+}
+
+// 链接库可能对应的文件路径
+function libraryCandidates(project: CbpProject, library: string, libraryDirs: string[]): string[] {
+    if (isLibraryPath(library)) {
+        return [resolveProjectPath(project, library)];
+    }
+    const names = [`lib${library}.a`, `${library}.a`, `lib${library}.so`, `${library}.lib`, library];
+    return libraryDirs.flatMap(dir => names.map(name => resolveProjectPath(project, `${dir}/${name}`)));
+}
+
+export function buildDependencyGraph(projects: CbpProject[]): DependencyGraph {
+    const dependencies = new Map<string, string[]>();
+    const edges: DependencyEdge[] = [];
+    const byPath = new Map(projects.map(p => [normalizeForCompare(p.fsPath), p]));
+
+    // 每个项目所有目标的输出文件
+    const outputs = new Map<string, CbpProject>();
+    const outputNames = new Map<string, CbpProject[]>();
+    for (const project of projects) {
+        for (const target of project.targets) {
+            const output = getTargetOutputPath(project, target);
+            if (!output) {continue;}
+            outputs.set(normalizeForCompare(output), project);
+            const baseName = getLibraryBaseName(output);
+            const list = outputNames.get(baseName) ?? [];
+            if (!list.includes(project)) {list.push(project);}
+            outputNames.set(baseName, list);
+        }
+    }
+
+    const addEdge = (edge: DependencyEdge) => {
+        if (edge.from === edge.to) {return;}
+        const list = dependencies.get(edge.from) ?? [];
+        if (list.includes(edge.to)) {return;}
+        list.push(edge.to);
+        dependencies.set(edge.from, list);
+        edges.push(edge);
+    };
+
+    for (const project of projects) {
+        dependencies.set(project.fsPath, dependencies.get(project.fsPath) ?? []);
+
+        // 1. 显式声明的 <Depends>
+        for (const dep of project.depends) {
+            const target = byPath.get(normalizeForCompare(resolveProjectPath(project, dep)));
+            if (target) {
+                addEdge({ from: project.fsPath, to: target.fsPath, reason: 'depends', detail: dep });
+            }
+        }
+
+        // 2. 链接库匹配其它项目的输出文件
+        const targetTitles = project.targets.length > 0 ? project.targets.map(t => t.title) : [undefined];
+        for (const targetTitle of targetTitles) {
+            const linker = getEffectiveLinkerSettings(project, targetTitle);
+            for (const library of linker.libraries) {
+                const producer = libraryCandidates(project, library, linker.libraryDirs)
+                    .map(c => outputs.get(normalizeForCompare(c)))
+                    .find((p): p is CbpProject => p !== undefined);
+
+                if (producer) {
+                    addEdge({ from: project.fsPath, to: producer.fsPath, reason: 'library', detail: library });
+                    continue;
+                }
+
+                // 路径无法对应时按库名匹配，仅在唯一时采用
+                const byName = outputNames.get(getLibraryBaseName(library));
+                if (byName && byName.length === 1) {
+                    addEdge({ from: project.fsPath, to: byName[0].fsPath, reason: 'library', detail: library });
+                }
+            }
+        }
+    }
+
+    return { dependencies, edges };
+}
+
+// 当前顺序中依赖项排在依赖方之后的情况
+export function findOrderViolations(order: string[], dependencies: Map<string, string[]>): OrderViolation[] {
+    const index = new Map(order.map((p, i) => [p, i]));
+    const violations: OrderViolation[] = [];
+    for (const project of order) {
+        for (const dep of dependencies.get(project) ?? []) {
+            const depIndex = index.get(dep);
+            if (depIndex !== undefined && depIndex > index.get(project)!) {
+                violations.push({ project, dependency: dep });
+            }
+        }
+    }
+    return violations;
+}
+
+// 查找循环依赖 (Tarjan 强连通分量)
+export function findCycles(nodes: string[], dependencies: Map<string, string[]>): string[][] {
+    const nodeSet = new Set(nodes);
+    const indexMap = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const cycles: string[][] = [];
+    let counter = 0;
+
+    const visit = (node: string) => {
+        indexMap.set(node, counter);
+        lowLink.set(node, counter);
+        counter++;
+        stack.push(node);
+        onStack.add(node);
+
+        for (const dep of dependencies.get(node) ?? []) {
+            if (!nodeSet.has(dep)) {continue;}
+            if (!indexMap.has(dep)) {
+                visit(dep);
+                lowLink.set(node, Math.min(lowLink.get(node)!, lowLink.get(dep)!));
+            } else if (onStack.has(dep)) {
+                lowLink.set(node, Math.min(lowLink.get(node)!, indexMap.get(dep)!));
+            }
+        }
+
+        if (lowLink.get(node) === indexMap.get(node)) {
+            const component: string[] = [];
+            let member: string;
+            do {
+                member = stack.pop()!;
+                onStack.delete(member);
+                component.push(member);
+            } while (member !== node);
+            if (component.length > 1) {
+                // 按原始顺序输出，便于阅读
+                cycles.push(nodes.filter(n => component.includes(n)));
+            }
+        }
+    };
+
+    for (const node of nodes) {
+        if (!indexMap.has(node)) {
+            visit(node);
+        }
+    }
+    return cycles;
+}
+
+// 稳定的拓扑排序：在满足依赖的前提下尽量保持原有顺序；循环中的项目保持原顺序追加在末尾
+export function topologicalSort(order: string[], dependencies: Map<string, string[]>): TopologicalSortResult {
+    const nodeSet = new Set(order);
+    const cycles = findCycles(order, dependencies);
+    const result: string[] = [];
+    const placed = new Set<string>();
+    const remaining = [...order];
+
+    while (remaining.length > 0) {
+        const nextIndex = remaining.findIndex(node =>
+            (dependencies.get(node) ?? []).every(dep => !nodeSet.has(dep) || placed.has(dep))
+        );
+        if (nextIndex === -1) {
+            break;
+        }
+        const [node] = remaining.splice(nextIndex, 1);
+        result.push(node);
+        placed.add(node);
+    }
+
+    // 剩余的项目处于循环中 (或依赖循环中的项目)
+    result.push(...remaining);
+    return { order: result, cycles };
+}
+
+// 调度使用的依赖表：循环内部的依赖无法满足，调度时忽略
+export function removeCycleDependencies(dependencies: Map<string, string[]>, cycles: string[][]): Map<string, string[]> {
+    const inCycle = new Map<string, Set<string>>();
+    cycles.forEach(cycle => cycle.forEach(p => inCycle.set(p, new Set(cycle))));
+    const schedulable = new Map<string, string[]>();
+    dependencies.forEach((deps, project) => {
+        schedulable.set(project, deps.filter(d => !inCycle.get(project)?.has(d)));
+    });
+    return schedulable;
+}
@@ -0,0 +1,263 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatTable } from '../utils/CommonUtils';
+import { findFilesByPattern } from '../utils/PathPattern';
+import { findTarget, getTargetOutputPath, loadCbpProject } from './CbpProjectParser';
+
+// --- 固件大小统计 ---
+// 构建成功后从 ELF 节头或链接器 .map 文件统计 text/data/bss (与 GNU size 的 Berkeley 格式一致)，
+// 上次的结果保存在 .cbp-build/firmware-size.json，用于在终端汇总中显示变化量
+
+const FIRMWARE_SIZE_FILE = 'firmware-size.json';
+
+export interface SectionSizes {
+    // 代码和只读数据 (占用 Flash)
+    text: number;
+    // 已初始化数据 (占用 Flash 和 RAM)
+    data: number;
+    // 未初始化数据 (占用 RAM)
+    bss: number;
+}
+
+export interface FirmwareMeasurement {
+    // 统计所用的 ELF 或 .map 文件
+    file: string;
+    sizes: SectionSizes;
+}
+
+export interface FirmwareSizeReport extends FirmwareMeasurement {
+    project: string;
+    // 上次构建的结果，首次统计时为 undefined
+    previous?: SectionSizes;
+}
+
+// --- ELF 节头解析 ---
+
+const SHT_NOBITS = 8;
+const SHF_WRITE = 0x1;
+const SHF_ALLOC = 0x2;
+const SHF_EXECINSTR = 0x4;
+
+/**
+ * 按节头统计 ELF 文件的 text/data/bss
+ * @returns 不是有效的 ELF 文件时为 null
+ */
+export function parseElfSectionSizes(buffer: Buffer): SectionSizes | null {
+    if (buffer.length < 52 || buffer.readUInt32BE(0) !== 0x7f454c46) {return null;}
+
+    const is64 = buffer[4] === 2;
+    const littleEndian = buffer[5] !== 2;
+    const u16 = (offset: number) => littleEndian ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset);
+    const u32 = (offset: number) => littleEndian ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset);
+    const u64 = (offset: number) => Number(littleEndian ? buffer.readBigUInt64LE(offset) : buffer.readBigUInt64BE(offset));
+    const word = is64 ? u64 : u32;
+
+    if (is64 && buffer.length < 64) {return null;}
+    const shoff = is64 ? u64(0x28) : u32(0x20);
+    const shentsize = u16(is64 ? 0x3a : 0x2e);
+    const shnum = u16(is64 ? 0x3c : 0x30);
+    if (shoff === 0 || shnum === 0 || shoff + shnum * shentsize > buffer.length) {return null;}
+
+    const sizes: SectionSizes = { text: 0, data: 0, bss: 0 };
+    for (let i = 0; i < shnum; i++) {
+        const header = shoff + i * shentsize;
+        const type = u32(header + 4);
+        const flags = word(header + 8);
+        const size = is64 ? u64(header + 32) : u32(header + 20);
+
+        if (!(flags & SHF_ALLOC)) {continue;}
+        if (type === SHT_NOBITS) {
+            sizes.bss += size;
+        } else if ((flags & SHF_EXECINSTR) || !(flags & SHF_WRITE)) {
+            sizes.text += size;
+        } else {
+            sizes.data += size;
+        }
+    }
+    return sizes;
+}
+
+// --- 链接器 .map 文件解析 ---
+
+// 不占用目标存储空间的输出节
+const NON_LOADED_SECTION = /^\.(debug|comment|stab|line|ARM\.attributes|riscv\.attributes|gnu\.attributes)/;
+const BSS_SECTION = /(bss|noinit|heap|stack)/i;
+const DATA_SECTION = /^\.([st]?data|ramfunc)/i;
+
+/**
+ * 按 GNU ld .map 文件中 "Linker script and memory map" 部分的输出节统计大小
+ * 只有节名时无法区分属性，按名称归类：bss/noinit/heap/stack 为 bss，.data/.sdata/.tdata/.ramfunc 为 data，其余为 text
+ * @returns 没有找到任何输出节时为 null
+ */
+export function parseMapFileSizes(content: string): SectionSizes | null {
+    const lines = content.split(/\r?\n/);
+    const start = lines.findIndex(line => line.startsWith('Linker script and memory map'));
+    if (start < 0) {return null;}
+
+    const sizes: SectionSizes = { text: 0, data: 0, bss: 0 };
+    let found = false;
+    for (let i = start + 1; i < lines.length; i++) {
+        // 输出节从行首开始，输入节带缩进；.data 等节的行尾可能还有 load address
+        let name: string;
+        let sizeHex: string;
+        const match = /^(\.\S+)\s+0x[0-9a-fA-F]+\s+0x([0-9a-fA-F]+)/.exec(lines[i]);
+        if (match) {
+            [, name, sizeHex] = match;
+        } else {
+            // 节名过长时地址和大小在下一行
+            const nameOnly = /^(\.\S+)\s*$/.exec(lines[i]);
+            const next = nameOnly && /^\s+0x[0-9a-fA-F]+\s+0x([0-9a-fA-F]+)/.exec(lines[i + 1] ?? '');
+            if (!nameOnly || !next) {continue;}
+            name = nameOnly[1];
+            sizeHex = next[1];
+            i++;
+        }
+
+        if (NON_LOADED_SECTION.test(name)) {continue;}
+        const size = parseInt(sizeHex, 16);
+        if (BSS_SECTION.test(name)) {
+            sizes.bss += size;
+        } else if (DATA_SECTION.test(name)) {
+            sizes.data += size;
+        } else {
+            sizes.text += size;
+        }
+        found = true;
+    }
+    return found ? sizes : null;
+}
+
+// 按扩展名选择解析方式，读取失败或格式不支持时为 null
+export function readFirmwareSizes(filePath: string): SectionSizes | null {
+    try {
+        if (path.extname(filePath).toLowerCase() === '.map') {
+            return parseMapFileSizes(fs.readFileSync(filePath, 'utf-8'));
+        }
+        return parseElfSectionSizes(fs.readFileSync(filePath));
+    } catch {
+        return null;
+    }
+}
+
+// --- 查找输出文件 ---
+
+// 由目标输出路径推出的候选文件：输出文件本身，以及同名的 .elf/.axf/.out/.map
+function getOutputCandidates(outputPath: string): string[] {
+    const ext = path.extname(outputPath);
+    const base = ext ? outputPath.slice(0, -ext.length) : outputPath;
+    return [outputPath, ...['.elf', '.axf', '.out', '.map'].map(e => base + e)];
+}
+
+/**
+ * 统计项目的固件大小
+ * @param outputPattern 配置的输出文件通配符 (相对项目目录，可使用 {target})，为空时使用 .cbp 中目标的输出路径
+ * @returns 没有找到可解析的输出文件时为 null
+ */
+export function measureProjectFirmware(cbpPath: string, target: string, outputPattern: string): FirmwareMeasurement | null {
+    const projectDir = path.dirname(cbpPath);
+    let candidates: string[];
+
+    if (outputPattern) {
+        // 多个匹配时使用最新生成的文件
+        candidates = findFilesByPattern(projectDir, outputPattern.replace(/\{target\}/g, target))
+            .map(file => ({ file, mtime: fs.statSync(file).mtimeMs }))
+            .sort((a, b) => b.mtime - a.mtime)
+            .map(c => c.file);
+    } else {
+        const project = loadCbpProject(cbpPath);
+        const cbpTarget = project ? findTarget(project, target) : undefined;
+        const outputPath = project && cbpTarget ? getTargetOutputPath(project, cbpTarget) : undefined;
+        candidates = outputPath ? getOutputCandidates(outputPath).filter(p => fs.existsSync(p)) : [];
+    }
+
+    for (const file of candidates) {
+        const sizes = readFirmwareSizes(file);
+        if (sizes) {
+            return { file, sizes };
+        }
+    }
+    return null;
+}
+
+// --- 汇总表格 ---
+
+// 与上次结果的差值，如 " (+128)"；没有上次结果或未变化时为空
+export function formatSizeDelta(current: number, previous?: number): string {
+    if (previous === undefined || current === previous) {return '';}
+    return current > previous ? ` (+${current - previous})` : ` (-${previous - current})`;
+}
+
+/**
+ * 生成终端中显示的固件大小表格 (不含颜色控制符)
+ * 每列显示字节数及与上次构建相比的变化量
+ */
+export function formatFirmwareSizeTable(reports: FirmwareSizeReport[]): string[] {
+    const header = ['项目', 'text', 'data', 'bss', '总计'];
+    const rows = reports.map(report => {
+        const { sizes, previous } = report;
+        const total = sizes.text + sizes.data + sizes.bss;
+        const previousTotal = previous ? previous.text + previous.data + previous.bss : undefined;
+        return [
+            report.project,
+            `${sizes.text}${formatSizeDelta(sizes.text, previous?.text)}`,
+            `${sizes.data}${formatSizeDelta(sizes.data, previous?.data)}`,
+            `${sizes.bss}${formatSizeDelta(sizes.bss, previous?.bss)}`,
+            `${total}${formatSizeDelta(total, previousTotal)}`
+        ];
+    });
+
+    return formatTable([header, ...rows], [false, true, true, true, true]);
+}
+
+// --- 上次构建的结果 ---
+
+interface FirmwareSizeEntry extends FirmwareMeasurement {
+    time: string;
+}
+
+export class FirmwareSizeStore {
+    private entries: Record<string, FirmwareSizeEntry> | null = null;
+
+    // stateDir 为 .cbp-build 目录，没有工作区时为 null (仅保存在内存中)
+    constructor(private readonly stateDir: string | null) {}
+
+    get(cbpPath: string): SectionSizes | undefined {
+        return this.getEntries()[cbpPath]?.sizes;
+    }
+
+    update(cbpPath: string, measurement: FirmwareMeasurement) {
+        this.getEntries()[cbpPath] = { ...measurement, time: new Date().toISOString() };
+        this.save();
+    }
+
+    private getFilePath(): string | null {
+        return this.stateDir ? path.join(this.stateDir, FIRMWARE_SIZE_FILE) : null;
+    }
+
+    private getEntries(): Record<string, FirmwareSizeEntry> {
+        if (this.entries) {return this.entries;}
+
+        this.entries = {};
+        const filePath = this.getFilePath();
+        if (filePath && fs.existsSync(filePath)) {
+            try {
+                this.entries = JSON.parse(fs.readFileSync(filePath, 'utf-8')).projects ?? {};
+            } catch (error) {
+                console.error('[FirmwareSizeStore] Failed to load firmware sizes:', error);
+            }
+        }
+        return this.entries!;
+    }
+
+    private save() {
+        const filePath = this.getFilePath();
+        if (!filePath) {return;}
+
+        try {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, JSON.stringify({ projects: this.entries ?? {} }, null, 2), 'utf-8');
+        } catch (error) {
+            console.error('[FirmwareSizeStore] Failed to save firmware sizes:', error);
+        }
+    }
+}
@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { CancellationSignal, spawnCommand } from './CommandRunner';
+import { quoteShellArgument } from './CommandTemplate';
+
+// --- 增量构建 ---
+// 记录每个项目上次转换时的 .cbp 内容摘要和转换命令 (.cbp-build/convert-state.json)，
+// 两者都未变化时跳过 cbp2clangd 转换；再用 ninja -n 判断构建是否无事可做
+
+const CONVERT_STATE_FILE = 'convert-state.json';
+
+interface ConvertStamp {
+    // .cbp 文件内容的 SHA-1
+    hash: string;
+    // 完整的转换命令 (目标、参数变化时需要重新转换)
+    command: string;
+}
+
+export function hashFile(fsPath: string): string | null {
+    try {
+        return crypto.createHash('sha1').update(fs.readFileSync(fsPath)).digest('hex');
+    } catch {
+        return null;
+    }
+}
+
+export class ConvertStampStore {
+    private stamps: Record<string, ConvertStamp> | null = null;
+
+    // stateDir 为 .cbp-build 目录，没有工作区时为 null (仅保存在内存中)
+    constructor(private readonly stateDir: string | null) {}
+
+    // .cbp 内容和转换命令都与上次成功转换时一致
+    isUpToDate(fsPath: string, command: string): boolean {
+        const stamp = this.getStamps()[fsPath];
+        return !!stamp && stamp.command === command && stamp.hash === hashFile(fsPath);
+    }
+
+    // 转换成功后记录
+    update(fsPath: string, command: string) {
+        const hash = hashFile(fsPath);
+        if (!hash) {return;}
+        this.getStamps()[fsPath] = { hash, command };
+        this.save();
+    }
+
+    // 构建失败等情况下清除记录，下次重新转换
+    invalidate(fsPath: string) {
+        const stamps = this.getStamps();
+        if (!(fsPath in stamps)) {return;}
+        delete stamps[fsPath];
+        this.save();
+    }
+
+    private getFilePath(): string | null {
+        return this.stateDir ? path.join(this.stateDir, CONVERT_STATE_FILE) : null;
+    }
+
+    private getStamps(): Record<string, ConvertStamp> {
+        if (this.stamps) {return this.stamps;}
+
+        this.stamps = {};
+        const filePath = this.getFilePath();
+        if (filePath && fs.existsSync(filePath)) {
+            try {
+                this.stamps = JSON.parse(fs.readFileSync(filePath, 'utf-8')).projects ?? {};
+            } catch (error) {
+                console.error('[ConvertStampStore] Failed to load convert state:', error);
+            }
+        }
+        return this.stamps!;
+    }
+
+    private save() {
+        const filePath = this.getFilePath();
+        if (!filePath) {return;}
+
+        try {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, JSON.stringify({ projects: this.stamps ?? {} }, null, 2), 'utf-8');
+        } catch (error) {
+            console.error('[ConvertStampStore] Failed to save convert state:', error);
+        }
+    }
+}
+
+// ninja -n 的输出是否表示没有需要执行的任务
+export function isNinjaNoWorkOutput(output: string): boolean {
+    return /ninja: no work to do/i.test(output);
+}
+
+/**
+ * 在项目目录中执行 ninja -n (只检查不构建)，判断项目是否已是最新
+ * @param ninjaPath ninja 可执行文件路径，为空时使用系统 ninja
+ * @param cwd 项目目录 (build.ninja 所在目录)
+ * @param env 执行环境，默认为 process.env
+ * @param token 取消时结束 ninja 进程树
+ * @returns 无事可做时为 true；命令失败 (如缺少 build.ninja)、超时或取消时为 false
+ */
+export async function checkNinjaUpToDate(ninjaPath: string, cwd: string, env?: NodeJS.ProcessEnv, token?: CancellationSignal, timeoutMs = 30000): Promise<boolean> {
+    let output = '';
+    try {
+        const ninja = ninjaPath ? quoteShellArgument(ninjaPath) : 'ninja';
+        await spawnCommand(`${ninja} -n`, cwd, {
+            env,
+            token,
+            timeoutMs,
+            onLine: line => { output += line + '\n'; }
+        });
+    } catch {
+        return false;
+    }
+    return isNinjaNoWorkOutput(output);
+}
@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EnvOverrides } from './BuildEnvironment';
+
+// --- 项目构建配置 (.cbp-build/projects.json 与工作区设置) ---
+// 顶层字段对所有项目生效，profiles / chips 按队列配置和芯片系列追加环境变量，
+// projects 中按 .cbp 路径 (相对工作区或绝对路径) 为单个项目追加配置
+
+export const PROJECTS_CONFIG_FILE = 'projects.json';
+
+export interface ProjectHookSettings {
+    // 转换步骤之前执行的命令
+    preBuild?: string[];
+    // 构建脚本成功后执行的命令
+    postBuild?: string[];
+}
+
+export interface ProjectSettings extends ProjectHookSettings {
+    env?: EnvOverrides;
+}
+
+export interface ProjectsConfig extends ProjectSettings {
+    // 按队列配置名
+    profiles?: Record<string, { env?: EnvOverrides }>;
+    // 按芯片系列 (project 目录下的第一级目录名)
+    chips?: Record<string, { env?: EnvOverrides }>;
+    projects?: Record<string, ProjectSettings>;
+}
+
+export interface ProjectHooks {
+    preBuild: string[];
+    postBuild: string[];
+}
+
+// 读取 .cbp-build/projects.json，不存在或格式错误时为空配置
+export function loadProjectsConfig(stateDir: string | null): ProjectsConfig {
+    if (!stateDir) {return {};}
+
+    const filePath = path.join(stateDir, PROJECTS_CONFIG_FILE);
+    if (!fs.existsSync(filePath)) {return {};}
+
+    try {
+        const config = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        return config && typeof config === 'object' ? config : {};
+    } catch (error) {
+        console.error('[ProjectConfig] Failed to load projects.json:', error);
+        return {};
+    }
+}
+
+// 读取 cbpBuildManager.* 设置 (vscode.WorkspaceConfiguration.get 或命令行读取的 settings.json)
+export type SettingsReader = <T>(key: string, defaultValue: T) => T;
+
+// 工作区设置中的构建配置 (preBuildCommands、env、projectHooks 等)，与 projects.json 格式相同
+export function readSettingsConfig(get: SettingsReader): ProjectsConfig {
+    const projects: Record<string, ProjectSettings> = {};
+    Object.entries(get<Record<string, ProjectHookSettings>>('projectHooks', {})).forEach(([key, hooks]) => {
+        projects[key] = { ...hooks };
+    });
+    Object.entries(get<Record<string, EnvOverrides>>('projectEnv', {})).forEach(([key, env]) => {
+        projects[key] = { ...projects[key], env };
+    });
+
+    const byName = (record: Record<string, EnvOverrides>) =>
+        Object.fromEntries(Object.entries(record).map(([name, env]) => [name, { env }]));
+
+    return {
+        preBuild: get<string[]>('preBuildCommands', []),
+        postBuild: get<string[]>('postBuildCommands', []),
+        env: get<EnvOverrides>('env', {}),
+        profiles: byName(get<Record<string, EnvOverrides>>('profileEnv', {})),
+        chips: byName(get<Record<string, EnvOverrides>>('chipEnv', {})),
+        projects
+    };
+}
+
+function normalizeKey(fsPath: string): string {
+    const normalized = path.normalize(fsPath);
+    return process.platform === 'win32' ? normalized.toLowerCase() : normalized;
+}
+
+// projects 中与 .cbp 路径匹配的项目配置
+export function findProjectSettings<T>(projects: Record<string, T> | undefined, cbpPath: string, workspaceRoot: string | undefined): T | undefined {
+    if (!projects) {return undefined;}
+
+    const target = normalizeKey(cbpPath);
+    const key = Object.keys(projects).find(k => {
+        const absolute = path.isAbsolute(k) || !workspaceRoot ? k : path.join(workspaceRoot, k);
+        return normalizeKey(absolute) === target;
+    });
+    return key === undefined ? undefined : projects[key];
+}
+
+function asCommands(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((c): c is string => typeof c === 'string' && c.trim() !== '') : [];
+}
+
+/**
+ * 合并项目的构建前后命令
+ * 按 sources 的顺序先取各来源的全局命令，再取各来源中该项目的命令
+ */
+export function resolveProjectHooks(cbpPath: string, workspaceRoot: string | undefined, sources: ProjectsConfig[]): ProjectHooks {
+    const hooks: ProjectHooks = { preBuild: [], postBuild: [] };
+    const levels = [
+        ...sources,
+        ...sources.map(source => findProjectSettings(source.projects, cbpPath, workspaceRoot) ?? {})
+    ];
+
+    levels.forEach(level => {
+        hooks.preBuild.push(...asCommands(level.preBuild));
+        hooks.postBuild.push(...asCommands(level.postBuild));
+    });
+    return hooks;
+}
+
+export interface EnvScope {
+    cbpPath: string;
+    workspaceRoot: string | undefined;
+    // 当前队列配置
+    profile?: string;
+    // 项目所属的芯片系列
+    chip?: string | null;
+}
+
+/**
+ * 项目生效的环境变量覆盖，按 工作区 -> 队列配置 -> 芯片系列 -> 项目 的顺序排列，
+ * 同一级中按 sources 的顺序 (设置在前，projects.json 在后)
+ */
+export function resolveProjectEnvOverrides(scope: EnvScope, sources: ProjectsConfig[]): EnvOverrides[] {
+    const levels: ((source: ProjectsConfig) => EnvOverrides | undefined)[] = [
+        source => source.env,
+        source => scope.profile ? source.profiles?.[scope.profile]?.env : undefined,
+        source => scope.chip ? source.chips?.[scope.chip]?.env : undefined,
+        source => findProjectSettings(source.projects, scope.cbpPath, scope.workspaceRoot)?.env
+    ];
+
+    return levels.flatMap(level => sources
+        .map(level)
+        .filter((env): env is EnvOverrides => !!env && typeof env === 'object'));
+}
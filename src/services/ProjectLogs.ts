@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { stripAnsi } from '../utils/CommonUtils';
+import { createRunId } from './BuildHistory';
+
+// --- 项目构建日志 (.cbp-build/logs/<项目>-<路径摘要>/<时间>.log) ---
+// 每个项目每次处理时的完整输出：执行的命令和全部输出行 (ninja 进度行逐行保留，路径已转换，去除颜色)
+
+const LOGS_DIR = 'logs';
+// 每个项目默认保留的日志数量
+export const DEFAULT_PROJECT_LOG_RETENTION = 10;
+
+export class ProjectLog {
+    private lines: string[] = [];
+
+    constructor(readonly filePath: string, private readonly onClose: () => void) {}
+
+    // 箭头函数：可直接作为 RunCommandOptions.onLog 传入
+    append = (line: string) => {
+        this.lines.push(stripAnsi(line).replace(/\r$/, ''));
+    };
+
+    // 写入日志文件并清理超出保留数量的旧日志
+    close() {
+        try {
+            fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+            fs.writeFileSync(this.filePath, this.lines.join('\n') + '\n', 'utf-8');
+        } catch (error) {
+            console.error('[ProjectLog] Failed to write build log:', error);
+        }
+        this.onClose();
+    }
+}
+
+// 完整路径的短摘要 (Windows 下路径不区分大小写)
+function hashProjectPath(cbpPath: string): string {
+    const resolved = path.resolve(cbpPath);
+    const key = process.platform === 'win32' ? resolved.toLowerCase() : resolved;
+    return crypto.createHash('sha1').update(key).digest('hex').slice(0, 8);
+}
+
+export class ProjectLogStore {
+    // stateDir 为 .cbp-build 目录，没有工作区时为 null (不保存日志)
+    constructor(private readonly stateDir: string | null) {}
+
+    // 项目的日志目录：.cbp 文件名加完整路径的摘要，不同芯片目录下的同名项目互不影响
+    getProjectLogDir(cbpPath: string): string | null {
+        if (!this.stateDir) {return null;}
+        return path.join(this.stateDir, LOGS_DIR, `${path.basename(cbpPath, '.cbp')}-${hashProjectPath(cbpPath)}`);
+    }
+
+    /**
+     * 开始记录一次项目处理的日志
+     * @param retention 每个项目保留的日志数量，小于 1 时不保存日志
+     */
+    begin(cbpPath: string, retention: number, date = new Date()): ProjectLog | null {
+        const dir = this.getProjectLogDir(cbpPath);
+        if (!dir || retention < 1) {return null;}
+
+        return new ProjectLog(path.join(dir, `${createRunId(date)}.log`), () => this.prune(cbpPath, retention));
+    }
+
+    // 项目的日志文件，按时间从新到旧
+    getLogs(cbpPath: string): string[] {
+        const dir = this.getProjectLogDir(cbpPath);
+        if (!dir || !fs.existsSync(dir)) {return [];}
+
+        try {
+            // 文件名为时间戳，按名称排序即按时间排序
+            return fs.readdirSync(dir)
+                .filter(name => name.endsWith('.log'))
+                .sort()
+                .reverse()
+                .map(name => path.join(dir, name));
+        } catch (error) {
+            console.error('[ProjectLogStore] Failed to list build logs:', error);
+            return [];
+        }
+    }
+
+    getLastLog(cbpPath: string): string | undefined {
+        return this.getLogs(cbpPath)[0];
+    }
+
+    private prune(cbpPath: string, retention: number) {
+        this.getLogs(cbpPath).slice(retention).forEach(file => {
+            try {
+                fs.unlinkSync(file);
+            } catch (error) {
+                console.error('[ProjectLogStore] Failed to delete old build log:', error);
+            }
+        });
+    }
+}
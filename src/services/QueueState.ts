@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// --- 构建队列状态文件 (.cbp-build/queue.json) ---
+// 扩展 (CbpDataManager) 与命令行 (cbp-build run) 共用的读写逻辑，不依赖 VS Code
+
+export const QUEUE_STATE_FILE = 'queue.json';
+
+// --- 队列配置 (Profile) ---
+// 每个配置保存独立的队列顺序、勾选状态、构建目标和芯片筛选
+
+export interface QueueProfileState {
+    queuePaths: string[];
+    checkState: Record<string, boolean>;
+    targets: Record<string, string>;
+    chipFilter: string | null;
+}
+
+export const DEFAULT_PROFILE_NAME = '默认';
+
+export function emptyProfile(): QueueProfileState {
+    return { queuePaths: [], checkState: {}, targets: {}, chipFilter: null };
+}
+
+export interface QueueState {
+    // 按保存顺序排列，至少有一个配置
+    profiles: Map<string, QueueProfileState>;
+    activeProfile: string;
+    compileCommandsCheckState: Record<string, boolean>;
+    compileCommandsOrder: string[];
+}
+
+export function getQueueStateFilePath(workspaceRoot: string): string {
+    return path.join(workspaceRoot, '.cbp-build', QUEUE_STATE_FILE);
+}
+
+// 解析 queue.json 的内容；旧版本文件没有 profiles，顶层字段即为默认配置
+export function parseQueueState(content: string): QueueState {
+    const state = JSON.parse(content);
+
+    const profiles = new Map<string, QueueProfileState>();
+    if (state.profiles && typeof state.profiles === 'object') {
+        Object.entries(state.profiles).forEach(([name, profile]) => {
+            profiles.set(name, { ...emptyProfile(), ...(profile as Partial<QueueProfileState>) });
+        });
+    }
+    if (profiles.size === 0) {
+        profiles.set(DEFAULT_PROFILE_NAME, {
+            queuePaths: state.queuePaths || [],
+            checkState: state.checkState || {},
+            targets: state.targets || {},
+            chipFilter: state.chipFilter ?? null
+        });
+    }
+
+    const activeProfile = profiles.has(state.activeProfile) ? state.activeProfile : profiles.keys().next().value!;
+    return {
+        profiles,
+        activeProfile,
+        compileCommandsCheckState: state.compileCommandsCheckState || {},
+        compileCommandsOrder: state.compileCommandsOrder || []
+    };
+}
+
+// 读取状态文件，文件不存在时为 null；内容无法解析时抛出错误
+export function readQueueState(filePath: string): QueueState | null {
+    if (!fs.existsSync(filePath)) {return null;}
+    return parseQueueState(fs.readFileSync(filePath, 'utf-8'));
+}
+
+export function writeQueueState(filePath: string, state: QueueState) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    // 顶层字段保存当前配置，兼容旧版本
+    const content = {
+        ...state.profiles.get(state.activeProfile),
+        activeProfile: state.activeProfile,
+        profiles: Object.fromEntries(state.profiles),
+        compileCommandsCheckState: state.compileCommandsCheckState,
+        compileCommandsOrder: state.compileCommandsOrder
+    };
+    fs.writeFileSync(filePath, JSON.stringify(content, null, 2), 'utf-8');
+}
+
+// 配置中被勾选且项目文件仍存在的项目 (保持队列顺序)
+export function getCheckedProjects(profile: QueueProfileState): string[] {
+    return profile.queuePaths.filter(fsPath => (profile.checkState[fsPath] ?? true) && fs.existsSync(fsPath));
+}
+
+// 从项目路径中提取芯片名称 (project 目录后的第一级目录)
+export function extractChipName(projectPath: string): string | null {
+    const parts = projectPath.split(path.sep);
+    // 查找 project 文件夹后的第一个文件夹名
+    const projectIndex = parts.findIndex(p => p === 'project');
+    if (projectIndex !== -1 && projectIndex < parts.length - 1) {
+        return parts[projectIndex + 1];
+    }
+    return null;
+}
+
+// --- 多根工作区 ---
+// 每个工作区文件夹在自己的 .cbp-build/queue.json 中保存属于它的项目，扩展加载时合并为一个队列
+
+// 路径所属的工作区文件夹 (嵌套时取最内层)，不在任何文件夹中时为 undefined
+export function findWorkspaceFolder(fsPath: string, folders: readonly string[]): string | undefined {
+    const normalize = (p: string) => process.platform === 'win32' ? path.resolve(p).toLowerCase() : path.resolve(p);
+    const target = normalize(fsPath);
+    return folders
+        .filter(folder => {
+            const relative = path.relative(normalize(folder), target);
+            return !relative.startsWith('..') && !path.isAbsolute(relative);
+        })
+        .sort((a, b) => b.length - a.length)[0];
+}
+
+// 合并各文件夹的状态：配置取并集，队列按文件夹顺序拼接，当前配置和芯片筛选取第一个状态
+export function mergeQueueStates(states: readonly QueueState[]): QueueState | null {
+    if (states.length === 0) {return null;}
+
+    const profiles = new Map<string, QueueProfileState>();
+    states.forEach(state => state.profiles.forEach((profile, name) => {
+        const merged = profiles.get(name);
+        if (!merged) {
+            profiles.set(name, { ...profile, queuePaths: [...profile.queuePaths], checkState: { ...profile.checkState }, targets: { ...profile.targets } });
+            return;
+        }
+        merged.queuePaths.push(...profile.queuePaths.filter(p => !merged.queuePaths.includes(p)));
+        Object.assign(merged.checkState, profile.checkState);
+        Object.assign(merged.targets, profile.targets);
+    }));
+
+    return {
+        profiles,
+        activeProfile: states[0].activeProfile,
+        compileCommandsCheckState: Object.assign({}, ...states.map(s => s.compileCommandsCheckState)),
+        compileCommandsOrder: states.flatMap(s => s.compileCommandsOrder)
+    };
+}
+
+// 只保留 owns 返回 true 的项目 (保存到单个文件夹的状态文件)
+export function filterQueueState(state: QueueState, owns: (fsPath: string) => boolean): QueueState {
+    const pick = <T>(record: Record<string, T>) =>
+        Object.fromEntries(Object.entries(record).filter(([fsPath]) => owns(fsPath)));
+
+    const profiles = new Map(Array.from(state.profiles, ([name, profile]): [string, QueueProfileState] => [name, {
+        queuePaths: profile.queuePaths.filter(owns),
+        checkState: pick(profile.checkState),
+        targets: pick(profile.targets),
+        chipFilter: profile.chipFilter
+    }]));
+
+    return {
+        profiles,
+        activeProfile: state.activeProfile,
+        compileCommandsCheckState: pick(state.compileCommandsCheckState),
+        compileCommandsOrder: state.compileCommandsOrder.filter(owns)
+    };
+}
+
+// 状态中是否有任何项目或编译数据库
+export function hasQueueEntries(state: QueueState): boolean {
+    return state.compileCommandsOrder.length > 0
+        || Array.from(state.profiles.values()).some(profile => profile.queuePaths.length > 0);
+}
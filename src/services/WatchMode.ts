@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { findAffectedProjects } from './AffectedProjects';
+
+// --- 监视模式 ---
+// 开启后保存属于已勾选项目的源文件/头文件时，防抖后只重新构建受影响的队列项目；
+// 已有构建在执行时等待其结束，不会同时启动第二个构建
+
+export interface WatchModeHost {
+    // 构建队列中被勾选的项目
+    getCheckedProjects(): string[];
+    isBuilding(): boolean;
+    // 构建指定的项目
+    build(projectPaths: string[]): Thenable<unknown>;
+}
+
+// 构建进行中时重新检查的间隔
+const BUSY_RETRY_MS = 1000;
+
+export class WatchModeController implements vscode.Disposable {
+    private enabled = false;
+    // 等待构建的项目
+    private pending = new Set<string>();
+    private timer: NodeJS.Timeout | undefined;
+    private item: vscode.StatusBarItem;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly host: WatchModeHost, private readonly getDelayMs: () => number) {
+        this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 49);
+        this.item.command = 'cbp-build-manager.disableWatchMode';
+        this.disposables.push(vscode.workspace.onDidSaveTextDocument(doc => this.onDidSave(doc.uri.fsPath)));
+        this.render();
+    }
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    setEnabled(enabled: boolean) {
+        this.enabled = enabled;
+        if (!enabled) {
+            this.pending.clear();
+            this.clearTimer();
+        }
+        vscode.commands.executeCommand('setContext', 'cbpBuildManager.watchMode', enabled);
+        this.render();
+    }
+
+    private onDidSave(filePath: string) {
+        if (!this.enabled) {return;}
+
+        const affected = findAffectedProjects(filePath, this.host.getCheckedProjects());
+        if (affected.length === 0) {return;}
+
+        affected.forEach(p => this.pending.add(p));
+        this.schedule(this.getDelayMs());
+        this.render();
+    }
+
+    private schedule(delayMs: number) {
+        this.clearTimer();
+        this.timer = setTimeout(() => this.flush(), delayMs);
+    }
+
+    private clearTimer() {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private async flush() {
+        this.timer = undefined;
+        if (!this.enabled || this.pending.size === 0) {return;}
+
+        // 已有构建在执行：保留待构建项目，稍后再试
+        if (this.host.isBuilding()) {
+            this.schedule(BUSY_RETRY_MS);
+            return;
+        }
+
+        // 按当前队列顺序构建，期间取消勾选的项目不再构建
+        const checked = this.host.getCheckedProjects();
+        const projects = checked.filter(p => this.pending.has(p));
+        this.pending.clear();
+        this.render();
+        if (projects.length === 0) {return;}
+
+        await this.host.build(projects);
+    }
+
+    private render() {
+        if (!this.enabled) {
+            this.item.hide();
+            return;
+        }
+
+        const waiting = this.pending.size > 0
+            ? ` (待构建: ${Array.from(this.pending).map(p => path.basename(p, '.cbp')).join(', ')})`
+            : '';
+        this.item.text = `$(eye) 监视中${this.pending.size > 0 ? ` ${this.pending.size}` : ''}`;
+        this.item.tooltip = `监视模式已开启：保存源文件后自动构建受影响的项目${waiting}\n点击关闭监视模式`;
+        this.item.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+        this.item.show();
+    }
+
+    dispose() {
+        this.clearTimer();
+        this.item.dispose();
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -1,2 +1,22 @@
-export { CbpDataManager } from './DataManager';
+export { CbpDataManager, QueueProfileState, DEFAULT_PROFILE_NAME } from './DataManager';
+export { readQueueState, writeQueueState, parseQueueState, getQueueStateFilePath, getCheckedProjects, extractChipName, findWorkspaceFolder, mergeQueueStates, filterQueueState, QueueState, QUEUE_STATE_FILE } from './QueueState';
 export { mergeCompileCommands, checkMergeCommandSupport, mergeCompileCommandsFiles } from './CompileCommandsMerger';
+export { BuildDiagnosticsManager } from './BuildDiagnostics';
+export { runScheduled, ProjectRunResult, ScheduledOutcome } from './BuildScheduler';
+export { loadCbpProject, parseCbpProject, decodeCbpContent, findProjectsForFile, projectContainsFile, getTargetNames, findTarget, getEffectiveCompilerSettings, getEffectiveLinkerSettings, getUnitsForTarget, resolveProjectPath, getTargetOutputPath } from './CbpProjectParser';
+export { buildDependencyGraph, findOrderViolations, findCycles, topologicalSort, removeCycleDependencies, DependencyGraph, DependencyEdge } from './DependencyGraph';
+export { BuildHistoryStore, BuildRunRecorder, BuildLogCollector, createRunId, formatRunSummary, describeRunCounts, MAX_HISTORY_RUNS } from './BuildHistory';
+export { ConvertStampStore, checkNinjaUpToDate, hashFile, isNinjaNoWorkOutput } from './IncrementalBuild';
+export { BuildStatusBar } from './BuildStatusBar';
+export { loadCompileCommands, findCompileCommand, findCompileCommandsForFile, getEntryCommand, getEntryFilePath, CompileCommandEntry, CompileCommandMatch } from './CompileCommandsLookup';
+export { FirmwareSizeStore, measureProjectFirmware, formatFirmwareSizeTable, parseElfSectionSizes, parseMapFileSizes, SectionSizes, FirmwareSizeReport } from './FirmwareSize';
+export { loadProjectsConfig, readSettingsConfig, SettingsReader, resolveProjectHooks, resolveProjectEnvOverrides, findProjectSettings, ProjectsConfig, ProjectHooks, ProjectHookSettings, ProjectSettings, EnvScope, PROJECTS_CONFIG_FILE } from './ProjectConfig';
+export { applyEnvOverrides, describeEnvChanges, expandEnvReferences, EnvOverrides, Environment } from './BuildEnvironment';
+export { ProjectLogStore, ProjectLog, DEFAULT_PROJECT_LOG_RETENTION } from './ProjectLogs';
+export { findAffectedProjects, projectOwnsFile, isWatchedSourceFile, getProjectCompileCommandsPath } from './AffectedProjects';
+export { WatchModeController, WatchModeHost } from './WatchMode';
+export { spawnCommand, killProcessTree, BuildCancelledError, CommandFailedError, CommandTimeoutError, CommandTimeoutReason, CancellationController, CancellationSignal, SpawnCommandOptions } from './CommandRunner';
+export { readBuildSettings, createConvertCommand, createBuildCommand, createCommandVariables, getCleanCommand, getCleanSkipReason, resolveProjectTarget, checkCbp2clangVersion, BuildSettings, MIN_REQUIRED_CBP2CLANG_VERSION, DEFAULT_CLEAN_COMMAND } from './BuildSteps';
+export { planDeepClean, executeDeepClean, DeepCleanEntry, DeepCleanFailure, DeepCleanReason } from './DeepClean';
+export { renderCommandTemplate, quoteShellArgument, getDefaultShell, CommandTemplateError, CommandTemplateContext, ConfigReader, ShellKind } from './CommandTemplate';
+export { BuildPipeline, Cbp2clangVersionError, BUILD_STEP_LABELS, BuildPipelineEvent, BuildPipelineOptions, BuildPipelineProject, BuildPipelineResult, BuildStepKind, StepCommandRequest, StepCommandRunner, StepStatus } from './BuildPipeline';
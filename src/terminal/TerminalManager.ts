@@ -1,7 +1,19 @@
 import * as vscode from 'vscode';
-import * as cp from 'child_process';
-import * as path from 'path';
-import { decodeBuffer, formatOutput, OutputLineBuffer, processBuildCommandPath, parseNinjaProgress } from '../utils';
+import { formatOutput, processBuildCommandPath, parseNinjaProgress } from '../utils';
+import { BuildCancelledError, CommandFailedError, CommandTimeoutError, spawnCommand } from '../services/CommandRunner';
+
+export { BuildCancelledError, CommandFailedError, CommandTimeoutError, killProcessTree } from '../services/CommandRunner';
+
+// --- 中断请求 (终端中按 Ctrl+C) ---
+const g_interruptEmitter = new vscode.EventEmitter<void>();
+export const onDidRequestInterrupt: vscode.Event<void> = g_interruptEmitter.event;
+
+// --- 终端输出事件 (用于保存构建日志) ---
+const g_outputEmitter = new vscode.EventEmitter<string>();
+export const onDidWriteOutput: vscode.Event<string> = g_outputEmitter.event;
+
+// 构建终端名称 (终端链接等按名称识别)
+export const BUILD_TERMINAL_NAME = 'CBP Build Manager';
 
 // --- Pseudoterminal 实现 ---
 
@@ -19,6 +31,14 @@ export class BuildTerminal implements vscode.Pseudoterminal {
         this.writeEmitter.fire('\x1b[36mCBP Build Manager Terminal Ready.\x1b[0m\r\n\r\n');
     }
 
+    handleInput(data: string): void {
+        // Ctrl+C 请求停止当前构建
+        if (data === '\x03') {
+            this.writeEmitter.fire('^C\r\n');
+            g_interruptEmitter.fire();
+        }
+    }
+
     close(): void {
         if (!this.isClosed) {
             this.isClosed = true;
@@ -28,7 +48,9 @@ export class BuildTerminal implements vscode.Pseudoterminal {
 
     write(data: string): void {
         if (!this.isClosed) {
-            this.writeEmitter.fire(formatOutput(data));
+            const formatted = formatOutput(data);
+            this.writeEmitter.fire(formatted);
+            g_outputEmitter.fire(formatted);
         }
     }
 
@@ -36,6 +58,7 @@ export class BuildTerminal implements vscode.Pseudoterminal {
     writeRaw(data: string): void {
          if (!this.isClosed) {
             this.writeEmitter.fire(data);
+            g_outputEmitter.fire(data);
         }
     }
 
@@ -55,18 +78,22 @@ export class BuildTerminal implements vscode.Pseudoterminal {
 // 我们需要同时持有 VS Code 的 Terminal 对象(用于 show) 和 我们的 PTY 对象(用于 write)
 let g_terminal: vscode.Terminal | null = null;
 let g_pty: BuildTerminal | null = null;
+// 为 true 时显示终端但不抢占焦点 (监视模式自动构建时使用，避免打断编辑)
+let g_preserveFocus = false;
 
-export function createOrShowTerminal(): BuildTerminal {
-    const TERMINAL_NAME = 'CBP Build Manager';
+export function setPreserveTerminalFocus(preserveFocus: boolean): void {
+    g_preserveFocus = preserveFocus;
+}
 
+export function createOrShowTerminal(): BuildTerminal {
     // 1. 检查当前保存的实例是否有效
     // 这里的关键是：必须同时检查 变量是否非空 AND VS Code 的终端列表里是否真的有它
     // (因为用户可能直接点击垃圾桶关掉了终端，但变量还没来得及清空)
-    const existingTerminal = vscode.window.terminals.find(t => t.name === TERMINAL_NAME);
+    const existingTerminal = vscode.window.terminals.find(t => t.name === BUILD_TERMINAL_NAME);
 
     if (g_terminal && g_pty && existingTerminal && existingTerminal === g_terminal) {
         // 完美匹配，复用
-        g_terminal.show();
+        g_terminal.show(g_preserveFocus);
         return g_pty;
     }
 
@@ -79,12 +106,12 @@ export function createOrShowTerminal(): BuildTerminal {
     // 3. 创建全新实例
     g_pty = new BuildTerminal();
     g_terminal = vscode.window.createTerminal({
-        name: TERMINAL_NAME,
+        name: BUILD_TERMINAL_NAME,
         pty: g_pty,
         isTransient: false
     });
 
-    g_terminal.show();
+    g_terminal.show(g_preserveFocus);
     return g_pty;
 }
 
@@ -112,123 +139,100 @@ export function setGlobalTerminal(terminal: vscode.Terminal | null, pty: BuildTe
 
 // --- 命令执行 ---
 
-export function runCommand(cmd: string): Promise<void> {
-    return runCommandInDirectory(cmd, undefined);
+export interface RunCommandOptions {
+    // 每一行输出（非进度行已做路径转换）的回调，用于诊断解析等
+    onLine?: (line: string) => void;
+    // 取消令牌：取消时结束整个进程树并以 BuildCancelledError 拒绝
+    token?: vscode.CancellationToken;
+    // 输出行前缀（并行构建时区分项目），设置后进度行不再原地刷新
+    outputPrefix?: string;
+    // 命令的环境变量（已应用项目的环境覆盖），默认为 process.env
+    env?: NodeJS.ProcessEnv;
+    // 写入项目日志的回调：执行的命令和全部输出行（进度行不覆盖，非进度行已做路径转换）
+    onLog?: (line: string) => void;
+    // 命令时限（毫秒），超时时结束进程树并以 CommandTimeoutError 拒绝
+    timeoutMs?: number;
+    // 连续没有输出多久后调用 onStall（毫秒），onStall 返回 true 时结束命令
+    stallMs?: number;
+    onStall?: (silentMs: number) => boolean | Promise<boolean>;
+}
+
+export function runCommand(cmd: string, options: RunCommandOptions = {}): Promise<void> {
+    return runCommandInDirectory(cmd, undefined, options);
 }
 
 // --- 命令执行函数 (核心修改) ---
 
-export function runCommandInDirectory(cmd: string, cwd: string | undefined): Promise<void> {
+export async function runCommandInDirectory(cmd: string, cwd: string | undefined, options: RunCommandOptions = {}): Promise<void> {
     const pty = createOrShowTerminal();
-
-    return new Promise((resolve, reject) => {
-        let actualCmd = cmd.replace(/\u00A0/g, ' ').trim();
-
-        // 构造 Windows 兼容的 Spawn 参数
-        let spawnCmd = actualCmd;
-        let spawnArgs: string[] = [];
-        let spawnOptions: cp.SpawnOptions = {
-            cwd,
-            env: {
-                ...process.env,
-                PYTHONUNBUFFERED: '1',
-                CLICOLOR_FORCE: '1',
-                FORCE_COLOR: '1',
-                ANSICON: '1'
-            },
-            stdio: ['pipe', 'pipe', 'pipe']
-        };
-
-        if (process.platform === 'win32') {
-            if (actualCmd.startsWith('./')) {
-                actualCmd = actualCmd.replace('./', '.\\');
-            }
-            if (actualCmd.includes('"')) {
-                actualCmd = `"${actualCmd}"`;
-            }
-
-            spawnCmd = 'cmd.exe';
-            spawnArgs = ['/d', '/c', actualCmd];
-
-            spawnOptions.shell = false;
-            spawnOptions.windowsVerbatimArguments = true;
-            spawnOptions.windowsHide = true;
+    const prefix = options.outputPrefix ?? '';
+
+    // 定义行处理逻辑：模拟 Ninja 的 TTY 行为
+    const handleLineOutput = (line: string) => {
+        const progressResult = parseNinjaProgress(line);
+
+        if (progressResult.isProgress && prefix) {
+            // 多个项目同时输出时无法原地刷新，按普通行输出
+            pty.write(`\r\n${prefix}\x1b[32m${progressResult.prefix}\x1b[0m ${progressResult.shortMsg}`);
+            options.onLine?.(line);
+            options.onLog?.(line);
+        } else if (progressResult.isProgress) {
+            // 关键点：
+            // \r      -> 回到行首
+            // \x1b[K  -> 清除当前行内容 (防止旧的长文字残留在后面)
+            // 不加 \n -> 保持在同一行
+            pty.writeRaw(`\r\x1b[K\x1b[32m${progressResult.prefix}\x1b[0m ${progressResult.shortMsg}`);
+            options.onLine?.(line);
+            options.onLog?.(line);
         } else {
-            spawnOptions.shell = true;
-            spawnOptions.windowsHide = true;
-        }
-
-        // 显示启动命令
-        let displayCmd = actualCmd;
-        if (process.platform === 'win32' && displayCmd.length > 2 && displayCmd.startsWith('"') && displayCmd.endsWith('"')) {
-             displayCmd = displayCmd.slice(1, -1);
-        }
-        pty.write(`\x1b[33m$ ${displayCmd}\x1b[0m\r\n`);
-
-        try {
-            const child = cp.spawn(spawnCmd, spawnArgs, spawnOptions);
-
-            // 定义行处理逻辑：模拟 Ninja 的 TTY 行为
-            const handleLineOutput = (line: string) => {
-                const progressResult = parseNinjaProgress(line);
-
-                if (progressResult.isProgress) {
-                    // 关键点：
-                    // \r      -> 回到行首
-                    // \x1b[K  -> 清除当前行内容 (防止旧的长文字残留在后面)
-                    // 不加 \n -> 保持在同一行
-                    pty.writeRaw(`\r\x1b[K\x1b[32m${progressResult.prefix}\x1b[0m ${progressResult.shortMsg}`);
-                } else {
-                    // 非进度条信息（如错误、警告、CMake输出），正常换行打印
-
-                    // 处理错误和警告信息，将相对路径转换为完整路径
-                    let processedLine = line;
-                    if (cwd) {
-                        processedLine = processBuildCommandPath(processedLine, cwd);
-                    }
-
-                    pty.write(`\r\n${processedLine}`);
-                }
-            };
-
-            // 使用 OutputLineBuffer 来处理 stdout 和 stderr
-            const lineBuffer = new OutputLineBuffer(handleLineOutput);
-
-            if (child.stdout) {
-                child.stdout.on('data', (data: Buffer) => {
-                    lineBuffer.append(decodeBuffer(data));
-                });
-            }
+            // 非进度条信息（如错误、警告、CMake输出），正常换行打印
 
-            if (child.stderr) {
-                child.stderr.on('data', (data: Buffer) => {
-                    // stderr 也走同样的 buffer 逻辑，防止切断
-                    // 通常 Ninja 的错误信息也是正常文本，不需要特殊红色处理，
-                    // 因为 Clang/GCC 自身带有颜色代码。
-                    lineBuffer.append(decodeBuffer(data));
-                });
+            // 处理错误和警告信息，将相对路径转换为完整路径
+            let processedLine = line;
+            if (cwd) {
+                processedLine = processBuildCommandPath(processedLine, cwd);
             }
 
-            child.on('close', (code: number) => {
-                // 确保缓冲区最后的内容被打印
-                lineBuffer.flush();
-                // 最后换个行，结束进度条状态
+            pty.write(`\r\n${prefix}${processedLine}`);
+            options.onLine?.(processedLine);
+            options.onLog?.(processedLine);
+        }
+    };
+
+    let started = false;
+    try {
+        await spawnCommand(cmd, cwd, {
+            env: options.env,
+            token: options.token,
+            timeoutMs: options.timeoutMs,
+            stallMs: options.stallMs,
+            onStall: options.onStall,
+            onStart: displayCmd => {
+                started = true;
+                // 显示启动命令
+                pty.write(`${prefix}\x1b[33m$ ${displayCmd}\x1b[0m\r\n`);
+                options.onLog?.(`$ ${displayCmd}`);
+            },
+            onLine: handleLineOutput
+        });
+        // 最后换个行，结束进度条状态
+        pty.write('\r\n');
+    } catch (error) {
+        if (error instanceof BuildCancelledError) {
+            if (started) {
                 pty.write('\r\n');
-
-                if (code === 0) {
-                    resolve();
-                } else {
-                    reject(new Error(`Exit code ${code}`));
-                }
-            });
-
-            child.on('error', (err: Error) => {
-                pty.write(`\x1b[31mSpawn Error: ${err.message}\x1b[0m\r\n`);
-                reject(err);
-            });
-        } catch (error) {
-            pty.write(`\x1b[31mExecution Error: ${(error as Error).message}\x1b[0m\r\n`);
-            reject(error);
+                options.onLog?.('>>> 已取消');
+            }
+        } else if (error instanceof CommandFailedError) {
+            pty.write('\r\n');
+            options.onLog?.(`>>> ${error.message}`);
+        } else if (error instanceof CommandTimeoutError) {
+            pty.write('\r\n');
+            options.onLog?.(`>>> ${error.message}`);
+        } else {
+            pty.write(`\x1b[31mSpawn Error: ${(error as Error).message}\x1b[0m\r\n`);
+            options.onLog?.(`Spawn Error: ${(error as Error).message}`);
         }
-    });
+        throw error;
+    }
 }
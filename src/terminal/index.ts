@@ -1 +1 @@
-export { BuildTerminal, createOrShowTerminal, runCommand, runCommandInDirectory, getGlobalTerminal, getGlobalPty, resetGlobalTerminal, setGlobalTerminal } from './TerminalManager';
+export { BUILD_TERMINAL_NAME, BuildTerminal, createOrShowTerminal, runCommand, runCommandInDirectory, RunCommandOptions, BuildCancelledError, CommandFailedError, onDidWriteOutput, killProcessTree, onDidRequestInterrupt, getGlobalTerminal, getGlobalPty, resetGlobalTerminal, setGlobalTerminal } from './TerminalManager';
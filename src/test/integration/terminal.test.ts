@@ -1,6 +1,6 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
-import { BuildTerminal, createOrShowTerminal, resetGlobalTerminal, getGlobalTerminal, getGlobalPty, setGlobalTerminal } from '../../terminal';
+import { BuildTerminal, createOrShowTerminal, resetGlobalTerminal, getGlobalTerminal, getGlobalPty, setGlobalTerminal, BuildCancelledError, onDidRequestInterrupt } from '../../terminal';
 
 suite('Terminal Test Suite', () => {
     // Note: These tests require VS Code API mocking for full functionality
@@ -61,6 +61,26 @@ suite('Terminal Test Suite', () => {
             terminal.close();
         });
     });
+
+    test('BuildTerminal: Ctrl+C should request interrupt', () => {
+        const terminal = new BuildTerminal();
+        let interrupted = 0;
+        const listener = onDidRequestInterrupt(() => interrupted++);
+
+        terminal.handleInput('a');
+        assert.strictEqual(interrupted, 0);
+
+        terminal.handleInput('\x03');
+        assert.strictEqual(interrupted, 1);
+        listener.dispose();
+    });
+
+    test('BuildCancelledError: should be distinguishable from normal errors', () => {
+        const error: unknown = new BuildCancelledError();
+        assert.ok(error instanceof BuildCancelledError);
+        assert.ok(error instanceof Error);
+        assert.ok(!(new Error('Exit code 1') instanceof BuildCancelledError));
+    });
 });
 
 // Note: Full integration tests for createOrShowTerminal would require
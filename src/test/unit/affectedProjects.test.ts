@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findAffectedProjects, isWatchedSourceFile, projectOwnsFile } from '../../services/AffectedProjects';
+
+function writeCbp(filePath: string, units: string[]) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<CodeBlocks_project_file><Project>',
+        ...units.map(u => `<Unit filename="${u}" />`),
+        '</Project></CodeBlocks_project_file>'
+    ].join('\n'));
+}
+
+suite('AffectedProjects Test Suite', () => {
+    let tempDir: string;
+    let appCbp: string;
+    let bootCbp: string;
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cbp-affected-'));
+        appCbp = path.join(tempDir, 'app', 'app.cbp');
+        bootCbp = path.join(tempDir, 'boot', 'boot.cbp');
+        writeCbp(appCbp, ['main.c', '../common/config.h']);
+        writeCbp(bootCbp, ['boot.c']);
+
+        // boot 的 compile_commands.json 中还有 .cbp 未列出的共享源文件
+        fs.writeFileSync(path.join(tempDir, 'boot', 'compile_commands.json'), JSON.stringify([
+            { directory: path.join(tempDir, 'boot'), file: '../common/crc.c', command: 'gcc -c ../common/crc.c' }
+        ]));
+    });
+
+    teardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('isWatchedSourceFile: sources, headers and assembly only', () => {
+        assert.ok(isWatchedSourceFile('main.c'));
+        assert.ok(isWatchedSourceFile('include/config.H'));
+        assert.ok(isWatchedSourceFile('start.S'));
+        assert.ok(!isWatchedSourceFile('README.md'));
+    });
+
+    test('projectOwnsFile: .cbp units, compile_commands.json entries and the .cbp itself', () => {
+        assert.ok(projectOwnsFile(appCbp, path.join(tempDir, 'common', 'config.h')));
+        assert.ok(projectOwnsFile(bootCbp, path.join(tempDir, 'common', 'crc.c')));
+        assert.ok(projectOwnsFile(bootCbp, bootCbp));
+        assert.ok(!projectOwnsFile(appCbp, path.join(tempDir, 'boot', 'boot.c')));
+    });
+
+    test('findAffectedProjects: keeps the given order and ignores other file types', () => {
+        assert.deepStrictEqual(findAffectedProjects(path.join(tempDir, 'app', 'main.c'), [bootCbp, appCbp]), [appCbp]);
+        assert.deepStrictEqual(findAffectedProjects(path.join(tempDir, 'common', 'crc.c'), [appCbp, bootCbp]), [bootCbp]);
+        assert.deepStrictEqual(findAffectedProjects(path.join(tempDir, 'app', 'notes.txt'), [appCbp]), []);
+    });
+});
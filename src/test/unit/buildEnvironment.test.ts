@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { applyEnvOverrides, describeEnvChanges, expandEnvReferences } from '../../services/BuildEnvironment';
+
+suite('BuildEnvironment Test Suite', () => {
+    const base = { PATH: ['/usr/bin', '/bin'].join(path.delimiter), SDK_ROOT: '/opt/sdk', LANG: 'C' };
+
+    test('expandEnvReferences: replaces ${env:VAR}, missing variables become empty', () => {
+        assert.strictEqual(expandEnvReferences('${env:SDK_ROOT}/bin:${env:MISSING}', base), '/opt/sdk/bin:');
+    });
+
+    test('applyEnvOverrides: set, unset and PATH prepend/append in order', () => {
+        const env = applyEnvOverrides(base, [
+            { set: { TOOLCHAIN: '${env:SDK_ROOT}/riscv' }, unset: ['LANG'] },
+            { pathPrepend: ['${env:TOOLCHAIN}/bin'], pathAppend: ['/extra'] }
+        ]);
+
+        assert.strictEqual(env.TOOLCHAIN, '/opt/sdk/riscv');
+        assert.strictEqual(env.LANG, undefined);
+        assert.strictEqual(env.PATH, ['/opt/sdk/riscv/bin', '/usr/bin', '/bin', '/extra'].join(path.delimiter));
+        // 不修改原始环境
+        assert.strictEqual(base.LANG, 'C');
+    });
+
+    test('applyEnvOverrides: later levels override earlier ones', () => {
+        const env = applyEnvOverrides(base, [
+            { set: { CHIP: 'generic' } },
+            { set: { CHIP: 'ab5301', CHIP_DIR: '${env:CHIP}' } }
+        ]);
+        assert.strictEqual(env.CHIP, 'ab5301');
+        assert.strictEqual(env.CHIP_DIR, 'ab5301');
+    });
+
+    test('describeEnvChanges: lists changed and removed variables', () => {
+        const env = applyEnvOverrides(base, [{ set: { SDK_ROOT: '/opt/sdk2' }, unset: ['LANG'] }]);
+        assert.deepStrictEqual(describeEnvChanges(base, env), ['-LANG', 'SDK_ROOT=/opt/sdk2']);
+    });
+});
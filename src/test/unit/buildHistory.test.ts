@@ -0,0 +1,166 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BuildHistoryStore, BuildLogCollector, BuildRunRecorder, createRunId, describeRunCounts, formatRunSummary } from '../../services/BuildHistory';
+import { ScheduledOutcome } from '../../services/BuildScheduler';
+import { CommandTimeoutError } from '../../services/CommandRunner';
+
+suite('BuildHistory Test Suite', () => {
+    let tempDir: string;
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cbp-history-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    async function createRecord(command: 'build' | 'clean' = 'build') {
+        const recorder = new BuildRunRecorder(command, ['/work/app.cbp', '/work/lib.cbp']);
+        recorder.setCbp2clangVersion('1.4.2');
+        await recorder.track('/work/app.cbp', async () => {
+            recorder.setTarget('/work/app.cbp', 'Release');
+            recorder.setDiagnosticCounts('/work/app.cbp', 2, 3);
+            recorder.recordFailure('/work/app.cbp', Object.assign(new Error('Exit code 1'), { exitCode: 1 }));
+            return 'failed';
+        });
+        const outcomes = new Map<string, ScheduledOutcome>([['/work/app.cbp', 'failed'], ['/work/lib.cbp', 'skipped']]);
+        return recorder.finish(outcomes, false);
+    }
+
+    test('createRunId: sortable timestamp', () => {
+        assert.strictEqual(createRunId(new Date(2026, 9, 19, 15, 30, 12, 42)), '20261019-153012-042');
+    });
+
+    test('BuildRunRecorder: records per-project results', async () => {
+        const record = await createRecord();
+
+        assert.strictEqual(record.command, 'build');
+        assert.strictEqual(record.status, 'failed');
+        assert.strictEqual(record.cbp2clangVersion, '1.4.2');
+
+        const [app, lib] = record.projects;
+        assert.strictEqual(app.name, 'app');
+        assert.strictEqual(app.status, 'failed');
+        assert.strictEqual(app.target, 'Release');
+        assert.strictEqual(app.exitCode, 1);
+        assert.strictEqual(app.errorCount, 2);
+        assert.strictEqual(app.warningCount, 3);
+        assert.ok(app.startTime);
+
+        assert.strictEqual(lib.status, 'skipped');
+        assert.strictEqual(lib.startTime, undefined);
+    });
+
+    test('BuildRunRecorder: cancelled run', () => {
+        const recorder = new BuildRunRecorder('clean', ['/work/app.cbp']);
+        const record = recorder.finish(new Map([['/work/app.cbp', 'cancelled']]), true);
+        assert.strictEqual(record.status, 'cancelled');
+        assert.strictEqual(record.projects[0].status, 'cancelled');
+    });
+
+    test('BuildLogCollector: strips ANSI and keeps the last progress update', () => {
+        const log = new BuildLogCollector();
+        log.append('\x1b[36m=== 开始 ===\x1b[0m\r\n');
+        log.append('\r\x1b[K\x1b[32m[1/2]\x1b[0m Building a.c');
+        log.append('\r\x1b[K\x1b[32m[2/2]\x1b[0m Linking app');
+        log.append('\r\nerror: failed\r\n');
+        assert.strictEqual(log.getText(), '=== 开始 ===\n[2/2] Linking app\nerror: failed\n');
+    });
+
+    test('BuildHistoryStore: persists runs and logs', async () => {
+        const store = new BuildHistoryStore(tempDir);
+        const saved = store.addRun(await createRecord(), 'build output');
+
+        assert.strictEqual(saved.logFile, `history/${saved.id}.log`);
+        const logPath = store.getLogPath(saved);
+        assert.ok(logPath);
+        assert.strictEqual(fs.readFileSync(logPath!, 'utf-8'), 'build output');
+
+        const reloaded = new BuildHistoryStore(tempDir);
+        assert.strictEqual(reloaded.getRuns().length, 1);
+        assert.strictEqual(reloaded.getRuns()[0].projects[0].exitCode, 1);
+    });
+
+    test('BuildHistoryStore: newest first, trims old runs with their logs', async () => {
+        const store = new BuildHistoryStore(tempDir, 2);
+        const runs = [];
+        for (let i = 0; i < 3; i++) {
+            runs.push(store.addRun({ ...(await createRecord()), id: `run-${i}` }, `log ${i}`));
+        }
+
+        assert.deepStrictEqual(store.getRuns().map(r => r.id), ['run-2', 'run-1']);
+        assert.ok(!fs.existsSync(path.join(tempDir, 'history', 'run-0.log')));
+        assert.ok(fs.existsSync(path.join(tempDir, 'history', 'run-2.log')));
+    });
+
+    test('BuildHistoryStore: clear removes runs and logs', async () => {
+        const store = new BuildHistoryStore(tempDir);
+        const saved = store.addRun(await createRecord(), 'log');
+        store.clear();
+
+        assert.strictEqual(store.getRuns().length, 0);
+        assert.ok(!fs.existsSync(path.join(tempDir, saved.logFile!)));
+        assert.strictEqual(new BuildHistoryStore(tempDir).getRuns().length, 0);
+    });
+
+    test('BuildHistoryStore: keeps runs added by another store (cbp-build run) after loading', async () => {
+        const extension = new BuildHistoryStore(tempDir);
+        extension.addRun({ ...(await createRecord()), id: 'run-0' }, 'log 0');
+
+        const cli = new BuildHistoryStore(tempDir);
+        cli.addRun({ ...(await createRecord()), id: 'run-1' }, 'log 1');
+        assert.deepStrictEqual(extension.getRuns().map(r => r.id), ['run-0']);
+
+        extension.addRun({ ...(await createRecord()), id: 'run-2' }, 'log 2');
+        assert.deepStrictEqual(new BuildHistoryStore(tempDir).getRuns().map(r => r.id), ['run-2', 'run-1', 'run-0']);
+
+        cli.reload();
+        assert.deepStrictEqual(cli.getRuns().map(r => r.id), ['run-2', 'run-1', 'run-0']);
+
+        extension.clear();
+        assert.ok(!fs.existsSync(path.join(tempDir, 'history', 'run-1.log')));
+    });
+
+    test('BuildHistoryStore: corrupted history file', () => {
+        fs.writeFileSync(path.join(tempDir, 'history.json'), '{ invalid');
+        assert.deepStrictEqual(new BuildHistoryStore(tempDir).getRuns(), []);
+    });
+
+    test('formatRunSummary and describeRunCounts: one row per project', () => {
+        const recorder = new BuildRunRecorder('build', ['/w/app.cbp', '/w/boot.cbp', '/w/lib.cbp']);
+        recorder.setTarget('/w/app.cbp', 'Release');
+        recorder.setDiagnosticCounts('/w/boot.cbp', 2, 5);
+        const outcomes = new Map<string, ScheduledOutcome>([
+            ['/w/app.cbp', 'success'],
+            ['/w/boot.cbp', 'failed'],
+            ['/w/lib.cbp', 'skipped']
+        ]);
+        const record = recorder.finish(outcomes, false);
+
+        const lines = formatRunSummary(record);
+        assert.strictEqual(lines.length, 4);
+        assert.ok(lines[0].startsWith('项目'));
+        assert.ok(lines[1].startsWith('app (Release)'));
+        assert.ok(lines[1].includes('成功'));
+        assert.ok(/失败\s+\S+\s+2\s+5$/.test(lines[2]));
+        assert.ok(/跳过\s+-\s+0\s+0$/.test(lines[3]));
+        assert.strictEqual(describeRunCounts(record), '共 3 个项目: 成功 1, 失败 1, 跳过 1');
+    });
+
+    test('formatRunSummary and describeRunCounts: timeouts are a distinct failure reason', () => {
+        const recorder = new BuildRunRecorder('build', ['/w/app.cbp', '/w/boot.cbp']);
+        recorder.recordFailure('/w/app.cbp', new CommandTimeoutError('timeout', 600));
+        recorder.recordFailure('/w/boot.cbp', Object.assign(new Error('Exit code 2'), { exitCode: 2 }));
+        const record = recorder.finish(new Map<string, ScheduledOutcome>([['/w/app.cbp', 'failed'], ['/w/boot.cbp', 'failed']]), false);
+
+        assert.strictEqual(record.projects[0].failureReason, 'timeout');
+        assert.strictEqual(record.projects[1].failureReason, undefined);
+        const lines = formatRunSummary(record);
+        assert.ok(lines[1].includes('失败 (超时)'));
+        assert.ok(!lines[2].includes('('));
+        assert.strictEqual(describeRunCounts(record), '共 2 个项目: 失败 2 (超时 1)');
+    });
+});
@@ -0,0 +1,217 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BuildPipeline, BuildPipelineEvent, BuildPipelineOptions, Cbp2clangVersionError, StepCommandRequest } from '../../services/BuildPipeline';
+import { BuildSettings, readBuildSettings } from '../../services/BuildSteps';
+import { CommandFailedError, CommandTimeoutError } from '../../services/CommandRunner';
+import { ConvertStampStore } from '../../services/IncrementalBuild';
+
+suite('BuildPipeline Test Suite', () => {
+    let tempDir: string;
+    let requests: StepCommandRequest[];
+    let events: BuildPipelineEvent[];
+
+    function createProject(name: string): string {
+        const dir = path.join(tempDir, name);
+        fs.mkdirSync(dir, { recursive: true });
+        const cbpPath = path.join(dir, `${name}.cbp`);
+        fs.writeFileSync(cbpPath, `<CodeBlocks_project_file><Project><Option title="${name}" /><Build><Target title="Release" /></Build></Project></CodeBlocks_project_file>`);
+        return cbpPath;
+    }
+
+    function createSettings(overrides: Partial<BuildSettings> = {}): BuildSettings {
+        return {
+            ...readBuildSettings((_key, defaultValue) => defaultValue),
+            convertCommand: 'convert {cbpFile}',
+            buildCommand: 'build {target}',
+            cleanCommand: 'clean',
+            noHeaderInsertion: false,
+            stopOnFailure: false,
+            ...overrides
+        };
+    }
+
+    // 假的命令执行器：记录请求，按 outputs 输出行，命令在 failing 中时以退出码 2 失败
+    function createPipeline(options: Partial<BuildPipelineOptions> & Pick<BuildPipelineOptions, 'command' | 'projects'>, outputs: Record<string, string[]> = {}, failing: string[] = []) {
+        const stamps = new ConvertStampStore(null);
+        const pipeline = new BuildPipeline({
+            settings: createSettings(),
+            getWorkspaceRoot: () => tempDir,
+            getConfigSources: () => [],
+            getConvertStamps: () => stamps,
+            checkVersion: async () => '9.9.9',
+            runner: async request => {
+                requests.push(request);
+                (outputs[request.command] ?? []).forEach(line => request.onLine(line));
+                if (failing.includes(request.command)) {
+                    throw new CommandFailedError(2);
+                }
+            },
+            ...options
+        });
+        pipeline.onEvent(event => events.push(event));
+        return pipeline;
+    }
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cbp-pipeline-'));
+        requests = [];
+        events = [];
+    });
+
+    teardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('build: runs hooks, convert and build in order and reports step events', async () => {
+        const app = createProject('app');
+        const pipeline = createPipeline({
+            command: 'build',
+            projects: [{ fsPath: app }],
+            getConfigSources: () => [{ preBuild: ['pre {projectName}'], postBuild: ['post'] }]
+        }, { 'build Release': ['main.c:3:5: error: boom', 'main.c:4:1: warning: hmm'] });
+
+        const { record, upToDateProjects } = await pipeline.run();
+        assert.deepStrictEqual(requests.map(r => [r.step, r.command]), [
+            ['preBuild', 'pre app'],
+            ['convert', `convert ${app}`],
+            ['build', 'build Release'],
+            ['postBuild', 'post']
+        ]);
+        assert.strictEqual(requests[1].cwd, tempDir);
+        assert.strictEqual(requests[2].cwd, path.dirname(app));
+        assert.deepStrictEqual(upToDateProjects, []);
+        assert.deepStrictEqual(record.projects.map(p => [p.status, p.target, p.errorCount, p.warningCount]), [['success', 'Release', 1, 1]]);
+        assert.strictEqual(record.cbp2clangVersion, '9.9.9');
+
+        const types = events.filter(e => e.type !== 'output' && e.type !== 'stepFinish').map(e => e.type === 'stepStart' ? `${e.type}:${e.step}` : e.type);
+        assert.deepStrictEqual(types, [
+            'versionCheckStart', 'versionChecked', 'runStart', 'projectStart', 'target',
+            'stepStart:preBuild', 'stepStart:convert', 'stepStart:build', 'stepStart:postBuild', 'projectFinish'
+        ]);
+        assert.deepStrictEqual(events.filter(e => e.type === 'output').map(e => e.type === 'output' && e.step), ['build', 'build']);
+    });
+
+    test('rebuild: skips clean without build.ninja, failed dependency skips dependents', async () => {
+        const boot = createProject('boot');
+        const app = createProject('app');
+        const pipeline = createPipeline({
+            command: 'rebuild',
+            settings: createSettings({ cleanCommand: '{ninja} -t clean' }),
+            projects: [{ fsPath: boot }, { fsPath: app }],
+            getDependencies: () => new Map([[app, [boot]]])
+        }, {}, ['build Release']);
+
+        const { record } = await pipeline.run();
+        assert.deepStrictEqual(record.projects.map(p => [p.name, p.status, p.exitCode]), [
+            ['boot', 'failed', 2],
+            ['app', 'skipped', undefined]
+        ]);
+        const skipped = events.find(e => e.type === 'stepSkipped');
+        assert.ok(skipped?.type === 'stepSkipped' && skipped.step === 'clean' && skipped.reason.includes('build.ninja'));
+        assert.ok(events.some(e => e.type === 'projectSkipped' && e.project === app && e.dependency === boot));
+        assert.ok(events.some(e => e.type === 'stepFinish' && e.step === 'build' && e.status === 'failed'));
+        assert.deepStrictEqual(pipeline.format(events.find(e => e.type === 'projectFinish')!), [`\x1b[31m!!! 项目 boot 重新编译失败: Exit code 2\x1b[0m`]);
+    });
+
+    test('build: incremental build skips an unchanged convert and an up-to-date ninja build', async () => {
+        const app = createProject('app');
+        const stamps = new ConvertStampStore(null);
+        const options = {
+            command: 'build' as const,
+            settings: createSettings({ incrementalBuild: true }),
+            projects: [{ fsPath: app }],
+            getConvertStamps: () => stamps,
+            checkUpToDate: async () => true
+        };
+
+        await createPipeline(options).run();
+        assert.deepStrictEqual(requests.map(r => r.step), ['convert']);
+
+        requests = [];
+        events = [];
+        const { upToDateProjects } = await createPipeline(options).run();
+        assert.deepStrictEqual(requests, []);
+        assert.deepStrictEqual(upToDateProjects, [app]);
+        assert.deepStrictEqual(events.filter(e => e.type === 'stepSkipped').map(e => e.type === 'stepSkipped' && e.step), ['convert', 'build']);
+        assert.ok(events.some(e => e.type === 'projectFinish' && e.upToDate));
+    });
+
+    test('clean: no version check, failures do not stop other projects', async () => {
+        const boot = createProject('boot');
+        const app = createProject('app');
+        let versionChecked = false;
+        const pipeline = createPipeline({
+            command: 'clean',
+            settings: createSettings({ stopOnFailure: true }),
+            projects: [{ fsPath: boot }, { fsPath: app }],
+            checkVersion: async () => { versionChecked = true; return '9.9.9'; }
+        }, {}, ['clean']);
+
+        const { record } = await pipeline.run();
+        assert.strictEqual(versionChecked, false);
+        assert.deepStrictEqual(record.projects.map(p => p.status), ['failed', 'failed']);
+        assert.deepStrictEqual(requests.map(r => r.step), ['clean', 'clean']);
+    });
+
+    test('build: passes step timeouts and kills a stalled command when confirmed', async () => {
+        const app = createProject('app');
+        const stalled: string[] = [];
+        const pipeline = createPipeline({
+            command: 'build',
+            settings: createSettings({ convertTimeout: 30, buildTimeout: 600, hangWatchdog: 60 }),
+            projects: [{ fsPath: app }],
+            getConfigSources: () => [{ preBuild: ['pre'] }],
+            confirmKillStalled: async ({ step, silentSeconds }) => {
+                stalled.push(`${step}:${silentSeconds}`);
+                return true;
+            },
+            runner: async request => {
+                requests.push(request);
+                if (request.step === 'build' && await request.onStall(61000)) {
+                    throw new CommandTimeoutError('stalled', 61);
+                }
+            }
+        });
+
+        const { record } = await pipeline.run();
+        assert.deepStrictEqual(requests.map(r => [r.step, r.timeoutMs, r.stallMs]), [
+            ['preBuild', 0, 60000],
+            ['convert', 30000, 60000],
+            ['build', 600000, 60000]
+        ]);
+        assert.deepStrictEqual(stalled, ['build:61']);
+        assert.deepStrictEqual(record.projects.map(p => [p.status, p.failureReason]), [['failed', 'stalled']]);
+
+        const warning = events.find(e => e.type === 'stepStalled')!;
+        assert.deepStrictEqual(pipeline.format(warning), ['\x1b[33m警告: 构建脚本已 61 秒没有输出，可能在等待输入或已卡住\x1b[0m']);
+    });
+
+    test('run: an outdated cbp2clangd fails before any project runs', async () => {
+        const app = createProject('app');
+        const pipeline = createPipeline({ command: 'build', projects: [{ fsPath: app }], checkVersion: async () => '1.0.0' });
+
+        await assert.rejects(pipeline.run(), Cbp2clangVersionError);
+        assert.deepStrictEqual(requests, []);
+    });
+
+    test('format: step labels and output prefixes for parallel builds', async () => {
+        const boot = createProject('boot');
+        const app = createProject('app');
+        const pipeline = createPipeline({
+            command: 'build',
+            settings: createSettings({ maxParallelBuilds: 2 }),
+            projects: [{ fsPath: boot }, { fsPath: app }]
+        });
+
+        assert.deepStrictEqual(pipeline.format({ type: 'stepStart', project: app, step: 'convert', command: 'convert' }), [
+            '[app] 执行的转换命令: convert',
+            '[app] \x1b[32m[1/2] 生成 Compile Commands...\x1b[0m'
+        ]);
+        assert.deepStrictEqual(pipeline.format({ type: 'runStart', parallel: true, concurrency: 2 }), ['并行构建: 最多同时处理 2 个项目']);
+
+        await pipeline.run();
+        assert.ok(requests.every(r => r.outputPrefix === `[${path.basename(r.project, '.cbp')}] `));
+    });
+});
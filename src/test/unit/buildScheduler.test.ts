@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import { runScheduled, ProjectRunResult } from '../../services/BuildScheduler';
+
+interface FakeProject {
+    id: string;
+    deps?: string[];
+    result?: ProjectRunResult;
+}
+
+suite('BuildScheduler Test Suite', () => {
+    // 记录执行顺序与最大并发数
+    function createRunner(delayMs = 5) {
+        const started: string[] = [];
+        let active = 0;
+        let maxActive = 0;
+        const run = async (p: FakeProject): Promise<ProjectRunResult> => {
+            started.push(p.id);
+            active++;
+            maxActive = Math.max(maxActive, active);
+            await new Promise(resolve => setTimeout(resolve, delayMs));
+            active--;
+            return p.result ?? 'success';
+        };
+        return { started, run, getMaxActive: () => maxActive };
+    }
+
+    function baseOptions(run: (p: FakeProject) => Promise<ProjectRunResult>) {
+        return {
+            concurrency: 1,
+            stopOnFailure: false,
+            getId: (p: FakeProject) => p.id,
+            getDependencies: (p: FakeProject) => p.deps ?? [],
+            isCancelled: () => false,
+            run
+        };
+    }
+
+    test('serial: runs in queue order', async () => {
+        const runner = createRunner();
+        const items = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+        const outcomes = await runScheduled(items, baseOptions(runner.run));
+        assert.deepStrictEqual(runner.started, ['a', 'b', 'c']);
+        assert.strictEqual(runner.getMaxActive(), 1);
+        assert.strictEqual(outcomes.get('c'), 'success');
+    });
+
+    test('parallel: respects concurrency limit', async () => {
+        const runner = createRunner();
+        const items = [{ id: 'a' }, { id: 'b' }, { id: 'c' }, { id: 'd' }, { id: 'e' }];
+        await runScheduled(items, { ...baseOptions(runner.run), concurrency: 2 });
+        assert.strictEqual(runner.getMaxActive(), 2);
+        assert.strictEqual(runner.started.length, 5);
+    });
+
+    test('parallel: dependency waits for its prerequisite', async () => {
+        const runner = createRunner();
+        const items = [{ id: 'app', deps: ['lib'] }, { id: 'lib' }, { id: 'other' }];
+        await runScheduled(items, { ...baseOptions(runner.run), concurrency: 3 });
+        assert.ok(runner.started.indexOf('lib') < runner.started.indexOf('app'));
+    });
+
+    test('failed dependency skips dependents', async () => {
+        const runner = createRunner();
+        const skipped: string[] = [];
+        const items: FakeProject[] = [{ id: 'lib', result: 'failed' }, { id: 'app', deps: ['lib'] }, { id: 'other' }];
+        const outcomes = await runScheduled(items, {
+            ...baseOptions(runner.run),
+            onSkipped: (p: FakeProject) => skipped.push(p.id)
+        });
+        assert.strictEqual(outcomes.get('lib'), 'failed');
+        assert.strictEqual(outcomes.get('app'), 'skipped');
+        assert.strictEqual(outcomes.get('other'), 'success');
+        assert.deepStrictEqual(skipped, ['app']);
+    });
+
+    test('stopOnFailure: no new projects are started', async () => {
+        const runner = createRunner();
+        const items: FakeProject[] = [{ id: 'a', result: 'failed' }, { id: 'b' }];
+        const outcomes = await runScheduled(items, { ...baseOptions(runner.run), stopOnFailure: true });
+        assert.deepStrictEqual(runner.started, ['a']);
+        assert.strictEqual(outcomes.get('b'), 'skipped');
+    });
+
+    test('cancellation marks remaining projects as cancelled', async () => {
+        let cancelled = false;
+        const runner = createRunner();
+        const items: FakeProject[] = [{ id: 'a' }, { id: 'b' }];
+        const outcomes = await runScheduled(items, {
+            ...baseOptions(async (p) => {
+                cancelled = true;
+                return runner.run(p);
+            }),
+            isCancelled: () => cancelled
+        });
+        assert.deepStrictEqual(runner.started, ['a']);
+        assert.strictEqual(outcomes.get('b'), 'cancelled');
+    });
+
+    test('cycle does not hang', async () => {
+        const runner = createRunner();
+        const items = [{ id: 'a', deps: ['b'] }, { id: 'b', deps: ['a'] }];
+        const outcomes = await runScheduled(items, baseOptions(runner.run));
+        assert.strictEqual(runner.started.length, 0);
+        assert.strictEqual(outcomes.get('a'), 'skipped');
+    });
+});
@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { BuildStatusBar } from '../../services/BuildStatusBar';
+import { BuildRunRecord } from '../../models/BuildHistory';
+
+suite('BuildStatusBar Test Suite', () => {
+    let statusBar: BuildStatusBar;
+
+    setup(() => {
+        statusBar = new BuildStatusBar();
+    });
+
+    teardown(() => {
+        statusBar.dispose();
+    });
+
+    function item(): Readonly<vscode.StatusBarItem> {
+        return statusBar.statusBarItem;
+    }
+
+    function record(status: BuildRunRecord['status']): BuildRunRecord {
+        return {
+            id: 'run',
+            command: 'build',
+            startTime: '2026-10-19T08:00:00.000Z',
+            endTime: '2026-10-19T08:00:12.300Z',
+            status,
+            projects: []
+        };
+    }
+
+    test('idle: runs the build on click', () => {
+        assert.strictEqual(item().command, 'cbp-build-manager.buildSelected');
+    });
+
+    test('running: shows project, queue position and ninja progress', () => {
+        statusBar.beginRun(7);
+        statusBar.projectStarted('app');
+        statusBar.projectStarted('driver');
+        statusBar.reportOutput('driver', '[45/120] Building main.c');
+
+        assert.strictEqual(item().text, '$(sync~spin) driver (2/7) [45/120]');
+        assert.strictEqual(item().command, 'cbp-build-manager.showBuildTerminal');
+    });
+
+    test('finished: shows last result with duration', () => {
+        statusBar.beginRun(1);
+        statusBar.endRun(record('failed'));
+
+        assert.strictEqual(item().text, '$(error) 构建失败 12.3s');
+        assert.strictEqual(item().command, 'cbp-build-manager.buildSelected');
+
+        // 没有结果的流程结束后保留上次结果
+        statusBar.beginRun(1);
+        statusBar.endRun();
+        assert.strictEqual(item().text, '$(error) 构建失败 12.3s');
+    });
+});
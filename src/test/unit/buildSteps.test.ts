@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_CLEAN_COMMAND, createBuildCommand, createCommandVariables, createConvertCommand, getCleanCommand, getCleanSkipReason, readBuildSettings } from '../../services/BuildSteps';
+
+suite('BuildSteps Test Suite', () => {
+    const defaults = readBuildSettings((_key, defaultValue) => defaultValue);
+
+    test('readBuildSettings: defaults match the extension settings', () => {
+        assert.strictEqual(defaults.convertCommand, '{cbp2clang} {cbpFile} {compileCommands} -l ld');
+        assert.strictEqual(defaults.buildCommand, './build.bat');
+        assert.strictEqual(defaults.maxParallelBuilds, 1);
+        assert.strictEqual(defaults.noHeaderInsertion, true);
+        assert.strictEqual(defaults.stopOnFailure, true);
+
+        const settings = readBuildSettings(<T>(key: string, defaultValue: T) => (key === 'ninjaPath' ? 'C:/tools/ninja.exe' : defaultValue) as T);
+        assert.strictEqual(settings.ninjaPath, 'C:/tools/ninja.exe');
+    });
+
+    test('createCommandVariables: project, folder and chip variables', () => {
+        const variables = createCommandVariables(defaults, '/ws/project/ab53/app/app.cbp', '/ws', 'Release');
+        assert.strictEqual(variables.projectDir, '/ws/project/ab53/app');
+        assert.strictEqual(variables.projectName, 'app');
+        assert.strictEqual(variables.workspaceFolder, '/ws');
+        assert.strictEqual(variables.chip, 'ab53');
+        assert.strictEqual(createCommandVariables(defaults, '/ws/app/app.cbp', '/ws', '').chip, '');
+    });
+
+    test('createConvertCommand: expands the template and appends options', () => {
+        const context = { variables: createCommandVariables(defaults, '/ws/app/app.cbp', '/ws', 'Release'), shell: 'posix' as const };
+        assert.strictEqual(createConvertCommand(defaults, context), 'cbp2clang /ws/app/app.cbp /ws -l ld --no-header-insertion');
+        assert.strictEqual(createConvertCommand({ ...defaults, noHeaderInsertion: false }, context), 'cbp2clang /ws/app/app.cbp /ws -l ld');
+
+        const settings = { ...defaults, ninjaPath: '/opt/my tools/ninja', noHeaderInsertion: true, debug: true, convertCommand: '{cbp2clang} {cbpFile} -t {target}' };
+        assert.strictEqual(createConvertCommand(settings, context),
+            `cbp2clang /ws/app/app.cbp -t Release --ninja '/opt/my tools/ninja' --no-header-insertion --debug`);
+    });
+
+    test('createBuildCommand / getCleanCommand: templates with the configured ninja', () => {
+        const context = { variables: createCommandVariables(defaults, '/ws/app/app.cbp', '/ws', ''), shell: 'cmd' as const };
+        assert.strictEqual(createBuildCommand({ ...defaults, buildCommand: 'build.bat {projectName}' }, context), 'build.bat app');
+        assert.strictEqual(getCleanCommand(defaults, context), 'ninja -t clean');
+        const ninjaSettings = { ...defaults, ninjaPath: 'C:\\Program Files\\ninja.exe' };
+        const ninjaContext = { ...context, variables: createCommandVariables(ninjaSettings, '/ws/app/app.cbp', '/ws', '') };
+        assert.strictEqual(getCleanCommand(ninjaSettings, ninjaContext), '"C:\\Program Files\\ninja.exe" -t clean');
+        assert.strictEqual(getCleanCommand({ ...defaults, cleanCommand: 'make -C {projectDir} clean' }, context), 'make -C /ws/app clean');
+    });
+
+    test('getCleanSkipReason: empty command, or default command before the first conversion', () => {
+        const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cbp-clean-'));
+        try {
+            assert.strictEqual(defaults.cleanCommand, DEFAULT_CLEAN_COMMAND);
+            assert.ok(getCleanSkipReason(defaults, projectDir)?.includes('build.ninja'));
+            assert.strictEqual(getCleanSkipReason({ ...defaults, cleanCommand: 'make clean' }, projectDir), undefined);
+            assert.ok(getCleanSkipReason({ ...defaults, cleanCommand: ' ' }, projectDir));
+
+            fs.writeFileSync(path.join(projectDir, 'build.ninja'), '');
+            assert.strictEqual(getCleanSkipReason(defaults, projectDir), undefined);
+        } finally {
+            fs.rmSync(projectDir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,134 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import {
+    parseCbpProject, loadCbpProject, decodeCbpContent, clearCbpProjectCache, getTargetNames,
+    getEffectiveCompilerSettings, getEffectiveLinkerSettings, getUnitsForTarget, resolveProjectPath,
+    projectContainsFile, findProjectsForFile
+} from '../../services/CbpProjectParser';
+import { parseXml } from '../../utils/XmlParser';
+
+// 测试编译输出在 out/test/unit，fixture 保留在源码目录
+const fixtureDir = path.resolve(__dirname, '../../../src/test/fixtures/cbp');
+const appCbp = path.join(fixtureDir, 'app.cbp');
+const driverCbp = path.join(fixtureDir, 'driver_gbk.cbp');
+
+suite('CbpProjectParser Test Suite', () => {
+    setup(() => {
+        clearCbpProjectCache();
+    });
+
+    // ==================== parseXml ====================
+
+    test('parseXml: attributes, self-closing tags and comments', () => {
+        const root = parseXml('<?xml version="1.0"?><!-- c --><a x="1"><b y=\'a &amp; b\' /><c></c></a>');
+        assert.strictEqual(root.name, 'a');
+        assert.strictEqual(root.attributes.x, '1');
+        assert.strictEqual(root.children.length, 2);
+        assert.strictEqual(root.children[0].attributes.y, 'a & b');
+    });
+
+    test('parseXml: attribute value containing >', () => {
+        const root = parseXml('<a cmd="echo a > b.txt" />');
+        assert.strictEqual(root.attributes.cmd, 'echo a > b.txt');
+    });
+
+    test('parseXml: mismatched tags throw', () => {
+        assert.throws(() => parseXml('<a><b></a>'));
+        assert.throws(() => parseXml('<a>'));
+    });
+
+    // ==================== parseCbpProject ====================
+
+    test('parseCbpProject: project options and targets', () => {
+        const project = loadCbpProject(appCbp)!;
+        assert.ok(project);
+        assert.strictEqual(project.title, 'watch_app');
+        assert.strictEqual(project.compiler, 'riscv32');
+        assert.deepStrictEqual(getTargetNames(project), ['Debug', 'Release']);
+        assert.deepStrictEqual(project.virtualFolders, ['src/', 'inc/']);
+        assert.deepStrictEqual(project.depends, ['driver_gbk.cbp']);
+
+        const debug = project.targets[0];
+        assert.strictEqual(debug.output, 'output/bin/app.elf');
+        assert.strictEqual(debug.objectOutput, 'output/obj/Debug/');
+        assert.strictEqual(debug.type, 1);
+        assert.strictEqual(debug.outputPrefixAuto, false);
+        assert.deepStrictEqual(debug.extraCommands.before, ['python gen_version.py']);
+        assert.strictEqual(debug.extraCommands.after.length, 1);
+    });
+
+    test('parseCbpProject: compiler and linker settings', () => {
+        const project = loadCbpProject(appCbp)!;
+        assert.deepStrictEqual(project.compilerSettings.defines, ['CHIP_BT5790']);
+        assert.deepStrictEqual(project.compilerSettings.includeDirs, ['inc', '..\\lib\\include']);
+        assert.deepStrictEqual(project.linkerSettings.libraries, ['m']);
+        assert.deepStrictEqual(project.linkerSettings.libraryDirs, ['../lib/output']);
+
+        const debugSettings = getEffectiveCompilerSettings(project, 'Debug');
+        assert.deepStrictEqual(debugSettings.defines, ['CHIP_BT5790', 'DEBUG=1']);
+        assert.deepStrictEqual(debugSettings.options, ['-Wall', '-DCHIP_BT5790', '-g', '-DDEBUG=1']);
+
+        const debugLinker = getEffectiveLinkerSettings(project, 'Debug');
+        assert.deepStrictEqual(debugLinker.libraries, ['m', '../lib/output/libdriver.a']);
+    });
+
+    test('parseCbpProject: units and target membership', () => {
+        const project = loadCbpProject(appCbp)!;
+        assert.strictEqual(project.units.length, 4);
+
+        const ldUnit = project.units.find(u => u.filename === 'ld/app.ld')!;
+        assert.strictEqual(ldUnit.compile, false);
+        assert.strictEqual(ldUnit.link, false);
+
+        const shell = project.units.find(u => u.filename === 'src\\debug_shell.c')!;
+        assert.deepStrictEqual(shell.targets, ['Debug']);
+        assert.strictEqual(shell.virtualFolder, 'src/');
+
+        assert.strictEqual(getUnitsForTarget(project, 'Debug').length, 4);
+        assert.strictEqual(getUnitsForTarget(project, 'Release').length, 3);
+    });
+
+    test('parseCbpProject: non Code::Blocks file throws', () => {
+        assert.throws(() => parseCbpProject('<root />', 'x.cbp'));
+        assert.throws(() => parseCbpProject('<CodeBlocks_project_file />', 'x.cbp'));
+    });
+
+    // ==================== 编码 ====================
+
+    test('decodeCbpContent: GBK project file', () => {
+        const content = decodeCbpContent(fs.readFileSync(driverCbp));
+        assert.ok(content.includes('驱动库'));
+    });
+
+    test('loadCbpProject: GBK project title, defines and units', () => {
+        const project = loadCbpProject(driverCbp)!;
+        assert.ok(project);
+        assert.strictEqual(project.title, '驱动库');
+        assert.deepStrictEqual(project.compilerSettings.defines, ['NAME="驱动"']);
+        assert.strictEqual(project.units[0].filename, 'src/串口.c');
+        assert.strictEqual(project.targets[0].type, 2);
+        assert.strictEqual(project.targets[0].outputPrefixAuto, true);
+    });
+
+    test('loadCbpProject: missing file returns null', () => {
+        assert.strictEqual(loadCbpProject(path.join(fixtureDir, 'missing.cbp')), null);
+    });
+
+    // ==================== 文件查找 ====================
+
+    test('resolveProjectPath: backslash relative paths', () => {
+        const project = loadCbpProject(appCbp)!;
+        assert.strictEqual(resolveProjectPath(project, 'src\\debug_shell.c'), path.join(fixtureDir, 'src', 'debug_shell.c'));
+    });
+
+    test('projectContainsFile / findProjectsForFile', () => {
+        const project = loadCbpProject(appCbp)!;
+        const mainC = path.join(fixtureDir, 'src', 'main.c');
+        assert.strictEqual(projectContainsFile(project, mainC), true);
+        assert.strictEqual(projectContainsFile(project, path.join(fixtureDir, 'src', 'other.c')), false);
+
+        const found = findProjectsForFile(path.join(fixtureDir, 'src', '串口.c'), [appCbp, driverCbp]);
+        assert.deepStrictEqual(found.map(p => p.title), ['驱动库']);
+    });
+});
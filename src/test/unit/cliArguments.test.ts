@@ -0,0 +1,27 @@
+import * as assert from 'assert';
+import { CliUsageError, parseCliArguments } from '../../cli/CliArguments';
+
+suite('CliArguments Test Suite', () => {
+    test('parseCliArguments: defaults to build, help returns null', () => {
+        assert.deepStrictEqual(parseCliArguments(['run']), { command: 'build' });
+        assert.strictEqual(parseCliArguments([]), null);
+        assert.strictEqual(parseCliArguments(['run', '--help']), null);
+    });
+
+    test('parseCliArguments: options with separate and inline values', () => {
+        assert.deepStrictEqual(parseCliArguments(['run', '--command', 'rebuild', '--profile=发布', '--workspace', 'ws', '--no-stop-on-failure']), {
+            command: 'rebuild',
+            profile: '发布',
+            workspace: 'ws',
+            stopOnFailure: false
+        });
+        assert.strictEqual(parseCliArguments(['run', '--stop-on-failure'])?.stopOnFailure, true);
+    });
+
+    test('parseCliArguments: rejects unknown commands, options and missing values', () => {
+        assert.throws(() => parseCliArguments(['build']), CliUsageError);
+        assert.throws(() => parseCliArguments(['run', '--command', 'deploy']), CliUsageError);
+        assert.throws(() => parseCliArguments(['run', '--profile']), CliUsageError);
+        assert.throws(() => parseCliArguments(['run', '--verbose']), CliUsageError);
+    });
+});
@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { CommandFailedError, CommandTimeoutError, spawnCommand } from '../../services/CommandRunner';
+
+suite('CommandRunner Test Suite', () => {
+    const node = `"${process.execPath}"`;
+
+    test('spawnCommand: non-zero exit code', async () => {
+        await assert.rejects(spawnCommand(`${node} -e "process.exit(3)"`, undefined), (error: unknown) =>
+            error instanceof CommandFailedError && error.exitCode === 3 && error.message === 'Exit code 3');
+    });
+
+    test('spawnCommand: a command killed by a signal reports the signal name', async function () {
+        if (process.platform === 'win32') {this.skip();}
+        await assert.rejects(spawnCommand('kill -TERM $$', undefined), (error: unknown) =>
+            error instanceof CommandFailedError && error.exitCode === null && error.signal === 'SIGTERM' && error.message === 'Killed by signal SIGTERM');
+    });
+
+    test('spawnCommand: kill chosen after output resumed during the stall prompt is ignored', async () => {
+        const lines: string[] = [];
+        let prompts = 0;
+        await spawnCommand(`${node} -e "setTimeout(() => { console.log('resumed'); setTimeout(() => {}, 300); }, 400)"`, undefined, {
+            stallMs: 200,
+            onLine: line => lines.push(line),
+            // 第一次询问在输出恢复之后才回答"结束"
+            onStall: () => ++prompts === 1 ? new Promise(resolve => setTimeout(() => resolve(true), 400)) : false
+        });
+        assert.ok(lines.includes('resumed'));
+        assert.ok(prompts >= 1);
+    });
+
+    test('spawnCommand: kill chosen while still silent ends the command', async () => {
+        await assert.rejects(spawnCommand(`${node} -e "setTimeout(() => {}, 30000)"`, undefined, {
+            stallMs: 200,
+            onStall: () => true
+        }), (error: unknown) => error instanceof CommandTimeoutError && error.reason === 'stalled');
+    });
+});
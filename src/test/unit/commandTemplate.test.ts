@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import { CommandTemplateError, quoteShellArgument, renderCommandTemplate } from '../../services/CommandTemplate';
+
+suite('CommandTemplate Test Suite', () => {
+    const variables = { cbpFile: '/ws/我的 工程/app.cbp', target: 'Release', projectName: 'app' };
+
+    test('quoteShellArgument: quotes only when needed', () => {
+        assert.strictEqual(quoteShellArgument('/ws/app/app.cbp', 'posix'), '/ws/app/app.cbp');
+        assert.strictEqual(quoteShellArgument('/ws/my app', 'posix'), `'/ws/my app'`);
+        assert.strictEqual(quoteShellArgument(`it's`, 'posix'), `'it'\\''s'`);
+        assert.strictEqual(quoteShellArgument('C:\\ws\\app.cbp', 'cmd'), 'C:\\ws\\app.cbp');
+        assert.strictEqual(quoteShellArgument('C:\\工程\\app.cbp', 'cmd'), '"C:\\工程\\app.cbp"');
+        assert.strictEqual(quoteShellArgument('a&b', 'cmd'), '"a&b"');
+        assert.strictEqual(quoteShellArgument('', 'posix'), `''`);
+    });
+
+    test('renderCommandTemplate: replaces every occurrence and quotes values', () => {
+        assert.strictEqual(
+            renderCommandTemplate('pack {target} {cbpFile} {target}', { variables, shell: 'posix' }),
+            `pack Release '/ws/我的 工程/app.cbp' Release`
+        );
+        assert.strictEqual(
+            renderCommandTemplate('pack {target} {cbpFile}', { variables, shell: 'cmd' }),
+            'pack Release "/ws/我的 工程/app.cbp"'
+        );
+    });
+
+    test('renderCommandTemplate: values inside template quotes are escaped for that quote', () => {
+        const context = { variables: { dir: `/a "b" $c` }, shell: 'posix' as const };
+        assert.strictEqual(renderCommandTemplate('cd "{dir}"', context), 'cd "/a \\"b\\" \\$c"');
+        assert.strictEqual(renderCommandTemplate(`echo '{dir}' "x\\"{dir}"`, { variables: { dir: `it's` }, shell: 'posix' }),
+            `echo 'it'\\''s' "x\\"it's"`);
+        assert.strictEqual(renderCommandTemplate('cd "{dir}"', { variables: { dir: 'C:\\my dir' }, shell: 'cmd' }), 'cd "C:\\my dir"');
+    });
+
+    test('renderCommandTemplate: env and config references', () => {
+        const context = {
+            variables,
+            env: { TOOLCHAIN: '/opt/gcc arm' },
+            config: (key: string) => ({ 'cbpBuildManager.ninjaPath': 'ninja', 'app.jobs': 8, 'app.list': ['a'] } as Record<string, unknown>)[key],
+            shell: 'posix' as const
+        };
+        assert.strictEqual(renderCommandTemplate('${env:TOOLCHAIN}/bin/gcc ${env:MISSING}', context), `'/opt/gcc arm'/bin/gcc ''`);
+        assert.strictEqual(renderCommandTemplate('${config:cbpBuildManager.ninjaPath} -j ${config:app.jobs}', context), 'ninja -j 8');
+        assert.throws(() => renderCommandTemplate('${config:app.none}', context), /设置 app\.none 未配置/);
+        assert.throws(() => renderCommandTemplate('${config:app.list}', context), CommandTemplateError);
+        assert.throws(() => renderCommandTemplate('${config:app.jobs}', { variables }), /不支持/);
+    });
+
+    test('cmd: values that cmd.exe would expand as %VAR% or !VAR! are rejected', () => {
+        assert.strictEqual(quoteShellArgument('C:\\100% done', 'cmd'), '"C:\\100% done"');
+        assert.strictEqual(quoteShellArgument('Hello!', 'cmd'), '"Hello!"');
+        assert.throws(() => quoteShellArgument('C:\\%USERNAME%\\app', 'cmd'), /%USERNAME%/);
+        assert.strictEqual(quoteShellArgument('/ws/%USERNAME%', 'posix'), '/ws/%USERNAME%');
+
+        const context = { variables: { dir: 'D:\\%TEMP%\\out', name: 'a!b!c' }, shell: 'cmd' as const };
+        assert.throws(() => renderCommandTemplate('copy x {dir}', context), (error: Error) =>
+            error instanceof CommandTemplateError && error.message.includes('{dir}') && error.message.includes('%TEMP%'));
+        assert.throws(() => renderCommandTemplate('copy x "{dir}"', context), CommandTemplateError);
+        assert.throws(() => renderCommandTemplate('echo {name}', context), /!b!/);
+        assert.strictEqual(renderCommandTemplate('echo {name}', { ...context, shell: 'posix' }), `echo 'a!b!c'`);
+    });
+
+    test('renderCommandTemplate: unknown variables fail, doubled braces are literal', () => {
+        assert.throws(() => renderCommandTemplate('build {unknown}', { variables }), (error: Error) =>
+            error instanceof CommandTemplateError && error.message.includes('{unknown}') && error.message.includes('{target}'));
+        assert.strictEqual(renderCommandTemplate(`awk '{{print $1}}' {projectName}`, { variables, shell: 'posix' }), `awk '{print $1}' app`);
+    });
+});
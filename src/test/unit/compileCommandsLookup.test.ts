@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    clearCompileCommandsCache,
+    findCompileCommand,
+    findCompileCommandsForFile,
+    getEntryCommand,
+    loadCompileCommands
+} from '../../services/CompileCommandsLookup';
+
+suite('CompileCommandsLookup Test Suite', () => {
+    let tempDir: string;
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cbp-lookup-'));
+        clearCompileCommandsCache();
+    });
+
+    teardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    function writeDatabase(name: string, entries: object[]): string {
+        const dir = path.join(tempDir, name);
+        fs.mkdirSync(dir, { recursive: true });
+        const dbPath = path.join(dir, 'compile_commands.json');
+        fs.writeFileSync(dbPath, JSON.stringify(entries));
+        return dbPath;
+    }
+
+    test('findCompileCommand: matches relative and absolute file paths', () => {
+        const source = path.join(tempDir, 'app', 'src', 'main.c');
+        const entries = [
+            { directory: path.join(tempDir, 'app'), file: 'src/other.c', command: 'gcc -c src/other.c' },
+            { directory: path.join(tempDir, 'app'), file: 'src/main.c', command: 'gcc -c src/main.c' }
+        ];
+        assert.strictEqual(findCompileCommand(entries, source)?.command, 'gcc -c src/main.c');
+        assert.strictEqual(findCompileCommand([{ directory: '/x', file: source }], source)?.file, source);
+        assert.strictEqual(findCompileCommand(entries, path.join(tempDir, 'missing.c')), undefined);
+    });
+
+    test('findCompileCommandsForFile: one match per database', () => {
+        const shared = path.join(tempDir, 'common', 'util.c');
+        const app = writeDatabase('app', [{ directory: path.join(tempDir, 'app'), file: shared, command: 'gcc -DAPP -c util.c' }]);
+        const boot = writeDatabase('boot', [{ directory: path.join(tempDir, 'boot'), file: shared, command: 'gcc -DBOOT -c util.c' }]);
+        const other = writeDatabase('other', [{ directory: tempDir, file: 'x.c', command: 'gcc -c x.c' }]);
+
+        const matches = findCompileCommandsForFile(shared, [app, boot, other]);
+        assert.deepStrictEqual(matches.map(m => m.database), [app, boot]);
+        assert.strictEqual(matches[1].entry.command, 'gcc -DBOOT -c util.c');
+    });
+
+    test('loadCompileCommands: invalid JSON yields no entries', () => {
+        const dbPath = path.join(tempDir, 'compile_commands.json');
+        fs.writeFileSync(dbPath, '[ invalid');
+        assert.deepStrictEqual(loadCompileCommands(dbPath), []);
+    });
+
+    test('getEntryCommand: prefers command, quotes arguments', () => {
+        assert.strictEqual(getEntryCommand({ directory: '.', file: 'a.c', command: 'cc -c a.c' }), 'cc -c a.c');
+        const entry = { directory: '.', file: 'a.c', arguments: ['cc', '-I', 'my dir', '-DNAME="x"', '-c', 'a.c'] };
+        assert.strictEqual(getEntryCommand(entry, 'posix'), `cc -I 'my dir' '-DNAME="x"' -c a.c`);
+        assert.strictEqual(getEntryCommand(entry, 'cmd'), 'cc -I "my dir" "-DNAME=""x""" -c a.c');
+    });
+});
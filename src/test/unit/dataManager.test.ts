@@ -3,7 +3,7 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { CbpDataManager } from '../../services';
+import { CbpDataManager, DEFAULT_PROFILE_NAME } from '../../services';
 
 // Mock vscode.Memento
 class MockMemento {
@@ -117,6 +117,22 @@ suite('DataManager Test Suite', () => {
         assert.strictEqual(queue[0].fsPath, p2);
     });
 
+    // ==================== setQueueOrder ====================
+
+    test('setQueueOrder: should reorder queue and keep unlisted items at the end', () => {
+        const manager = new CbpDataManager();
+        const p1 = makePath('app.cbp');
+        const p2 = makePath('lib.cbp');
+        const p3 = makePath('tool.cbp');
+        manager.setAllDetectedProjects([p1, p2, p3]);
+        manager.addToQueue([p1, p2, p3]);
+
+        manager.setQueueOrder([p2, p1]);
+
+        const queue = manager.getQueueItems();
+        assert.deepStrictEqual(queue.map(p => p.fsPath), [p2, p1, p3]);
+    });
+
     // ==================== moveQueueItem ====================
 
     test('moveQueueItem: should reorder queue items', () => {
@@ -242,6 +258,26 @@ suite('DataManager Test Suite', () => {
         assert.strictEqual(savedState.queuePaths[0], p2);
     });
 
+    test('setProjectTarget: should persist and restore selected target', () => {
+        const manager = new CbpDataManager();
+        const stateFile = path.join(tempDir, '.cbp-build', 'queue.json');
+        manager.setStateFilePath(stateFile);
+
+        const p1 = makePath('target.cbp');
+        fs.writeFileSync(p1, '');
+        manager.setAllDetectedProjects([p1]);
+        manager.addToQueue([p1]);
+        manager.setProjectTarget(manager.getQueueItems()[0], 'Release');
+
+        const savedState = JSON.parse(fs.readFileSync(stateFile, 'utf-8'));
+        assert.strictEqual(savedState.targets[p1], 'Release');
+
+        const manager2 = new CbpDataManager();
+        manager2.setStateFilePath(stateFile);
+        manager2.reloadState();
+        assert.strictEqual(manager2.getQueueItems()[0].selectedTarget, 'Release');
+    });
+
     test('should load state from file', () => {
         // Create state file with pre-existing data
         const stateDir = path.join(tempDir, '.cbp-build');
@@ -292,4 +328,81 @@ suite('DataManager Test Suite', () => {
         assert.strictEqual(queue.length, 1);
         assert.strictEqual(queue[0].fsPath, existingPath);
     });
+
+    // ==================== profiles ====================
+
+    test('profiles: each profile keeps its own queue, check states and chip filter', () => {
+        const manager = new CbpDataManager();
+        const stateFile = path.join(tempDir, '.cbp-build', 'queue.json');
+        manager.setStateFilePath(stateFile);
+
+        const p1 = makePath('firmware.cbp');
+        const p2 = makePath('boot.cbp');
+        fs.writeFileSync(p1, '');
+        fs.writeFileSync(p2, '');
+        manager.setAllDetectedProjects([p1, p2]);
+        manager.addToQueue([p1, p2]);
+        manager.updateCheckState(manager.getQueueItems()[1], vscode.TreeItemCheckboxState.Unchecked);
+
+        manager.createProfile('bootloader');
+        assert.strictEqual(manager.getActiveProfile(), 'bootloader');
+        assert.strictEqual(manager.getQueueItems().length, 0);
+        manager.addToQueue([p2]);
+        manager.setChipFilter('chipA');
+
+        manager.switchProfile(DEFAULT_PROFILE_NAME);
+        assert.deepStrictEqual(manager.getQueueItems().map(p => p.fsPath), [p1, p2]);
+        assert.strictEqual(manager.getQueueItems()[1].isChecked, false);
+        assert.strictEqual(manager.getChipFilter(), null);
+
+        // 重新加载后恢复当前配置
+        manager.switchProfile('bootloader');
+        const manager2 = new CbpDataManager();
+        manager2.setStateFilePath(stateFile);
+        manager2.reloadState();
+        assert.strictEqual(manager2.getActiveProfile(), 'bootloader');
+        assert.deepStrictEqual(manager2.getProfileNames(), [DEFAULT_PROFILE_NAME, 'bootloader']);
+        assert.deepStrictEqual(manager2.getQueueItems().map(p => p.fsPath), [p2]);
+        assert.strictEqual(manager2.getChipFilter(), 'chipA');
+    });
+
+    test('profiles: duplicate, rename and delete', () => {
+        const manager = new CbpDataManager();
+        manager.setStateFilePath(path.join(tempDir, '.cbp-build', 'queue.json'));
+
+        const p1 = makePath('app.cbp');
+        fs.writeFileSync(p1, '');
+        manager.setAllDetectedProjects([p1]);
+        manager.addToQueue([p1]);
+
+        manager.duplicateProfile('copy');
+        assert.strictEqual(manager.getActiveProfile(), 'copy');
+        assert.strictEqual(manager.getQueueItems().length, 1);
+
+        manager.renameProfile('copy', 'chipB');
+        assert.deepStrictEqual(manager.getProfileNames(), [DEFAULT_PROFILE_NAME, 'chipB']);
+        assert.strictEqual(manager.getActiveProfile(), 'chipB');
+        assert.throws(() => manager.renameProfile('chipB', DEFAULT_PROFILE_NAME));
+
+        manager.deleteProfile('chipB');
+        assert.strictEqual(manager.getActiveProfile(), DEFAULT_PROFILE_NAME);
+        assert.throws(() => manager.deleteProfile(DEFAULT_PROFILE_NAME));
+    });
+
+    test('profiles: legacy queue.json becomes the default profile', () => {
+        const stateDir = path.join(tempDir, '.cbp-build');
+        fs.mkdirSync(stateDir, { recursive: true });
+        const stateFile = path.join(stateDir, 'queue.json');
+        const projectPath = makePath('legacy.cbp');
+        fs.writeFileSync(projectPath, '');
+        fs.writeFileSync(stateFile, JSON.stringify({ queuePaths: [projectPath], checkState: {}, chipFilter: 'chipC' }), 'utf-8');
+
+        const manager = new CbpDataManager();
+        manager.setStateFilePath(stateFile);
+        manager.reloadState();
+
+        assert.deepStrictEqual(manager.getProfileNames(), [DEFAULT_PROFILE_NAME]);
+        assert.strictEqual(manager.getQueueItems()[0].fsPath, projectPath);
+        assert.strictEqual(manager.getChipFilter(), 'chipC');
+    });
 });
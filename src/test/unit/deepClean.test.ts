@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { clearCbpProjectCache } from '../../services/CbpProjectParser';
+import { executeDeepClean, planDeepClean } from '../../services/DeepClean';
+
+suite('DeepClean Test Suite', () => {
+    let tempDir: string;
+    let projectDir: string;
+    let cbpPath: string;
+
+    function touch(relPath: string) {
+        const filePath = path.join(projectDir, relPath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, '');
+    }
+
+    setup(() => {
+        clearCbpProjectCache();
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cbp-deep-clean-'));
+        projectDir = path.join(tempDir, 'app');
+        cbpPath = path.join(projectDir, 'app.cbp');
+        fs.mkdirSync(projectDir, { recursive: true });
+        fs.writeFileSync(cbpPath, `<CodeBlocks_project_file><Project><Build>
+            <Target title="Debug"><Option object_output="obj\\Debug\\" /></Target>
+            <Target title="Release"><Option object_output="obj/Release/" /></Target>
+            <Target title="Bad"><Option object_output="./" /></Target>
+        </Build></Project></CodeBlocks_project_file>`);
+    });
+
+    teardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('planDeepClean: generated files, object dirs, compile_commands.json and artifacts', () => {
+        ['build.ninja', '.ninja_log', 'compile_commands.json', 'obj/Debug/main.o', 'Output/Release/app.bin', 'Output/Release/app.elf', 'src/main.c']
+            .forEach(touch);
+
+        const entries = planDeepClean(cbpPath, ['Output/{target}/*.bin', 'Output/Release/app.elf', '']);
+        const relative = entries.map(e => [path.relative(projectDir, e.fsPath).split(path.sep).join('/'), e.reason, e.isDirectory]);
+        assert.deepStrictEqual(relative, [
+            ['build.ninja', 'build', false],
+            ['.ninja_log', 'build', false],
+            ['obj/Debug', 'objects', true],
+            ['compile_commands.json', 'compileCommands', false],
+            ['Output/Release/app.bin', 'artifact', false],
+            ['Output/Release/app.elf', 'artifact', false]
+        ]);
+    });
+
+    test('planDeepClean: never includes the project directory, its parents or the .cbp', () => {
+        touch('out/x.o');
+        const entries = planDeepClean(cbpPath, ['.', '..', '*.cbp', 'out', 'out/*']);
+        assert.deepStrictEqual(entries.map(e => path.relative(projectDir, e.fsPath)), ['out']);
+    });
+
+    test('planDeepClean: never includes paths outside the project directory', () => {
+        fs.writeFileSync(cbpPath, `<CodeBlocks_project_file><Project><Build>
+            <Target title="Release"><Option object_output="../shared/obj/" /></Target>
+        </Build></Project></CodeBlocks_project_file>`);
+        ['../shared/obj/lib.o', '../lib/lib.cbp', '../lib/build.ninja', 'out/x.o'].forEach(touch);
+
+        const entries = planDeepClean(cbpPath, ['../*', '../lib/*', '../shared/obj', 'out']);
+        assert.deepStrictEqual(entries.map(e => path.relative(projectDir, e.fsPath)), ['out']);
+        assert.ok(fs.existsSync(path.join(tempDir, 'shared', 'obj', 'lib.o')));
+    });
+
+    test('executeDeepClean: removes files and directories', () => {
+        ['build.ninja', 'obj/Debug/main.o', 'src/main.c'].forEach(touch);
+        const failures = executeDeepClean(planDeepClean(cbpPath, []));
+
+        assert.deepStrictEqual(failures, []);
+        assert.ok(!fs.existsSync(path.join(projectDir, 'build.ninja')));
+        assert.ok(!fs.existsSync(path.join(projectDir, 'obj', 'Debug')));
+        assert.ok(fs.existsSync(path.join(projectDir, 'src', 'main.c')));
+        assert.ok(fs.existsSync(cbpPath));
+    });
+});
@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as os from 'os';
+import { CbpProject, CbpTarget } from '../../models/CbpProject';
+import { buildDependencyGraph, findOrderViolations, findCycles, topologicalSort, getLibraryBaseName } from '../../services/DependencyGraph';
+
+suite('DependencyGraph Test Suite', () => {
+    const baseDir = path.join(os.tmpdir(), 'dep-test');
+
+    function makeTarget(partial: Partial<CbpTarget>): CbpTarget {
+        return {
+            title: 'Debug',
+            outputPrefixAuto: false,
+            outputExtensionAuto: false,
+            compilerSettings: { options: [], includeDirs: [], defines: [] },
+            linkerSettings: { options: [], libraries: [], libraryDirs: [] },
+            extraCommands: { before: [], after: [] },
+            ...partial
+        };
+    }
+
+    function makeProject(relPath: string, targets: CbpTarget[], extra: Partial<CbpProject> = {}): CbpProject {
+        return {
+            fsPath: path.join(baseDir, relPath),
+            title: path.basename(relPath, '.cbp'),
+            targets,
+            compilerSettings: { options: [], includeDirs: [], defines: [] },
+            linkerSettings: { options: [], libraries: [], libraryDirs: [] },
+            extraCommands: { before: [], after: [] },
+            units: [],
+            virtualFolders: [],
+            depends: [],
+            ...extra
+        };
+    }
+
+    const lib = makeProject('lib/driver.cbp', [makeTarget({ output: 'output/libdriver.a', type: 2 })]);
+
+    test('getLibraryBaseName', () => {
+        assert.strictEqual(getLibraryBaseName('../lib/output/libdriver.a'), 'driver');
+        assert.strictEqual(getLibraryBaseName('driver'), 'driver');
+        assert.strictEqual(getLibraryBaseName('foo.lib'), 'foo');
+    });
+
+    test('library path matches another project output', () => {
+        const app = makeProject('app/app.cbp', [makeTarget({
+            linkerSettings: { options: [], libraries: ['..\\lib\\output\\libdriver.a'], libraryDirs: [] }
+        })]);
+        const graph = buildDependencyGraph([app, lib]);
+        assert.deepStrictEqual(graph.dependencies.get(app.fsPath), [lib.fsPath]);
+        assert.strictEqual(graph.edges[0].reason, 'library');
+    });
+
+    test('library name with library directory matches output', () => {
+        const app = makeProject('app/app.cbp', [makeTarget({})], {
+            linkerSettings: { options: [], libraries: ['driver'], libraryDirs: ['../lib/output'] }
+        });
+        const graph = buildDependencyGraph([app, lib]);
+        assert.deepStrictEqual(graph.dependencies.get(app.fsPath), [lib.fsPath]);
+    });
+
+    test('prefix_auto / extension_auto output is resolved', () => {
+        const autoLib = makeProject('lib2/util.cbp', [makeTarget({ output: 'out/util', type: 2, outputPrefixAuto: true, outputExtensionAuto: true })]);
+        const app = makeProject('app/app.cbp', [makeTarget({})], {
+            linkerSettings: { options: [], libraries: ['../lib2/out/libutil.a'], libraryDirs: [] }
+        });
+        const graph = buildDependencyGraph([app, autoLib]);
+        assert.deepStrictEqual(graph.dependencies.get(app.fsPath), [autoLib.fsPath]);
+    });
+
+    test('<Depends> entries create edges', () => {
+        const app = makeProject('app/app.cbp', [], { depends: ['../lib/driver.cbp'] });
+        const graph = buildDependencyGraph([app, lib]);
+        assert.deepStrictEqual(graph.dependencies.get(app.fsPath), [lib.fsPath]);
+        assert.strictEqual(graph.edges[0].reason, 'depends');
+    });
+
+    test('system libraries without a producer are ignored', () => {
+        const app = makeProject('app/app.cbp', [], {
+            linkerSettings: { options: [], libraries: ['m', 'c'], libraryDirs: [] }
+        });
+        const graph = buildDependencyGraph([app, lib]);
+        assert.deepStrictEqual(graph.dependencies.get(app.fsPath), []);
+    });
+
+    test('findOrderViolations', () => {
+        const deps = new Map([['app', ['lib']]]);
+        assert.deepStrictEqual(findOrderViolations(['app', 'lib'], deps), [{ project: 'app', dependency: 'lib' }]);
+        assert.deepStrictEqual(findOrderViolations(['lib', 'app'], deps), []);
+    });
+
+    test('topologicalSort: stable order', () => {
+        const deps = new Map([['app', ['lib']], ['lib', ['base']]]);
+        const result = topologicalSort(['tool', 'app', 'lib', 'base'], deps);
+        assert.deepStrictEqual(result.order, ['tool', 'base', 'lib', 'app']);
+        assert.deepStrictEqual(result.cycles, []);
+    });
+
+    test('topologicalSort: cycles are reported and kept in place', () => {
+        const deps = new Map([['a', ['b']], ['b', ['a']], ['c', []]]);
+        const result = topologicalSort(['a', 'b', 'c'], deps);
+        assert.deepStrictEqual(result.order, ['c', 'a', 'b']);
+        assert.deepStrictEqual(result.cycles, [['a', 'b']]);
+        assert.deepStrictEqual(findCycles(['a', 'b', 'c'], deps), [['a', 'b']]);
+    });
+});
@@ -0,0 +1,123 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as os from 'os';
+import { CompilerDiagnosticParser, stripAnsi } from '../../utils';
+
+suite('DiagnosticParser Test Suite', () => {
+    const baseDir = path.join(os.tmpdir(), 'test-project');
+
+    function parse(lines: string[]): CompilerDiagnosticParser {
+        const parser = new CompilerDiagnosticParser(baseDir);
+        lines.forEach(line => parser.pushLine(line));
+        return parser;
+    }
+
+    test('stripAnsi: remove color codes', () => {
+        assert.strictEqual(stripAnsi('\x1b[01;31merror:\x1b[0m foo'), 'error: foo');
+        assert.strictEqual(stripAnsi('\r\x1b[Kplain'), '\rplain');
+    });
+
+    test('GCC error with column', () => {
+        const parser = parse(['src/main.c:10:5: error: expected \';\' before \'}\' token']);
+        const diags = parser.getDiagnostics();
+        assert.strictEqual(diags.length, 1);
+        assert.strictEqual(diags[0].file, path.resolve(baseDir, 'src/main.c'));
+        assert.strictEqual(diags[0].line, 10);
+        assert.strictEqual(diags[0].column, 5);
+        assert.strictEqual(diags[0].severity, 'error');
+        assert.strictEqual(parser.getErrorCount(), 1);
+    });
+
+    test('warning code is extracted', () => {
+        const parser = parse(['src/main.c:3:9: warning: unused variable \'x\' [-Wunused-variable]']);
+        const diag = parser.getDiagnostics()[0];
+        assert.strictEqual(diag.severity, 'warning');
+        assert.strictEqual(diag.code, '-Wunused-variable');
+        assert.strictEqual(diag.message, 'unused variable \'x\'');
+        assert.strictEqual(parser.getWarningCount(), 1);
+    });
+
+    test('fatal error without column, colored output', () => {
+        const parser = parse(['\x1b[1msrc/a.c:7:\x1b[0m \x1b[31mfatal error:\x1b[0m foo.h: No such file or directory']);
+        const diag = parser.getDiagnostics()[0];
+        assert.strictEqual(diag.severity, 'error');
+        assert.strictEqual(diag.line, 7);
+        assert.strictEqual(diag.column, 0);
+    });
+
+    test('absolute Windows path is kept', () => {
+        const parser = parse(['D:\\work\\sdk\\main.c:12:1: error: oops']);
+        assert.strictEqual(parser.getDiagnostics()[0].file, 'D:\\work\\sdk\\main.c');
+    });
+
+    test('include chain is attached to next diagnostic', () => {
+        const parser = parse([
+            'In file included from src/main.c:3:',
+            '                 from src/app.c:5,',
+            'inc/b.h:10:5: error: unknown type name \'foo\'',
+            '   10 |     foo x;',
+            '      |     ^~~'
+        ]);
+        const diags = parser.getDiagnostics();
+        assert.strictEqual(diags.length, 1);
+        assert.strictEqual(diags[0].related.length, 2);
+        assert.strictEqual(diags[0].related[0].file, path.resolve(baseDir, 'src/main.c'));
+        assert.strictEqual(diags[0].related[1].line, 5);
+    });
+
+    test('note is attached to previous diagnostic', () => {
+        const parser = parse([
+            'src/a.c: In function \'main\':',
+            'src/a.c:12:3: warning: implicit declaration of function \'bar\'',
+            'src/b.h:5:6: note: declared here'
+        ]);
+        const diags = parser.getDiagnostics();
+        assert.strictEqual(diags.length, 1);
+        assert.strictEqual(diags[0].related.length, 1);
+        assert.strictEqual(diags[0].related[0].message, 'declared here');
+    });
+
+    test('linker undefined reference with source line', () => {
+        const parser = parse(['ld: src/main.c:42: undefined reference to `foo\'']);
+        const diag = parser.getDiagnostics()[0];
+        assert.strictEqual(diag.file, path.resolve(baseDir, 'src/main.c'));
+        assert.strictEqual(diag.line, 42);
+        assert.strictEqual(diag.isLinkerError, false);
+    });
+
+    test('linker undefined reference with section offset only', () => {
+        const parser = parse([
+            '/usr/bin/ld: build/main.o: in function `main\':',
+            'main.c:(.text+0x1e): undefined reference to `foo\''
+        ]);
+        const diags = parser.getDiagnostics();
+        assert.strictEqual(diags.length, 1);
+        assert.strictEqual(diags[0].file, path.resolve(baseDir, 'main.c'));
+        assert.strictEqual(diags[0].line, 0);
+        assert.strictEqual(diags[0].isLinkerError, false);
+    });
+
+    test('linker undefined reference without source line', () => {
+        const parser = parse([
+            '/usr/bin/ld: build/main.o: in function `main\':',
+            '/usr/bin/ld: build/main.o:(.text+0x1e): undefined reference to `foo\'',
+            'collect2: error: ld returned 1 exit status'
+        ]);
+        const diags = parser.getDiagnostics();
+        assert.strictEqual(diags.length, 1);
+        assert.strictEqual(diags[0].file, '');
+        assert.strictEqual(diags[0].isLinkerError, true);
+        assert.ok(diags[0].message.startsWith('undefined reference to'));
+    });
+
+    test('linker cannot find library', () => {
+        const parser = parse(['d:/toolchain/bin/ld.exe: cannot find -lfoo']);
+        assert.strictEqual(parser.getErrorCount(), 1);
+        assert.strictEqual(parser.getDiagnostics()[0].message, 'cannot find -lfoo');
+    });
+
+    test('plain output lines are ignored', () => {
+        const parser = parse(['[1/10] Building main.c', 'ninja: build stopped: subcommand failed.']);
+        assert.strictEqual(parser.getDiagnostics().length, 0);
+    });
+});
@@ -0,0 +1,162 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    FirmwareSizeStore,
+    formatFirmwareSizeTable,
+    formatSizeDelta,
+    measureProjectFirmware,
+    parseElfSectionSizes,
+    parseMapFileSizes
+} from '../../services/FirmwareSize';
+import { findFilesByPattern } from '../../utils/PathPattern';
+
+interface TestSection {
+    type: number;
+    flags: number;
+    size: number;
+}
+
+// 构造只有节头的最小 ELF 文件
+function makeElf(sections: TestSection[], is64 = false): Buffer {
+    const headerSize = is64 ? 64 : 52;
+    const entsize = is64 ? 64 : 40;
+    const buffer = Buffer.alloc(headerSize + sections.length * entsize);
+    buffer.writeUInt32BE(0x7f454c46, 0);
+    buffer[4] = is64 ? 2 : 1;
+    buffer[5] = 1;
+    if (is64) {
+        buffer.writeBigUInt64LE(BigInt(headerSize), 0x28);
+        buffer.writeUInt16LE(entsize, 0x3a);
+        buffer.writeUInt16LE(sections.length, 0x3c);
+    } else {
+        buffer.writeUInt32LE(headerSize, 0x20);
+        buffer.writeUInt16LE(entsize, 0x2e);
+        buffer.writeUInt16LE(sections.length, 0x30);
+    }
+    sections.forEach((section, i) => {
+        const offset = headerSize + i * entsize;
+        buffer.writeUInt32LE(section.type, offset + 4);
+        if (is64) {
+            buffer.writeBigUInt64LE(BigInt(section.flags), offset + 8);
+            buffer.writeBigUInt64LE(BigInt(section.size), offset + 32);
+        } else {
+            buffer.writeUInt32LE(section.flags, offset + 8);
+            buffer.writeUInt32LE(section.size, offset + 20);
+        }
+    });
+    return buffer;
+}
+
+const SECTIONS: TestSection[] = [
+    { type: 0, flags: 0, size: 0 },
+    { type: 1, flags: 0x6, size: 1000 },  // .text (AX)
+    { type: 1, flags: 0x2, size: 200 },   // .rodata (A)
+    { type: 1, flags: 0x3, size: 64 },    // .data (WA)
+    { type: 8, flags: 0x3, size: 512 },   // .bss (WA, NOBITS)
+    { type: 1, flags: 0, size: 4096 }     // .debug_info
+];
+
+const MAP_CONTENT = [
+    'Memory Configuration',
+    '',
+    'Linker script and memory map',
+    '',
+    '.isr_vector     0x08000000      0x188',
+    ' *(.isr_vector)',
+    '.text           0x08000188     0x1000',
+    ' .text          0x08000188       0x20 main.o',
+    '.rodata         0x08001188      0x100',
+    '.data           0x20000000       0x40 load address 0x08001288',
+    '.bss            0x20000040      0x200',
+    '._user_heap_stack',
+    '                0x20000240      0x600',
+    '.debug_info     0x00000000     0x4000'
+].join('\n');
+
+suite('FirmwareSize Test Suite', () => {
+    let tempDir: string;
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cbp-firmware-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('parseElfSectionSizes: classifies allocated sections like GNU size', () => {
+        const expected = { text: 1200, data: 64, bss: 512 };
+        assert.deepStrictEqual(parseElfSectionSizes(makeElf(SECTIONS)), expected);
+        assert.deepStrictEqual(parseElfSectionSizes(makeElf(SECTIONS, true)), expected);
+        assert.strictEqual(parseElfSectionSizes(Buffer.from('not an elf file, just some text content here ......')), null);
+    });
+
+    test('parseMapFileSizes: sums top-level output sections', () => {
+        assert.deepStrictEqual(parseMapFileSizes(MAP_CONTENT), {
+            text: 0x188 + 0x1000 + 0x100,
+            data: 0x40,
+            bss: 0x200 + 0x600
+        });
+        assert.strictEqual(parseMapFileSizes('no memory map here'), null);
+    });
+
+    test('findFilesByPattern: matches wildcards in every segment', () => {
+        fs.mkdirSync(path.join(tempDir, 'Output', 'Debug'), { recursive: true });
+        fs.writeFileSync(path.join(tempDir, 'Output', 'Debug', 'app.elf'), '');
+        fs.writeFileSync(path.join(tempDir, 'Output', 'Debug', 'app.map'), '');
+
+        assert.deepStrictEqual(findFilesByPattern(tempDir, 'Output/*/*.elf'), [path.join(tempDir, 'Output', 'Debug', 'app.elf')]);
+        assert.deepStrictEqual(findFilesByPattern(tempDir, 'Output/Release/*.elf'), []);
+    });
+
+    test('measureProjectFirmware: uses the target output from the .cbp or the configured pattern', () => {
+        const cbpPath = path.join(tempDir, 'app.cbp');
+        fs.writeFileSync(cbpPath, [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<CodeBlocks_project_file><Project>',
+            '<Build><Target title="Debug"><Option output="Output/app.elf" /></Target></Build>',
+            '</Project></CodeBlocks_project_file>'
+        ].join('\n'));
+        fs.mkdirSync(path.join(tempDir, 'Output'));
+        fs.writeFileSync(path.join(tempDir, 'Output', 'app.elf'), makeElf(SECTIONS));
+        fs.writeFileSync(path.join(tempDir, 'Output', 'app.map'), MAP_CONTENT);
+
+        const fromCbp = measureProjectFirmware(cbpPath, 'Debug', '');
+        assert.strictEqual(fromCbp?.file, path.join(tempDir, 'Output', 'app.elf'));
+        assert.strictEqual(fromCbp?.sizes.text, 1200);
+
+        const fromPattern = measureProjectFirmware(cbpPath, 'Debug', 'Output/*.map');
+        assert.strictEqual(fromPattern?.sizes.data, 0x40);
+
+        assert.strictEqual(measureProjectFirmware(cbpPath, 'Debug', 'missing/*.elf'), null);
+    });
+
+    test('formatSizeDelta and formatFirmwareSizeTable', () => {
+        assert.strictEqual(formatSizeDelta(100), '');
+        assert.strictEqual(formatSizeDelta(100, 100), '');
+        assert.strictEqual(formatSizeDelta(228, 100), ' (+128)');
+        assert.strictEqual(formatSizeDelta(36, 100), ' (-64)');
+
+        const lines = formatFirmwareSizeTable([
+            { project: 'app', file: 'app.elf', sizes: { text: 1200, data: 64, bss: 512 }, previous: { text: 1000, data: 64, bss: 512 } },
+            { project: 'boot', file: 'boot.elf', sizes: { text: 300, data: 0, bss: 16 } }
+        ]);
+        assert.strictEqual(lines.length, 3);
+        assert.ok(lines[1].startsWith('app '));
+        assert.ok(lines[1].includes('1200 (+200)'));
+        assert.ok(lines[1].endsWith('1776 (+200)'));
+        assert.ok(lines[2].endsWith('316'));
+    });
+
+    test('FirmwareSizeStore: persists the previous sizes', () => {
+        const store = new FirmwareSizeStore(tempDir);
+        assert.strictEqual(store.get('app.cbp'), undefined);
+        store.update('app.cbp', { file: 'app.elf', sizes: { text: 1, data: 2, bss: 3 } });
+
+        const reloaded = new FirmwareSizeStore(tempDir);
+        assert.deepStrictEqual(reloaded.get('app.cbp'), { text: 1, data: 2, bss: 3 });
+        assert.ok(fs.existsSync(path.join(tempDir, 'firmware-size.json')));
+    });
+});
@@ -0,0 +1,162 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CliUsageError } from '../../cli/CliArguments';
+import { CliOutput } from '../../cli/CliOutput';
+import { loadSettingsFile, runHeadless } from '../../cli/HeadlessRunner';
+import { readBuildSettings } from '../../services/BuildSteps';
+
+suite('HeadlessRunner Test Suite', () => {
+    let tempDir: string;
+    let written: string;
+    let output: CliOutput;
+
+    // node 可执行文件代替 cbp2clangd (node -v 输出 vX.Y.Z) 和构建脚本
+    const node = `"${process.execPath}"`;
+    // 追加的转换参数 (如 --no-header-insertion) 放在 -- 之后，不被 node 当作自身选项
+    const convertCommand = `${node} -e "process.exit(0)" --`;
+
+    function createProject(name: string): string {
+        const dir = path.join(tempDir, name);
+        fs.mkdirSync(dir, { recursive: true });
+        const cbpPath = path.join(dir, `${name}.cbp`);
+        fs.writeFileSync(cbpPath, `<CodeBlocks_project_file><Project><Option title="${name}" /><Build><Target title="Release" /></Build></Project></CodeBlocks_project_file>`);
+        return cbpPath;
+    }
+
+    function writeJson(relPath: string, content: unknown) {
+        const filePath = path.join(tempDir, relPath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, JSON.stringify(content));
+    }
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cbp-headless-'));
+        written = '';
+        output = new CliOutput({ write: (text: string) => { written += text; } });
+    });
+
+    teardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('loadSettingsFile: reads cbpBuildManager.* keys, defaults for missing file', () => {
+        const filePath = path.join(tempDir, 'settings.json');
+        assert.strictEqual(loadSettingsFile(filePath)('buildCommand', './build.bat'), './build.bat');
+
+        fs.writeFileSync(filePath, '{\n  // 注释\n  "cbpBuildManager.buildCommand": "./build.sh",\n}');
+        const get = loadSettingsFile(filePath);
+        assert.strictEqual(get('buildCommand', './build.bat'), './build.sh');
+        assert.strictEqual(get('stopOnFailure', false), false);
+    });
+
+    test('loadSettingsFile: a settings file that is not an object gives defaults', () => {
+        const filePath = path.join(tempDir, 'settings.json');
+        for (const text of ['null', '["cbpBuildManager.buildCommand"]', '"./build.sh"']) {
+            fs.writeFileSync(filePath, text);
+            assert.strictEqual(loadSettingsFile(filePath)('buildCommand', './build.bat'), './build.bat', text);
+        }
+    });
+
+    test('loadSettingsFile: an empty settings file gives the package.json defaults', () => {
+        const filePath = path.join(tempDir, 'settings.json');
+        fs.writeFileSync(filePath, '{}');
+        const settings = readBuildSettings(loadSettingsFile(filePath));
+
+        const packageJson = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../../../package.json'), 'utf-8'));
+        const properties: Record<string, { default?: unknown }> = packageJson.contributes.configuration.properties;
+        for (const [key, value] of Object.entries(settings)) {
+            assert.deepStrictEqual(value, properties[`cbpBuildManager.${key}`]?.default, key);
+        }
+        assert.strictEqual(settings.stopOnFailure, true);
+        assert.strictEqual(settings.noHeaderInsertion, true);
+    });
+
+    test('runHeadless: without stopOnFailure / noHeaderInsertion settings uses the extension defaults', async () => {
+        const lib = createProject('lib');
+        const app = createProject('app');
+        writeJson('.cbp-build/queue.json', { queuePaths: [lib, app], checkState: {} });
+        writeJson('.vscode/settings.json', {
+            'cbpBuildManager.cbp2clangPath': process.execPath,
+            'cbpBuildManager.convertCommand': `${node} -e "process.exit(process.argv.includes('--no-header-insertion') ? 0 : 4)" --`,
+            'cbpBuildManager.buildCommand': `${node} -e "process.exit(require('path').basename(process.cwd()) === 'lib' ? 2 : 0)"`
+        });
+
+        const record = await runHeadless({ workspaceRoot: tempDir, command: 'build', output });
+        assert.deepStrictEqual(record.projects.map(p => [p.name, p.status, p.exitCode]), [
+            ['lib', 'failed', 2],
+            ['app', 'skipped', undefined]
+        ]);
+    });
+
+    test('runHeadless: stops after a failed project and records the run in history', async () => {
+        const boot = createProject('boot');
+        const app = createProject('app');
+        writeJson('.cbp-build/queue.json', { queuePaths: [boot, app], checkState: {} });
+        writeJson('.vscode/settings.json', {
+            'cbpBuildManager.cbp2clangPath': process.execPath,
+            'cbpBuildManager.convertCommand': convertCommand,
+            'cbpBuildManager.buildCommand': `${node} -e "process.exit(require('path').basename(process.cwd()) === 'boot' ? 3 : 0)"`,
+            'cbpBuildManager.stopOnFailure': true
+        });
+
+        const record = await runHeadless({ workspaceRoot: tempDir, command: 'build', output });
+        assert.strictEqual(record.status, 'failed');
+        assert.deepStrictEqual(record.projects.map(p => [p.name, p.status, p.exitCode]), [
+            ['boot', 'failed', 3],
+            ['app', 'skipped', undefined]
+        ]);
+        assert.ok(written.includes('>>> 编译失败，停止后续项目'));
+        assert.ok(record.logFile && fs.existsSync(path.join(tempDir, '.cbp-build', record.logFile)));
+    });
+
+    test('runHeadless: --no-stop-on-failure builds the remaining projects of the named profile', async () => {
+        const boot = createProject('boot');
+        const app = createProject('app');
+        writeJson('.cbp-build/queue.json', {
+            activeProfile: '默认',
+            profiles: {
+                '默认': { queuePaths: [app] },
+                '全部': { queuePaths: [boot, app], checkState: {} }
+            }
+        });
+        writeJson('.vscode/settings.json', {
+            'cbpBuildManager.cbp2clangPath': process.execPath,
+            'cbpBuildManager.convertCommand': convertCommand,
+            'cbpBuildManager.buildCommand': `${node} -e "process.exit(require('path').basename(process.cwd()) === 'boot' ? 1 : 0)"`,
+            'cbpBuildManager.stopOnFailure': true
+        });
+
+        const record = await runHeadless({ workspaceRoot: tempDir, command: 'build', profile: '全部', stopOnFailure: false, output });
+        assert.deepStrictEqual(record.projects.map(p => [p.name, p.status, p.target]), [
+            ['boot', 'failed', 'Release'],
+            ['app', 'success', 'Release']
+        ]);
+    });
+
+    test('runHeadless: a build exceeding buildTimeout is killed and reported as a timeout', async () => {
+        const app = createProject('app');
+        writeJson('.cbp-build/queue.json', { queuePaths: [app], checkState: {} });
+        writeJson('.vscode/settings.json', {
+            'cbpBuildManager.cbp2clangPath': process.execPath,
+            'cbpBuildManager.convertCommand': convertCommand,
+            'cbpBuildManager.buildCommand': `${node} -e "setTimeout(() => {}, 30000)"`,
+            'cbpBuildManager.buildTimeout': 1
+        });
+
+        const start = Date.now();
+        const record = await runHeadless({ workspaceRoot: tempDir, command: 'build', output });
+        assert.ok(Date.now() - start < 20000);
+        assert.deepStrictEqual(record.projects.map(p => [p.status, p.failureReason, p.exitCode]), [['failed', 'timeout', undefined]]);
+        assert.ok(written.includes('失败 (超时)'));
+    });
+
+    test('runHeadless: missing queue, unknown profile and empty queue are usage errors', async () => {
+        await assert.rejects(runHeadless({ workspaceRoot: tempDir, command: 'build', output }), CliUsageError);
+
+        writeJson('.cbp-build/queue.json', { queuePaths: [] });
+        await assert.rejects(runHeadless({ workspaceRoot: tempDir, command: 'build', profile: 'release', output }), /release/);
+        await assert.rejects(runHeadless({ workspaceRoot: tempDir, command: 'build', output }), CliUsageError);
+    });
+});
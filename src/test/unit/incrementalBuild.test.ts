@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CancellationController } from '../../services/CommandRunner';
+import { ConvertStampStore, checkNinjaUpToDate, hashFile, isNinjaNoWorkOutput } from '../../services/IncrementalBuild';
+
+suite('IncrementalBuild Test Suite', () => {
+    let tempDir: string;
+    let cbpPath: string;
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cbp-incremental-'));
+        cbpPath = path.join(tempDir, 'app.cbp');
+        fs.writeFileSync(cbpPath, '<CodeBlocks_project_file />');
+    });
+
+    teardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('hashFile: changes with content, null for missing file', () => {
+        const before = hashFile(cbpPath);
+        fs.writeFileSync(cbpPath, '<CodeBlocks_project_file><Project /></CodeBlocks_project_file>');
+        assert.ok(before);
+        assert.notStrictEqual(hashFile(cbpPath), before);
+        assert.strictEqual(hashFile(path.join(tempDir, 'missing.cbp')), null);
+    });
+
+    test('ConvertStampStore: up to date only after a conversion with the same command', () => {
+        const store = new ConvertStampStore(tempDir);
+        assert.strictEqual(store.isUpToDate(cbpPath, 'cbp2clang app.cbp'), false);
+
+        store.update(cbpPath, 'cbp2clang app.cbp');
+        assert.strictEqual(store.isUpToDate(cbpPath, 'cbp2clang app.cbp'), true);
+        assert.strictEqual(store.isUpToDate(cbpPath, 'cbp2clang app.cbp --debug'), false);
+    });
+
+    test('ConvertStampStore: .cbp change invalidates the stamp', () => {
+        const store = new ConvertStampStore(tempDir);
+        store.update(cbpPath, 'cmd');
+        fs.writeFileSync(cbpPath, '<CodeBlocks_project_file><Project /></CodeBlocks_project_file>');
+        assert.strictEqual(store.isUpToDate(cbpPath, 'cmd'), false);
+    });
+
+    test('ConvertStampStore: persisted and invalidated', () => {
+        new ConvertStampStore(tempDir).update(cbpPath, 'cmd');
+
+        const reloaded = new ConvertStampStore(tempDir);
+        assert.strictEqual(reloaded.isUpToDate(cbpPath, 'cmd'), true);
+
+        reloaded.invalidate(cbpPath);
+        assert.strictEqual(new ConvertStampStore(tempDir).isUpToDate(cbpPath, 'cmd'), false);
+    });
+
+    test('isNinjaNoWorkOutput', () => {
+        assert.strictEqual(isNinjaNoWorkOutput('ninja: no work to do.\n'), true);
+        assert.strictEqual(isNinjaNoWorkOutput('[1/3] Building C object main.o\n'), false);
+    });
+
+    test('checkNinjaUpToDate: missing ninja is not up to date', async () => {
+        assert.strictEqual(await checkNinjaUpToDate(path.join(tempDir, 'no-such-ninja'), tempDir), false);
+    });
+
+    // 用 shell 脚本代替 ninja (Windows 下不执行)
+    function createFakeNinja(name: string, script: string): string {
+        const ninjaPath = path.join(tempDir, name);
+        fs.writeFileSync(ninjaPath, `#!/bin/sh\n${script}\n`, { mode: 0o755 });
+        return ninjaPath;
+    }
+
+    test('checkNinjaUpToDate: ninja path with spaces and shell characters', async function () {
+        if (process.platform === 'win32') {this.skip();}
+        const ninjaPath = createFakeNinja('my $HOME `ninja`', 'echo "ninja: no work to do."');
+        assert.strictEqual(await checkNinjaUpToDate(ninjaPath, tempDir), true);
+    });
+
+    test('checkNinjaUpToDate: cancellation ends ninja and is not up to date', async function () {
+        if (process.platform === 'win32') {this.skip();}
+        const ninjaPath = createFakeNinja('ninja', 'sleep 30');
+        const controller = new CancellationController();
+        setTimeout(() => controller.cancel(), 200);
+        const start = Date.now();
+        assert.strictEqual(await checkNinjaUpToDate(ninjaPath, tempDir, undefined, controller), false);
+        assert.ok(Date.now() - start < 5000);
+    });
+});
@@ -52,6 +52,29 @@ suite('Models Test Suite', () => {
         assert.strictEqual(item.description, 'myproject');
     });
 
+    test('CbpProjectItem: selected target is shown in description', () => {
+        const item = new CbpProjectItem('TestProject', p('myproject', 'test.cbp'), true);
+
+        item.setSelectedTarget('Release');
+        assert.strictEqual(item.selectedTarget, 'Release');
+        assert.strictEqual(item.description, 'Release · myproject');
+
+        item.setSelectedTarget(undefined);
+        assert.strictEqual(item.selectedTarget, undefined);
+        assert.strictEqual(item.description, 'myproject');
+    });
+
+    test('CbpProjectItem: up-to-date mark is shown in description', () => {
+        const item = new CbpProjectItem('TestProject', p('myproject', 'test.cbp'), true);
+        item.setSelectedTarget('Debug');
+
+        item.setUpToDate(true);
+        assert.strictEqual(item.description, '✓ 已是最新 · Debug · myproject');
+
+        item.setUpToDate(false);
+        assert.strictEqual(item.description, 'Debug · myproject');
+    });
+
     test('CbpProjectItem: should set contextValue', () => {
         const item = new CbpProjectItem('TestProject', p('test.cbp'), true);
 
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findProjectSettings, loadProjectsConfig, resolveProjectEnvOverrides, resolveProjectHooks } from '../../services/ProjectConfig';
+
+suite('ProjectConfig Test Suite', () => {
+    let tempDir: string;
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cbp-project-config-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('loadProjectsConfig: reads projects.json, empty for missing or invalid files', () => {
+        assert.deepStrictEqual(loadProjectsConfig(null), {});
+        assert.deepStrictEqual(loadProjectsConfig(tempDir), {});
+
+        fs.writeFileSync(path.join(tempDir, 'projects.json'), '{ "preBuild": ["gen.bat"] }');
+        assert.deepStrictEqual(loadProjectsConfig(tempDir), { preBuild: ['gen.bat'] });
+
+        fs.writeFileSync(path.join(tempDir, 'projects.json'), '{ broken');
+        assert.deepStrictEqual(loadProjectsConfig(tempDir), {});
+    });
+
+    test('findProjectSettings: matches relative and absolute .cbp paths', () => {
+        const cbpPath = path.join(tempDir, 'app', 'app.cbp');
+        const projects = { 'app/app.cbp': { preBuild: ['a'] } };
+
+        assert.deepStrictEqual(findProjectSettings(projects, cbpPath, tempDir), { preBuild: ['a'] });
+        assert.deepStrictEqual(findProjectSettings({ [cbpPath]: { preBuild: ['b'] } }, cbpPath, undefined), { preBuild: ['b'] });
+        assert.strictEqual(findProjectSettings(projects, path.join(tempDir, 'boot.cbp'), tempDir), undefined);
+    });
+
+    test('resolveProjectHooks: global commands first, then per-project commands', () => {
+        const cbpPath = path.join(tempDir, 'app', 'app.cbp');
+        const settings = { preBuild: ['settings-pre'], projects: { 'app/app.cbp': { postBuild: ['settings-post'] } } };
+        const file = { preBuild: ['file-pre', ''], postBuild: ['file-post'], projects: { 'app/app.cbp': { preBuild: ['file-app-pre'] } } };
+
+        assert.deepStrictEqual(resolveProjectHooks(cbpPath, tempDir, [settings, file]), {
+            preBuild: ['settings-pre', 'file-pre', 'file-app-pre'],
+            postBuild: ['file-post', 'settings-post']
+        });
+        assert.deepStrictEqual(resolveProjectHooks(path.join(tempDir, 'boot.cbp'), tempDir, [settings, file]), {
+            preBuild: ['settings-pre', 'file-pre'],
+            postBuild: ['file-post']
+        });
+    });
+
+    test('resolveProjectEnvOverrides: workspace, profile, chip and project levels in order', () => {
+        const cbpPath = path.join(tempDir, 'project', 'ab53', 'app.cbp');
+        const settings = {
+            env: { set: { A: 'settings' } },
+            chips: { ab53: { env: { set: { C: 'settings-chip' } } } }
+        };
+        const file = {
+            env: { set: { A: 'file' } },
+            profiles: { release: { env: { set: { B: 'file-profile' } } } },
+            projects: { 'project/ab53/app.cbp': { env: { set: { D: 'file-project' } } } }
+        };
+
+        const overrides = resolveProjectEnvOverrides({ cbpPath, workspaceRoot: tempDir, profile: 'release', chip: 'ab53' }, [settings, file]);
+        assert.deepStrictEqual(overrides.map(o => o.set), [
+            { A: 'settings' },
+            { A: 'file' },
+            { B: 'file-profile' },
+            { C: 'settings-chip' },
+            { D: 'file-project' }
+        ]);
+
+        const other = resolveProjectEnvOverrides({ cbpPath: path.join(tempDir, 'boot.cbp'), workspaceRoot: tempDir, profile: '默认', chip: null }, [settings, file]);
+        assert.strictEqual(other.length, 2);
+    });
+});
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProjectLogStore } from '../../services/ProjectLogs';
+
+suite('ProjectLogs Test Suite', () => {
+    let tempDir: string;
+    const cbpPath = path.join('work', 'app', 'app.cbp');
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cbp-project-logs-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('begin/close: writes the stripped output to logs/<project>-<hash>/<timestamp>.log', () => {
+        const store = new ProjectLogStore(tempDir);
+        const log = store.begin(cbpPath, 5, new Date(2026, 9, 19, 15, 30, 12, 42));
+        assert.ok(log);
+
+        log!.append('$ ./build.bat');
+        log!.append('[1/2] \x1b[32mBuilding C object main.o\x1b[0m\r');
+        log!.append('[2/2] Linking app.elf');
+        log!.close();
+
+        const expected = path.join(store.getProjectLogDir(cbpPath)!, '20261019-153012-042.log');
+        assert.ok(/^app-[0-9a-f]{8}$/.test(path.basename(path.dirname(expected))));
+        assert.strictEqual(store.getLastLog(cbpPath), expected);
+        assert.strictEqual(fs.readFileSync(expected, 'utf-8'), '$ ./build.bat\n[1/2] Building C object main.o\n[2/2] Linking app.elf\n');
+    });
+
+    test('close: keeps only the newest logs within the retention count', () => {
+        const store = new ProjectLogStore(tempDir);
+        for (let i = 0; i < 4; i++) {
+            store.begin(cbpPath, 2, new Date(2026, 9, 19, 10, i))!.close();
+        }
+
+        const logs = store.getLogs(cbpPath).map(p => path.basename(p));
+        assert.deepStrictEqual(logs, ['20261019-100300-000.log', '20261019-100200-000.log']);
+    });
+
+    test('getLogs: projects with the same name in different folders keep separate logs', () => {
+        const store = new ProjectLogStore(tempDir);
+        const chipA = path.join('work', 'chipA', 'app', 'app.cbp');
+        const chipB = path.join('work', 'chipB', 'app', 'app.cbp');
+        store.begin(chipA, 1, new Date(2026, 9, 19, 10, 0))!.close();
+        store.begin(chipB, 1, new Date(2026, 9, 19, 11, 0))!.close();
+
+        assert.notStrictEqual(store.getProjectLogDir(chipA), store.getProjectLogDir(chipB));
+        assert.deepStrictEqual(store.getLogs(chipA).map(p => path.basename(p)), ['20261019-100000-000.log']);
+        assert.deepStrictEqual(store.getLogs(chipB).map(p => path.basename(p)), ['20261019-110000-000.log']);
+    });
+
+    test('begin: disabled without a state directory or with zero retention', () => {
+        assert.strictEqual(new ProjectLogStore(null).begin(cbpPath, 5), null);
+        assert.strictEqual(new ProjectLogStore(tempDir).begin(cbpPath, 0), null);
+        assert.strictEqual(new ProjectLogStore(tempDir).getLastLog(cbpPath), undefined);
+    });
+});
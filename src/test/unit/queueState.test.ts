@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_PROFILE_NAME, extractChipName, filterQueueState, findWorkspaceFolder, getCheckedProjects, mergeQueueStates, parseQueueState, QueueState, readQueueState, writeQueueState } from '../../services/QueueState';
+
+suite('QueueState Test Suite', () => {
+    let tempDir: string;
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cbp-queue-state-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('parseQueueState: legacy top-level fields become the default profile', () => {
+        const state = parseQueueState(JSON.stringify({ queuePaths: ['a.cbp'], checkState: { 'a.cbp': false }, chipFilter: 'ab53' }));
+        assert.deepStrictEqual(Array.from(state.profiles.keys()), [DEFAULT_PROFILE_NAME]);
+        assert.strictEqual(state.activeProfile, DEFAULT_PROFILE_NAME);
+        assert.deepStrictEqual(state.profiles.get(DEFAULT_PROFILE_NAME), {
+            queuePaths: ['a.cbp'], checkState: { 'a.cbp': false }, targets: {}, chipFilter: 'ab53'
+        });
+        assert.deepStrictEqual(state.compileCommandsOrder, []);
+    });
+
+    test('parseQueueState: unknown active profile falls back to the first profile', () => {
+        const state = parseQueueState(JSON.stringify({
+            activeProfile: 'gone',
+            profiles: { release: { queuePaths: ['r.cbp'] }, debug: {} }
+        }));
+        assert.strictEqual(state.activeProfile, 'release');
+        assert.deepStrictEqual(state.profiles.get('debug'), { queuePaths: [], checkState: {}, targets: {}, chipFilter: null });
+    });
+
+    test('readQueueState / writeQueueState: round trip, null for a missing file', () => {
+        const filePath = path.join(tempDir, '.cbp-build', 'queue.json');
+        assert.strictEqual(readQueueState(filePath), null);
+
+        const profile = { queuePaths: ['a.cbp'], checkState: {}, targets: { 'a.cbp': 'Debug' }, chipFilter: null };
+        writeQueueState(filePath, {
+            profiles: new Map([[DEFAULT_PROFILE_NAME, profile]]),
+            activeProfile: DEFAULT_PROFILE_NAME,
+            compileCommandsCheckState: {},
+            compileCommandsOrder: []
+        });
+
+        // 顶层字段保存当前配置，兼容旧版本
+        const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        assert.deepStrictEqual(raw.queuePaths, ['a.cbp']);
+        assert.deepStrictEqual(readQueueState(filePath)?.profiles.get(DEFAULT_PROFILE_NAME), profile);
+
+        fs.writeFileSync(filePath, '{ broken');
+        assert.throws(() => readQueueState(filePath));
+    });
+
+    test('getCheckedProjects: checked (default) and existing projects in queue order', () => {
+        const [a, b, c] = ['a.cbp', 'b.cbp', 'c.cbp'].map(name => path.join(tempDir, name));
+        [a, b].forEach(p => fs.writeFileSync(p, ''));
+
+        const checked = getCheckedProjects({ queuePaths: [b, c, a], checkState: { [a]: true, [c]: true }, targets: {}, chipFilter: null });
+        assert.deepStrictEqual(checked, [b, a]);
+        assert.deepStrictEqual(getCheckedProjects({ queuePaths: [a, b], checkState: { [b]: false }, targets: {}, chipFilter: null }), [a]);
+    });
+
+    test('extractChipName: first directory after project', () => {
+        assert.strictEqual(extractChipName(path.join('ws', 'project', 'ab53', 'app', 'app.cbp')), 'ab53');
+        assert.strictEqual(extractChipName(path.join('ws', 'app', 'app.cbp')), null);
+    });
+
+    test('findWorkspaceFolder: innermost containing folder', () => {
+        const sdk = path.join(tempDir, 'sdk');
+        const nested = path.join(sdk, 'apps');
+        const folders = [sdk, nested, path.join(tempDir, 'sdk2')];
+
+        assert.strictEqual(findWorkspaceFolder(path.join(sdk, 'a', 'a.cbp'), folders), sdk);
+        assert.strictEqual(findWorkspaceFolder(path.join(nested, 'b', 'b.cbp'), folders), nested);
+        // 名称前缀相同的文件夹不算包含
+        assert.strictEqual(findWorkspaceFolder(path.join(tempDir, 'sdk2', 'c.cbp'), folders), path.join(tempDir, 'sdk2'));
+        assert.strictEqual(findWorkspaceFolder(path.join(tempDir, 'other', 'd.cbp'), folders), undefined);
+    });
+
+    test('mergeQueueStates / filterQueueState: split per folder and merge back', () => {
+        const [a, b] = [path.join(tempDir, 'sdk', 'a.cbp'), path.join(tempDir, 'app', 'b.cbp')];
+        const state: QueueState = {
+            profiles: new Map([
+                [DEFAULT_PROFILE_NAME, { queuePaths: [a, b], checkState: { [a]: true, [b]: false }, targets: { [b]: 'Release' }, chipFilter: null }],
+                ['debug', { queuePaths: [b], checkState: {}, targets: {}, chipFilter: null }]
+            ]),
+            activeProfile: 'debug',
+            compileCommandsCheckState: { [path.join(tempDir, 'app', 'compile_commands.json')]: true },
+            compileCommandsOrder: [path.join(tempDir, 'app', 'compile_commands.json')]
+        };
+
+        const sdkState = filterQueueState(state, p => p.startsWith(path.join(tempDir, 'sdk')));
+        const appState = filterQueueState(state, p => p.startsWith(path.join(tempDir, 'app')));
+        assert.deepStrictEqual(sdkState.profiles.get(DEFAULT_PROFILE_NAME), { queuePaths: [a], checkState: { [a]: true }, targets: {}, chipFilter: null });
+        assert.deepStrictEqual(sdkState.profiles.get('debug')?.queuePaths, []);
+        assert.deepStrictEqual(sdkState.compileCommandsOrder, []);
+
+        const merged = mergeQueueStates([sdkState, appState])!;
+        assert.deepStrictEqual(merged.profiles, state.profiles);
+        assert.strictEqual(merged.activeProfile, 'debug');
+        assert.deepStrictEqual(merged.compileCommandsCheckState, state.compileCommandsCheckState);
+        // 合并不修改输入的状态
+        assert.deepStrictEqual(sdkState.profiles.get(DEFAULT_PROFILE_NAME)?.queuePaths, [a]);
+        assert.strictEqual(mergeQueueStates([]), null);
+    });
+});
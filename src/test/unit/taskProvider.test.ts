@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { CbpDataManager } from '../../services';
+import { CbpTaskProvider, createCbpTask, resolveTaskProject, toTaskProject } from '../../providers/CbpTaskProvider';
+
+suite('CbpTaskProvider Test Suite', () => {
+    const root = path.resolve('/work/sdk');
+
+    test('toTaskProject / resolveTaskProject: workspace-relative paths', () => {
+        const fsPath = path.join(root, 'app', 'app.cbp');
+        assert.strictEqual(toTaskProject(fsPath, root), 'app/app.cbp');
+        assert.strictEqual(resolveTaskProject('app/app.cbp', root), path.join(root, 'app', 'app.cbp'));
+        assert.strictEqual(resolveTaskProject(fsPath, root), fsPath);
+    });
+
+    test('toTaskProject: keeps paths outside the workspace absolute', () => {
+        const outside = path.resolve('/other/lib.cbp');
+        assert.strictEqual(toTaskProject(outside, root), outside);
+    });
+
+    test('provideTasks: queue tasks plus build/rebuild/clean per project', () => {
+        const manager = new CbpDataManager();
+        manager.setAllDetectedProjects([path.join(root, 'app', 'app.cbp'), path.join(root, 'lib', 'lib.cbp')]);
+
+        const tasks = new CbpTaskProvider(manager).provideTasks();
+        assert.strictEqual(tasks.length, 9);
+        assert.deepStrictEqual(tasks.slice(0, 3).map(t => t.definition.command), ['build', 'rebuild', 'clean']);
+        assert.ok(tasks.slice(0, 3).every(t => t.definition.project === undefined));
+        assert.ok(tasks.every(t => t.source === 'cbp'));
+    });
+
+    test('createCbpTask: task group follows the command', () => {
+        assert.strictEqual(createCbpTask({ type: 'cbp', command: 'build' }).group, vscode.TaskGroup.Build);
+        assert.strictEqual(createCbpTask({ type: 'cbp', command: 'rebuild' }).group, vscode.TaskGroup.Rebuild);
+        assert.strictEqual(createCbpTask({ type: 'cbp', command: 'clean', project: 'app/app.cbp' }).name, '清理 app');
+    });
+
+    test('resolveTask: ignores unknown definitions', () => {
+        const provider = new CbpTaskProvider(new CbpDataManager());
+        const task = new vscode.Task({ type: 'cbp', command: 'flash' }, vscode.TaskScope.Workspace, 'x', 'cbp');
+        assert.strictEqual(provider.resolveTask(task), undefined);
+    });
+});
@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as os from 'os';
+import { findSourceLocations, getOutputProjectName, resolveSourceLocationPath } from '../../utils';
+
+suite('TerminalLinks Test Suite', () => {
+    function locations(line: string) {
+        return findSourceLocations(line).map(m => [line.slice(m.startIndex, m.startIndex + m.length), m.file, m.line, m.column]);
+    }
+
+    test('GCC / Clang: file:line:col', () => {
+        assert.deepStrictEqual(locations('src/main.c:12:5: error: expected \';\''), [['src/main.c:12:5', 'src/main.c', 12, 5]]);
+        assert.deepStrictEqual(locations('In file included from inc/foo.h:12,'), [['inc/foo.h:12', 'inc/foo.h', 12, 0]]);
+    });
+
+    test('Windows drive letters and Chinese directories', () => {
+        assert.deepStrictEqual(locations('C:\\工程\\src\\main.c:3:1: warning: unused'), [['C:\\工程\\src\\main.c:3:1', 'C:\\工程\\src\\main.c', 3, 1]]);
+        assert.deepStrictEqual(locations('[app] D:/项目/驱动/uart.cpp:40:2: error: x'), [['D:/项目/驱动/uart.cpp:40:2', 'D:/项目/驱动/uart.cpp', 40, 2]]);
+        assert.deepStrictEqual(locations('../公共/board.h:7:9: note: here'), [['../公共/board.h:7:9', '../公共/board.h', 7, 9]]);
+    });
+
+    test('paths with spaces: drive letter or quoted', () => {
+        assert.deepStrictEqual(locations('C:\\My Projects\\app\\main.c:12:5: error: x'), [['C:\\My Projects\\app\\main.c:12:5', 'C:\\My Projects\\app\\main.c', 12, 5]]);
+        assert.deepStrictEqual(locations('In file included from D:/SDK 2.0/inc/board.h:3,'), [['D:/SDK 2.0/inc/board.h:3', 'D:/SDK 2.0/inc/board.h', 3, 0]]);
+        assert.deepStrictEqual(locations('"my src/main.c":8:2: warning: y'), [['"my src/main.c":8:2', 'my src/main.c', 8, 2]]);
+        assert.deepStrictEqual(locations('see my src/main.c:8: here'), [['src/main.c:8', 'src/main.c', 8, 0]]);
+    });
+
+    test('assembler and linker locations', () => {
+        assert.deepStrictEqual(locations('startup.S:45: Error: bad instruction'), [['startup.S:45', 'startup.S', 45, 0]]);
+        assert.deepStrictEqual(locations('ld:./link.ld:34: syntax error'), [['./link.ld:34', './link.ld', 34, 0]]);
+        assert.deepStrictEqual(locations('main.c:(.text+0x8): undefined reference to `foo\''), [['main.c', 'main.c', 0, 0]]);
+    });
+
+    test('no match for times and object files', () => {
+        assert.deepStrictEqual(locations('[12:30:45] build finished'), []);
+        assert.deepStrictEqual(locations('obj/main.o:12: something'), []);
+    });
+
+    test('getOutputProjectName: parallel build prefix', () => {
+        assert.strictEqual(getOutputProjectName('[app] main.c:1:1: error: x'), 'app');
+        assert.strictEqual(getOutputProjectName('main.c:1:1: error: x'), undefined);
+    });
+
+    test('resolveSourceLocationPath: search directories in order', () => {
+        const root = path.join(os.tmpdir(), 'links');
+        const boot = path.join(root, 'boot');
+        const app = path.join(root, 'app');
+        const existing = new Set([path.join(app, 'src', 'main.c'), path.join(boot, 'src', 'main.c'), 'C:\\工程\\main.c']);
+        const exists = (p: string) => existing.has(p);
+
+        assert.strictEqual(resolveSourceLocationPath('src/main.c', [app, boot], exists), path.join(app, 'src', 'main.c'));
+        assert.strictEqual(resolveSourceLocationPath('src/main.c', [root, boot], exists), path.join(boot, 'src', 'main.c'));
+        assert.strictEqual(resolveSourceLocationPath('C:\\工程\\main.c', [app], exists), 'C:\\工程\\main.c');
+        assert.strictEqual(resolveSourceLocationPath('missing.c', [app, boot], exists), undefined);
+    });
+});
@@ -1,7 +1,7 @@
 import * as assert from 'assert';
 import * as path from 'path';
 import * as os from 'os';
-import { compareVersions, formatOutput, decodeBuffer, OutputLineBuffer, processBuildCommandPath, parseNinjaProgress } from '../../utils';
+import { compareVersions, formatOutput, decodeBuffer, OutputLineBuffer, processBuildCommandPath, parseNinjaProgress, formatDuration, formatTable, parseJsonc } from '../../utils';
 
 suite('Utils Test Suite', () => {
     const baseDir = path.join(os.tmpdir(), 'test-project');
@@ -193,4 +193,34 @@ suite('Utils Test Suite', () => {
         assert.strictEqual(result.isProgress, true);
         assert.ok(result.shortMsg?.includes('Building file.cpp'));
     });
+
+    test('formatDuration: milliseconds, seconds and minutes', () => {
+        assert.strictEqual(formatDuration(850), '850ms');
+        assert.strictEqual(formatDuration(12345), '12.3s');
+        assert.strictEqual(formatDuration(125000), '2m05s');
+    });
+
+    test('formatTable: pads columns, CJK characters count as two columns', () => {
+        const lines = formatTable([['项目', '耗时'], ['app', '1.2s'], ['bootloader', '850ms']], [false, true]);
+        assert.deepStrictEqual(lines, [
+            '项目' + ' '.repeat(9) + '耗时',
+            'app' + ' '.repeat(10) + '1.2s',
+            'bootloader  850ms'
+        ]);
+    });
+
+    test('parseJsonc: ignores comments and trailing commas outside strings', () => {
+        const text = `{
+            // 构建脚本
+            "cbpBuildManager.buildCommand": "./build.sh // not a comment",
+            /* 多行
+               注释 */
+            "cbpBuildManager.preBuildCommands": ["gen /* keep */", "a,]",],
+        }`;
+        assert.deepStrictEqual(parseJsonc(text), {
+            'cbpBuildManager.buildCommand': './build.sh // not a comment',
+            'cbpBuildManager.preBuildCommands': ['gen /* keep */', 'a,]']
+        });
+        assert.throws(() => parseJsonc('{ broken'));
+    });
 });
@@ -176,3 +176,80 @@ export function parseNinjaProgress(line: string): ProgressMatchResult {
         originalLine: line
     };
 }
+
+// 去除 ANSI 控制序列（颜色、清行等）
+export function stripAnsi(text: string): string {
+    return text.replace(/\x1b\[[0-9;?]*[A-Za-z]/g, '').replace(/\x1b\][^\x07]*\x07/g, '');
+}
+
+// 格式化耗时，如 850ms、12.3s、2m05s
+export function formatDuration(ms: number): string {
+    if (ms < 1000) {
+        return `${Math.round(ms)}ms`;
+    }
+    const seconds = ms / 1000;
+    if (seconds < 60) {
+        return `${seconds.toFixed(1)}s`;
+    }
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}m${String(Math.floor(seconds % 60)).padStart(2, '0')}s`;
+}
+
+// 终端中的显示宽度，CJK 字符占两列
+export function displayWidth(text: string): number {
+    let width = 0;
+    for (const ch of text) {
+        width += /[\u2e80-\uffff]/.test(ch) ? 2 : 1;
+    }
+    return width;
+}
+
+/**
+ * 按列对齐的纯文本表格 (第一行通常为表头)，列之间空两格
+ * @param rightAligned 各列是否右对齐，默认左对齐
+ */
+export function formatTable(rows: string[][], rightAligned: boolean[] = []): string[] {
+    const columns = Math.max(0, ...rows.map(row => row.length));
+    const widths = Array.from({ length: columns }, (_, col) =>
+        Math.max(0, ...rows.map(row => displayWidth(row[col] ?? ''))));
+
+    return rows.map(row => row
+        .map((cell, col) => {
+            const padding = ' '.repeat(widths[col] - displayWidth(cell));
+            return rightAligned[col] ? padding + cell : cell + padding;
+        })
+        .join('  ')
+        .trimEnd());
+}
+
+// 解析 JSONC (VS Code 的 settings.json)：允许 // 与 /* */ 注释和末尾逗号
+export function parseJsonc(text: string): unknown {
+    let result = '';
+    let inString = false;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            result += ch;
+            if (ch === '\\') {
+                result += text[++i] ?? '';
+            } else if (ch === '"') {
+                inString = false;
+            }
+        } else if (ch === '"') {
+            inString = true;
+            result += ch;
+        } else if (ch === '/' && text[i + 1] === '/') {
+            while (i < text.length && text[i] !== '\n') {i++;}
+            result += '\n';
+        } else if (ch === '/' && text[i + 1] === '*') {
+            const end = text.indexOf('*/', i + 2);
+            i = end === -1 ? text.length : end + 1;
+        } else if (ch === '}' || ch === ']') {
+            // 去除末尾逗号
+            result = result.replace(/,(\s*)$/, '$1') + ch;
+        } else {
+            result += ch;
+        }
+    }
+    return JSON.parse(result);
+}
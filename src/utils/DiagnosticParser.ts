@@ -0,0 +1,173 @@
+import * as path from 'path';
+import { stripAnsi } from './CommonUtils';
+
+// --- 编译器诊断解析 (GCC / Clang / ld) ---
+
+export type BuildDiagnosticSeverity = 'error' | 'warning' | 'note';
+
+export interface BuildDiagnosticLocation {
+    file: string;
+    line: number;    // 1-based，0 表示未知
+    column: number;  // 1-based，0 表示未知
+}
+
+export interface BuildDiagnosticRelated extends BuildDiagnosticLocation {
+    message: string;
+}
+
+export interface BuildDiagnostic extends BuildDiagnosticLocation {
+    severity: BuildDiagnosticSeverity;
+    message: string;
+    // 如 -Wunused-variable
+    code?: string;
+    // 没有源码位置的链接错误（file 为空），由调用方决定挂到哪个文件
+    isLinkerError?: boolean;
+    related: BuildDiagnosticRelated[];
+}
+
+// file:line[:col]: severity: message
+const COMPILER_DIAGNOSTIC_PATTERN = /^(.+?):(\d+):(?:(\d+):)?\s*(fatal error|error|warning|note):\s*(.*)$/;
+// In file included from a.c:3:  /  from b.h:5,
+const INCLUDE_CONTEXT_PATTERN = /^\s*(?:In file included from|from)\s+(.+?):(\d+)(?::(\d+))?[:,]?\s*$/;
+// 链接器错误：undefined reference / multiple definition
+const LINKER_MESSAGE_PATTERN = /(undefined reference to .*|multiple definition of .*)$/;
+// 链接器错误前的源码位置：main.c:12: 或 main.c:(.text+0x1e):
+// (后者只有节内偏移，没有行号)
+const LINKER_LOCATION_PATTERN = /((?:[a-zA-Z]:)?[^\s:]+\.(?:c|cpp|cc|cxx|h|hpp|hh|hxx|S|s)):(?:(\d+)|\([^)]*\)):\s*$/;
+// ld: cannot find -lfoo
+const LINKER_GENERIC_PATTERN = /\bld(?:\.exe)?:\s+(?:error:\s*)?(cannot find .*|cannot open .*)$/;
+
+// 判断路径是否为绝对路径（同时兼容 Windows 盘符和 Unix 路径，与平台无关）
+function isAbsoluteOutputPath(p: string): boolean {
+    return /^[a-zA-Z]:[\\\/]/.test(p) || p.startsWith('/') || p.startsWith('\\\\');
+}
+
+export function resolveOutputPath(p: string, cwd: string | undefined): string {
+    if (isAbsoluteOutputPath(p) || !cwd) {
+        return p;
+    }
+    return path.resolve(cwd, p);
+}
+
+/**
+ * 流式解析构建输出中的编译器/链接器诊断信息
+ * - "In file included from" 链会作为下一条诊断的关联信息
+ * - "note:" 会作为上一条诊断的关联信息
+ */
+export class CompilerDiagnosticParser {
+    private diagnostics: BuildDiagnostic[] = [];
+    private pendingIncludes: BuildDiagnosticRelated[] = [];
+    private lastDiagnostic: BuildDiagnostic | null = null;
+
+    constructor(private cwd?: string) {}
+
+    // 切换后续输出的工作目录（同一项目的不同步骤可能在不同目录执行）
+    setCwd(cwd: string | undefined) {
+        this.cwd = cwd;
+    }
+
+    pushLine(rawLine: string) {
+        const line = stripAnsi(rawLine).replace(/\r$/, '');
+        if (!line.trim()) {return;}
+
+        const includeMatch = line.match(INCLUDE_CONTEXT_PATTERN);
+        if (includeMatch) {
+            this.pendingIncludes.push({
+                file: resolveOutputPath(includeMatch[1], this.cwd),
+                line: Number(includeMatch[2]),
+                column: includeMatch[3] ? Number(includeMatch[3]) : 0,
+                message: '包含自此处'
+            });
+            return;
+        }
+
+        const diagMatch = line.match(COMPILER_DIAGNOSTIC_PATTERN);
+        if (diagMatch) {
+            this.handleCompilerDiagnostic(diagMatch);
+            return;
+        }
+
+        const linkerMatch = line.match(LINKER_MESSAGE_PATTERN);
+        if (linkerMatch) {
+            const prefix = line.substring(0, linkerMatch.index);
+            const locMatch = prefix.match(LINKER_LOCATION_PATTERN);
+            this.addDiagnostic({
+                file: locMatch ? resolveOutputPath(locMatch[1], this.cwd) : '',
+                line: locMatch?.[2] ? Number(locMatch[2]) : 0,
+                column: 0,
+                severity: 'error',
+                message: linkerMatch[1],
+                isLinkerError: !locMatch,
+                related: []
+            });
+            return;
+        }
+
+        const genericLinkerMatch = line.match(LINKER_GENERIC_PATTERN);
+        if (genericLinkerMatch) {
+            this.addDiagnostic({
+                file: '',
+                line: 0,
+                column: 0,
+                severity: 'error',
+                message: genericLinkerMatch[1],
+                isLinkerError: true,
+                related: []
+            });
+        }
+    }
+
+    private handleCompilerDiagnostic(match: RegExpMatchArray) {
+        const [, file, lineNum, colNum, severityText, rest] = match;
+        const location: BuildDiagnosticLocation = {
+            file: resolveOutputPath(file, this.cwd),
+            line: Number(lineNum),
+            column: colNum ? Number(colNum) : 0
+        };
+
+        // 提取末尾的 [-Wxxx] 作为诊断代码
+        let message = rest.trim();
+        let code: string | undefined;
+        const codeMatch = message.match(/\s*\[(-W[^\]]+)\]$/);
+        if (codeMatch) {
+            code = codeMatch[1];
+            message = message.substring(0, codeMatch.index).trim();
+        }
+
+        if (severityText === 'note') {
+            // note 挂到上一条诊断上；没有上一条时单独作为 note 诊断
+            if (this.lastDiagnostic) {
+                this.lastDiagnostic.related.push({ ...location, message });
+                this.pendingIncludes = [];
+                return;
+            }
+        }
+
+        this.addDiagnostic({
+            ...location,
+            severity: severityText === 'note' ? 'note' : (severityText === 'warning' ? 'warning' : 'error'),
+            message,
+            code,
+            related: []
+        });
+    }
+
+    private addDiagnostic(diagnostic: BuildDiagnostic) {
+        diagnostic.related.unshift(...this.pendingIncludes);
+        this.pendingIncludes = [];
+        this.diagnostics.push(diagnostic);
+        this.lastDiagnostic = diagnostic;
+    }
+
+    getDiagnostics(): BuildDiagnostic[] {
+        return this.diagnostics;
+    }
+
+    getErrorCount(): number {
+        return this.diagnostics.filter(d => d.severity === 'error').length;
+    }
+
+    getWarningCount(): number {
+        return this.diagnostics.filter(d => d.severity === 'warning').length;
+    }
+}
@@ -0,0 +1,49 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// --- 路径通配符 ---
+// 固件输出文件 (firmwareOutputPattern) 和深度清理产物 (deepCleanPatterns) 共用
+
+function wildcardToRegExp(pattern: string): RegExp {
+    const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    return new RegExp(`^${escaped}$`, process.platform === 'win32' ? 'i' : '');
+}
+
+/**
+ * 按通配符查找文件和目录，每一级路径都可以使用 * 和 ?
+ * @param baseDir 相对路径的起始目录
+ */
+export function findPathsByPattern(baseDir: string, pattern: string): string[] {
+    const normalized = pattern.replace(/\\/g, '/');
+    const absolute = path.isAbsolute(normalized) || /^[a-zA-Z]:\//.test(normalized);
+    const root = absolute ? path.parse(path.resolve(normalized)).root : '';
+    const segments = normalized.slice(root.length).split('/').filter(s => s && s !== '.');
+
+    let current = [absolute ? root : baseDir];
+    for (const segment of segments) {
+        if (!/[*?]/.test(segment)) {
+            current = current.map(dir => path.join(dir, segment)).filter(p => fs.existsSync(p));
+            continue;
+        }
+        const regex = wildcardToRegExp(segment);
+        current = current.flatMap(dir => {
+            try {
+                return fs.readdirSync(dir).filter(name => regex.test(name)).map(name => path.join(dir, name));
+            } catch {
+                return [];
+            }
+        });
+    }
+    return current;
+}
+
+// 按通配符查找文件 (不含目录)
+export function findFilesByPattern(baseDir: string, pattern: string): string[] {
+    return findPathsByPattern(baseDir, pattern).filter(p => {
+        try {
+            return fs.statSync(p).isFile();
+        } catch {
+            return false;
+        }
+    });
+}
@@ -0,0 +1,83 @@
+import * as path from 'path';
+
+// --- 构建终端中的源码位置 (GCC / Clang / ld / 汇编器) ---
+// 识别 file:line[:col]、ld 的 file:(.text+0x1e) 等位置，供终端链接跳转
+
+export interface SourceLocationMatch {
+    // 在行中的起始位置和长度 (覆盖路径、行号和列号)
+    startIndex: number;
+    length: number;
+    // 输出中的原始路径 (可能是相对路径)
+    file: string;
+    line: number;    // 1-based，0 表示未知 (如 ld 的 main.c:(.text+0x1e))
+    column: number;  // 1-based，0 表示未知
+}
+
+// 源文件、头文件、汇编和链接脚本
+const SOURCE_EXTENSIONS = 'c|cc|cpp|cxx|c\\+\\+|h|hh|hpp|hxx|inc|s|asm|ld|lds|x';
+
+// 路径中不允许出现的字符；中文等非 ASCII 字符按普通字符处理
+const PATH_CHAR = '[^\\s:"\'<>|*?()\\[\\]`]';
+
+// 路径的几种写法 (依次尝试)：
+// 1. 引号中的路径，可以包含空格
+// 2. 盘符开头的路径，可以包含空格 (如 C:\My Projects\app\main.c)；盘符前不能紧跟字母 (如 "ld:/a.c" 中的 "d:")
+// 3. 不含空格的相对或绝对路径
+const QUOTED_PATH = `"([^"\\r\\n]*?\\.(?:${SOURCE_EXTENSIONS}))"`;
+const DRIVE_PATH = `((?<![a-zA-Z0-9_])[a-zA-Z]:[\\\\/](?:${PATH_CHAR}| )*?\\.(?:${SOURCE_EXTENSIONS}))`;
+const PLAIN_PATH = `(${PATH_CHAR}*\\.(?:${SOURCE_EXTENSIONS}))`;
+
+// 路径后为 :行[:列] 或 :(节+偏移)
+const LOCATION_PATTERN = new RegExp(
+    `(?:${QUOTED_PATH}|${DRIVE_PATH}|${PLAIN_PATH})(?::(\\d+)(?::(\\d+))?|(?=:\\())`,
+    'gi'
+);
+
+// 并行构建时行首的项目前缀，如 "[app] "
+const PROJECT_PREFIX_PATTERN = /^\[([^\]]+)\] /;
+
+// 找出一行输出中的全部源码位置
+export function findSourceLocations(line: string): SourceLocationMatch[] {
+    const matches: SourceLocationMatch[] = [];
+    LOCATION_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = LOCATION_PATTERN.exec(line)) !== null) {
+        const [text, quotedFile, drivePath, plainPath, lineNumber, column] = match;
+        matches.push({
+            startIndex: match.index,
+            length: text.length,
+            file: quotedFile ?? drivePath ?? plainPath,
+            line: lineNumber ? parseInt(lineNumber, 10) : 0,
+            column: column ? parseInt(column, 10) : 0
+        });
+    }
+    return matches;
+}
+
+// 并行构建输出行的项目名，没有前缀时为 undefined
+export function getOutputProjectName(line: string): string | undefined {
+    return PROJECT_PREFIX_PATTERN.exec(line)?.[1];
+}
+
+// 绝对路径：盘符 (C:\ 或 C:/)、/ 开头或 UNC (\\server)
+function isAbsoluteLocationPath(file: string): boolean {
+    return /^[a-zA-Z]:[\\/]/.test(file) || file.startsWith('/') || file.startsWith('\\\\');
+}
+
+/**
+ * 把输出中的路径解析为存在的文件
+ * @param searchDirs 相对路径依次尝试的目录 (项目目录优先)
+ * @returns 文件完整路径，找不到时为 undefined
+ */
+export function resolveSourceLocationPath(file: string, searchDirs: readonly string[], exists: (fsPath: string) => boolean): string | undefined {
+    if (isAbsoluteLocationPath(file)) {
+        return exists(file) ? file : undefined;
+    }
+    for (const dir of searchDirs) {
+        const fullPath = path.resolve(dir, file);
+        if (exists(fullPath)) {
+            return fullPath;
+        }
+    }
+    return undefined;
+}
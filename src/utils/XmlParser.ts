@@ -0,0 +1,135 @@
+// --- 轻量 XML 解析器 ---
+// 仅用于解析 Code::Blocks 项目文件这类结构简单的 XML：只保留元素与属性，忽略文本内容
+
+export interface XmlElement {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+}
+
+const ENTITY_MAP: Record<string, string> = {
+    quot: '"',
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    apos: '\''
+};
+
+export function decodeXmlEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+        if (entity.startsWith('#x')) {
+            return String.fromCodePoint(parseInt(entity.substring(2), 16));
+        }
+        if (entity.startsWith('#')) {
+            return String.fromCodePoint(parseInt(entity.substring(1), 10));
+        }
+        return ENTITY_MAP[entity] ?? match;
+    });
+}
+
+const ATTRIBUTE_PATTERN = /([^\s=\/>]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+function parseAttributes(text: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    let match: RegExpExecArray | null;
+    ATTRIBUTE_PATTERN.lastIndex = 0;
+    while ((match = ATTRIBUTE_PATTERN.exec(text)) !== null) {
+        attributes[match[1]] = decodeXmlEntities(match[3] ?? match[4] ?? '');
+    }
+    return attributes;
+}
+
+// 解析 XML 文本，返回根元素；格式错误时抛出异常
+export function parseXml(text: string): XmlElement {
+    // 虚拟根节点，方便统一处理
+    const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+    const stack: XmlElement[] = [root];
+    let pos = 0;
+
+    while (pos < text.length) {
+        const lt = text.indexOf('<', pos);
+        if (lt === -1) {break;}
+
+        if (text.startsWith('<!--', lt)) {
+            const end = text.indexOf('-->', lt + 4);
+            if (end === -1) {throw new Error('XML 解析失败: 注释未闭合');}
+            pos = end + 3;
+        } else if (text.startsWith('<![CDATA[', lt)) {
+            const end = text.indexOf(']]>', lt + 9);
+            if (end === -1) {throw new Error('XML 解析失败: CDATA 未闭合');}
+            pos = end + 3;
+        } else if (text.startsWith('<?', lt)) {
+            const end = text.indexOf('?>', lt + 2);
+            if (end === -1) {throw new Error('XML 解析失败: 处理指令未闭合');}
+            pos = end + 2;
+        } else if (text.startsWith('<!', lt)) {
+            // DOCTYPE 等声明
+            const end = text.indexOf('>', lt + 2);
+            if (end === -1) {throw new Error('XML 解析失败: 声明未闭合');}
+            pos = end + 1;
+        } else if (text.startsWith('</', lt)) {
+            const end = text.indexOf('>', lt + 2);
+            if (end === -1) {throw new Error('XML 解析失败: 结束标签未闭合');}
+            const name = text.substring(lt + 2, end).trim();
+            const current = stack.pop();
+            if (!current || current === root || current.name !== name) {
+                throw new Error(`XML 解析失败: 结束标签 </${name}> 不匹配`);
+            }
+            pos = end + 1;
+        } else {
+            const end = findTagEnd(text, lt + 1);
+            if (end === -1) {throw new Error('XML 解析失败: 标签未闭合');}
+            let body = text.substring(lt + 1, end);
+            const selfClosing = body.endsWith('/');
+            if (selfClosing) {
+                body = body.slice(0, -1);
+            }
+            const nameMatch = body.match(/^\s*([^\s\/>]+)/);
+            if (!nameMatch) {throw new Error('XML 解析失败: 缺少标签名');}
+
+            const element: XmlElement = {
+                name: nameMatch[1],
+                attributes: parseAttributes(body.substring(nameMatch[0].length)),
+                children: []
+            };
+            stack[stack.length - 1].children.push(element);
+            if (!selfClosing) {
+                stack.push(element);
+            }
+            pos = end + 1;
+        }
+    }
+
+    if (stack.length > 1) {
+        throw new Error(`XML 解析失败: 标签 <${stack[stack.length - 1].name}> 未闭合`);
+    }
+    if (root.children.length === 0) {
+        throw new Error('XML 解析失败: 没有根元素');
+    }
+    return root.children[0];
+}
+
+// 查找标签结束的 '>'，跳过属性值中的 '>'
+function findTagEnd(text: string, start: number): number {
+    let quote: string | null = null;
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === quote) {quote = null;}
+        } else if (ch === '"' || ch === '\'') {
+            quote = ch;
+        } else if (ch === '>') {
+            return i;
+        }
+    }
+    return -1;
+}
+
+// 查找直接子元素
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+    return element.children.filter(c => c.name === name);
+}
+
+export function firstChildElement(element: XmlElement, name: string): XmlElement | undefined {
+    return element.children.find(c => c.name === name);
+}
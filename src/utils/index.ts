@@ -1 +1,4 @@
 export * from './CommonUtils';
+export * from './DiagnosticParser';
+export * from './TerminalLinks';
+export * from './PathPattern';